@@ -0,0 +1,225 @@
+/**
+ * Tests for BaseQueryRepository listeners and batch writes
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { onSnapshot, writeBatch } from 'firebase/firestore';
+import { getFirestore } from '../infrastructure/config/FirestoreClient';
+import { BaseQueryRepository } from '../infrastructure/repositories/BaseQueryRepository';
+import { quotaMonitorService } from '../infrastructure/services/QuotaMonitorService';
+import { requestLoggerService } from '../infrastructure/services/RequestLoggerService';
+import { quotaCircuitBreaker } from '../infrastructure/services/QuotaCircuitBreakerService';
+import {
+  FirebaseFirestoreQuotaError,
+  FirebaseFirestoreQuotaBlockedError,
+  FirebaseFirestoreBatchError,
+} from '../domain/errors/FirebaseFirestoreError';
+import type { BatchOperation } from '../types/batch.types';
+
+jest.mock('../infrastructure/config/FirestoreClient', () => ({
+  getFirestore: jest.fn(),
+}));
+
+jest.mock('firebase/firestore', () => ({
+  onSnapshot: jest.fn(),
+  writeBatch: jest.fn(),
+  doc: jest.fn((_db, collection, id) => ({ path: `${collection}/${id}` })),
+}));
+
+class TestRepository extends BaseQueryRepository {}
+
+const mockOnSnapshot = onSnapshot as jest.Mock;
+const mockWriteBatch = writeBatch as jest.Mock;
+
+function createOperations(count: number): BatchOperation[] {
+  return Array.from({ length: count }, (_, i) =>
+    i % 2 === 0
+      ? { type: 'set' as const, collection: 'posts', id: `p${i}`, data: { i } }
+      : { type: 'delete' as const, collection: 'posts', id: `p${i}` },
+  );
+}
+
+describe('BaseQueryRepository', () => {
+  let repository: TestRepository;
+  let emitNext: (snapshot: unknown) => void;
+  let emitError: (error: unknown) => void;
+  let firestoreUnsubscribe: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    quotaMonitorService.resetMetrics();
+    requestLoggerService.clearLogs();
+    firestoreUnsubscribe = jest.fn();
+    mockOnSnapshot.mockImplementation((_ref: any, next: any, error: any) => {
+      emitNext = next;
+      emitError = error;
+      return firestoreUnsubscribe;
+    });
+    repository = new TestRepository();
+  });
+
+  describe('subscribeToQuery', () => {
+    it('should count changed documents of server snapshots as reads', () => {
+      const onNext = jest.fn();
+      repository.subscribeToQuery('posts', {} as any, onNext);
+
+      emitNext({ docChanges: () => [1, 2, 3], metadata: { fromCache: false } });
+      emitNext({ docChanges: () => [1], metadata: { fromCache: true } });
+
+      expect(onNext).toHaveBeenCalledTimes(2);
+      expect(quotaMonitorService.getMetrics().readCount).toBe(3);
+    });
+
+    it('should bill an empty first snapshot and skip local write snapshots', () => {
+      repository.subscribeToQuery('posts', {} as any, jest.fn());
+
+      emitNext({ docChanges: () => [], metadata: { fromCache: false, hasPendingWrites: false } });
+      emitNext({ docChanges: () => [1], metadata: { fromCache: false, hasPendingWrites: true } });
+      emitNext({ docChanges: () => [], metadata: { fromCache: false, hasPendingWrites: false } });
+
+      expect(quotaMonitorService.getMetrics().readCount).toBe(1);
+    });
+
+    it('should log listener start and stop', () => {
+      const unsubscribe = repository.subscribeToQuery('posts', {} as any, jest.fn());
+      unsubscribe();
+      unsubscribe();
+
+      const events = requestLoggerService
+        .getLogsByType('listener')
+        .map((log) => log.listenerEvent);
+      expect(events).toEqual(['start', 'stop']);
+      expect(firestoreUnsubscribe).toHaveBeenCalledTimes(1);
+    });
+
+    it('should convert quota errors and drop the listener', () => {
+      const onError = jest.fn();
+      repository.subscribeToQuery('posts', {} as any, jest.fn(), onError);
+
+      emitError(Object.assign(new Error('Quota exceeded'), { code: 'resource-exhausted' }));
+
+      expect(onError.mock.calls[0][0]).toBeInstanceOf(FirebaseFirestoreQuotaError);
+      expect(repository.getActiveListenerCount()).toBe(0);
+    });
+  });
+
+  describe('subscribeToDocument', () => {
+    it('should count one read per server snapshot', () => {
+      const ref = { id: 'p1', parent: { path: 'posts' } } as any;
+      repository.subscribeToDocument(ref, jest.fn());
+
+      emitNext({ metadata: { fromCache: false } });
+      emitNext({ metadata: { fromCache: false, hasPendingWrites: true } });
+      emitNext({ metadata: { fromCache: false } });
+
+      expect(quotaMonitorService.getMetrics().readCount).toBe(2);
+    });
+  });
+
+  describe('destroy', () => {
+    it('should unsubscribe all active listeners', () => {
+      repository.subscribeToQuery('posts', {} as any, jest.fn());
+      repository.subscribeToQuery('users', {} as any, jest.fn());
+
+      repository.destroy();
+
+      expect(firestoreUnsubscribe).toHaveBeenCalledTimes(2);
+      expect(repository.getActiveListenerCount()).toBe(0);
+    });
+  });
+
+  describe('executeBatchWrite', () => {
+    let commit: jest.Mock;
+
+    beforeEach(() => {
+      (getFirestore as jest.Mock).mockReturnValue({});
+      commit = jest.fn().mockResolvedValue(undefined as never);
+      mockWriteBatch.mockImplementation(() => ({
+        set: jest.fn(),
+        update: jest.fn(),
+        delete: jest.fn(),
+        commit,
+      }));
+    });
+
+    it('should split operations into chunks of 500 and track counts', async () => {
+      const onProgress = jest.fn();
+      const result = await repository.executeBatchWrite(createOperations(1200), {
+        concurrency: 2,
+        onProgress,
+      });
+
+      expect(commit).toHaveBeenCalledTimes(3);
+      expect(result.committedChunks).toEqual([0, 1, 2]);
+      expect(result.committedOperations).toBe(1200);
+      expect(onProgress).toHaveBeenCalledTimes(3);
+
+      const metrics = quotaMonitorService.getMetrics();
+      expect(metrics.writeCount).toBe(600);
+      expect(metrics.deleteCount).toBe(600);
+    });
+
+    it('should report partial failure with committed and failed chunks', async () => {
+      commit
+        .mockResolvedValueOnce(undefined as never)
+        .mockRejectedValueOnce(new Error('Network failure') as never)
+        .mockResolvedValueOnce(undefined as never);
+
+      let thrown: FirebaseFirestoreBatchError | null = null;
+      try {
+        await repository.executeBatchWrite(createOperations(30), { chunkSize: 10 });
+      } catch (error) {
+        thrown = error as FirebaseFirestoreBatchError;
+      }
+
+      expect(thrown).toBeInstanceOf(FirebaseFirestoreBatchError);
+      expect(thrown!.result.committedChunks).toEqual([0, 2]);
+      expect(thrown!.result.failedChunks).toEqual([1]);
+      expect(thrown!.result.chunks[1].startIndex).toBe(10);
+      expect(quotaMonitorService.getMetrics().writeCount).toBe(10);
+    });
+
+    it('should skip remaining chunks after a quota error', async () => {
+      commit.mockRejectedValue(
+        Object.assign(new Error('Quota exceeded'), { code: 'resource-exhausted' }) as never,
+      );
+
+      await expect(
+        repository.executeBatchWrite(createOperations(30), { chunkSize: 10 }),
+      ).rejects.toMatchObject({
+        result: { failedChunks: [0], skippedChunks: [1, 2] },
+      });
+      expect(commit).toHaveBeenCalledTimes(1);
+    });
+
+    it('should check the quota for every collection before committing', async () => {
+      const assertAllowed = jest
+        .spyOn(quotaCircuitBreaker, 'assertAllowed')
+        .mockImplementation((type, collection, priority) => {
+          if (collection === 'comments') {
+            throw new FirebaseFirestoreQuotaBlockedError('blocked', 'critical', priority ?? 'normal', type);
+          }
+        });
+      const operations: BatchOperation[] = [
+        { type: 'set', collection: 'posts', id: 'p1', data: {} },
+        { type: 'delete', collection: 'posts', id: 'p2' },
+        { type: 'update', collection: 'posts', id: 'p3', data: {} },
+        { type: 'delete', collection: 'comments', id: 'c1' },
+      ];
+
+      try {
+        await expect(repository.executeBatchWrite(operations)).rejects.toBeInstanceOf(
+          FirebaseFirestoreQuotaBlockedError,
+        );
+        expect(assertAllowed.mock.calls.map(([type, collection]) => `${type}:${collection}`)).toEqual([
+          'write:posts',
+          'delete:posts',
+          'delete:comments',
+        ]);
+        expect(commit).not.toHaveBeenCalled();
+      } finally {
+        assertAllowed.mockRestore();
+      }
+    });
+  });
+});
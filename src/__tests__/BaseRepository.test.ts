@@ -5,6 +5,13 @@
 import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
 import { BaseRepository } from '../infrastructure/repositories/BaseRepository';
 import { getFirestore, resetFirestoreClient } from '../infrastructure/config/FirestoreClient';
+import { requestLoggerService } from '../infrastructure/services/RequestLoggerService';
+import {
+  FirebaseFirestoreQuotaError,
+  FirebaseFirestoreRetryError,
+} from '../domain/errors/FirebaseFirestoreError';
+import { getRetryDelay } from '../utils/retry.util';
+import { DEFAULT_RETRY_POLICY } from '../domain/constants/RetryDefaults';
 
 // Mock Firestore client
 jest.mock('../infrastructure/config/FirestoreClient', () => ({
@@ -124,6 +131,95 @@ describe('BaseRepository', () => {
     });
   });
 
+  describe('executeWithRetry', () => {
+    const context = { type: 'read' as const, collection: 'posts' };
+    const noDelay = { initialDelayMs: 0, jitter: 0 };
+    const firebaseError = (code: string) =>
+      Object.assign(new Error(`Error: ${code}`), { code });
+
+    beforeEach(() => {
+      requestLoggerService.clearLogs();
+    });
+
+    it('should retry retryable errors until success', async () => {
+      const mockOperation = jest
+        .fn()
+        .mockRejectedValueOnce(firebaseError('unavailable'))
+        .mockResolvedValue('success');
+
+      const result = await repository.executeWithRetry(mockOperation, context, noDelay);
+
+      expect(result).toBe('success');
+      expect(mockOperation).toHaveBeenCalledTimes(2);
+      expect(requestLoggerService.getLogs()[0]).toMatchObject({
+        success: false,
+        attempt: 1,
+        retried: true,
+        collection: 'posts',
+      });
+    });
+
+    it('should log only retried attempts, not the final failure', async () => {
+      const mockOperation = jest.fn().mockRejectedValue(firebaseError('unavailable'));
+
+      await expect(repository.executeWithRetry(mockOperation, context, noDelay)).rejects.toThrow();
+
+      expect(requestLoggerService.getLogs().map((log) => log.attempt)).toEqual([1, 2]);
+      expect(requestLoggerService.getStats()).toMatchObject({ failedRequests: 0, retriedAttempts: 2 });
+    });
+
+    it('should throw retry error with attempt history when attempts run out', async () => {
+      const mockOperation = jest.fn().mockRejectedValue(firebaseError('deadline-exceeded'));
+
+      const promise = repository.executeWithRetry(mockOperation, context, noDelay);
+
+      await expect(promise).rejects.toBeInstanceOf(FirebaseFirestoreRetryError);
+      await promise.catch((error: FirebaseFirestoreRetryError) => {
+        expect(error.attempts.map((a) => a.attempt)).toEqual([1, 2, 3]);
+        expect((error as any).code).toBe('deadline-exceeded');
+      });
+      expect(mockOperation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should never retry quota errors', async () => {
+      const mockOperation = jest.fn().mockRejectedValue(firebaseError('resource-exhausted'));
+
+      await expect(
+        repository.executeWithRetry(mockOperation, context, { ...noDelay, maxAttempts: 5 }),
+      ).rejects.toBeInstanceOf(FirebaseFirestoreQuotaError);
+      expect(mockOperation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should rethrow non-retryable errors unchanged', async () => {
+      const error = firebaseError('permission-denied');
+      const mockOperation = jest.fn().mockRejectedValue(error);
+
+      await expect(repository.executeWithRetry(mockOperation, context, noDelay)).rejects.toBe(error);
+      expect(mockOperation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should apply per error code overrides', async () => {
+      const mockOperation = jest.fn().mockRejectedValue(firebaseError('aborted'));
+
+      await expect(
+        repository.executeWithRetry(mockOperation, context, {
+          ...noDelay,
+          codeOverrides: { aborted: { maxAttempts: 2 } },
+        }),
+      ).rejects.toBeInstanceOf(FirebaseFirestoreRetryError);
+      expect(mockOperation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should back off exponentially within jitter bounds', () => {
+      const policy = { ...DEFAULT_RETRY_POLICY, jitter: 0 };
+      expect(getRetryDelay(1, policy)).toBe(250);
+      expect(getRetryDelay(2, policy)).toBe(500);
+      expect(getRetryDelay(10, policy)).toBe(5000);
+      expect(getRetryDelay(1, DEFAULT_RETRY_POLICY, () => 0)).toBe(125);
+      expect(getRetryDelay(1, DEFAULT_RETRY_POLICY, () => 1)).toBe(375);
+    });
+  });
+
   describe('destroy', () => {
     it('should mark repository as destroyed', () => {
       repository.destroy();
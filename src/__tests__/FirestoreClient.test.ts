@@ -0,0 +1,110 @@
+/**
+ * Tests for FirestoreClient initialization
+ */
+
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { initializeApp } from 'firebase/app';
+import { disableNetwork, getFirestore as getSdkFirestore, terminate } from 'firebase/firestore';
+import {
+  initializeFirestore,
+  getFirestore,
+  getFirestoreInitializationError,
+  getFirestoreInitializationResult,
+  getFirestoreInstanceKeys,
+  resetFirestoreClient,
+} from '../infrastructure/config/FirestoreClient';
+
+describe('FirestoreClient', () => {
+  afterEach(() => {
+    resetFirestoreClient();
+  });
+
+  it('should initialize with settings and connect the emulator', () => {
+    initializeApp({ projectId: 'client-test' }, 'client-emulator');
+
+    const db = initializeFirestore({
+      appName: 'client-emulator',
+      cache: 'memory',
+      ignoreUndefinedProperties: true,
+      emulator: { host: 'localhost', port: 8080 },
+    });
+
+    expect(db).not.toBeNull();
+    expect(getFirestore({ appName: 'client-emulator' })).toBe(db);
+    expect(getFirestoreInitializationResult({ appName: 'client-emulator' })).toMatchObject({
+      instance: 'client-emulator/(default)',
+      status: 'initialized',
+      cache: 'memory',
+      emulator: { host: 'localhost', port: 8080 },
+    });
+    expect(getFirestoreInstanceKeys()).toEqual(['client-emulator/(default)']);
+  });
+
+  it('should report instances created elsewhere as existing', () => {
+    const app = initializeApp({ projectId: 'client-test' }, 'client-existing');
+    const sdkDb = getSdkFirestore(app, 'reports');
+
+    expect(initializeFirestore({ appName: 'client-existing', databaseId: 'reports' })).toBe(sdkDb);
+    expect(
+      getFirestoreInitializationResult({ appName: 'client-existing', databaseId: 'reports' }),
+    ).toMatchObject({ status: 'existing', cache: null });
+  });
+
+  it('should connect the emulator to instances created elsewhere', async () => {
+    const app = initializeApp({ projectId: 'client-test' }, 'client-existing-emulator');
+    const sdkDb = getSdkFirestore(app);
+    const options = { appName: 'client-existing-emulator' };
+    const emulator = { host: 'localhost', port: 8080 };
+
+    expect(initializeFirestore({ ...options, emulator })).toBe(sdkDb);
+    expect(getFirestoreInitializationResult(options)).toMatchObject({ status: 'existing', emulator });
+
+    // Connecting again to the same emulator after the start is a no-op
+    await disableNetwork(sdkDb);
+    resetFirestoreClient();
+    expect(initializeFirestore({ ...options, emulator })).toBe(sdkDb);
+    expect(getFirestoreInitializationResult(options)).toMatchObject({ status: 'existing', emulator });
+    await terminate(sdkDb);
+  });
+
+  it('should fail for started instances created elsewhere without the emulator', async () => {
+    const app = initializeApp({ projectId: 'client-test' }, 'client-existing-started');
+    const sdkDb = getSdkFirestore(app);
+    // Starting the client freezes its settings
+    await disableNetwork(sdkDb);
+    const options = { appName: 'client-existing-started' };
+
+    expect(initializeFirestore({ ...options, emulator: { host: 'localhost', port: 8080 } })).toBeNull();
+    expect(getFirestoreInitializationResult(options)).toMatchObject({
+      status: 'failed',
+      emulator: null,
+      error: { code: 'failed-precondition' },
+    });
+    expect(getFirestoreInitializationError(options)).toContain('without the emulator at localhost:8080');
+    await terminate(sdkDb);
+  });
+
+  it('should fail on invalid settings with the error code', () => {
+    initializeApp({ projectId: 'client-test' }, 'client-invalid');
+    const options = { appName: 'client-invalid' };
+
+    const db = initializeFirestore({
+      ...options,
+      cache: 'memory',
+      experimentalForceLongPolling: true,
+      experimentalAutoDetectLongPolling: true,
+    });
+
+    expect(db).toBeNull();
+    expect(getFirestoreInitializationResult(options)).toMatchObject({
+      status: 'failed',
+      error: { code: 'invalid-argument' },
+    });
+    expect(getFirestoreInitializationError(options)).toContain('experimentalForceLongPolling');
+  });
+
+  it('should return null without a Firebase App', () => {
+    expect(initializeFirestore({ appName: 'missing' })).toBeNull();
+    expect(getFirestoreInitializationResult({ appName: 'missing' })).toBeNull();
+  });
+});
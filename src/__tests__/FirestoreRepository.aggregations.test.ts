@@ -0,0 +1,47 @@
+/**
+ * Tests for aggregation queries, driving repositories through the in-memory Firestore
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { quotaMonitorService } from '../infrastructure/services/QuotaMonitorService';
+import { queryCacheMiddleware } from '../infrastructure/middleware/QueryCacheMiddleware';
+import { createInFilter, createEqualFilter } from '../utils/query-builder';
+import { PostRepository, seedPosts, setupInMemoryRepository } from './helpers/in-memory-repositories';
+
+jest.mock('firebase/firestore', () => require('../testing').inMemoryFirestoreModule);
+
+describe('aggregation queries', () => {
+  const fixture = setupInMemoryRepository(() => new PostRepository());
+
+  it('should count, sum and average without reading documents', async () => {
+    seedPosts(fixture.db, 10);
+    const options = { baseFilters: [createInFilter('score', [2, 4, 6])] };
+
+    expect(await fixture.repository.count()).toBe(10);
+    expect(await fixture.repository.sum('score', options)).toBe(12);
+    expect(await fixture.repository.average('score', options)).toBe(4);
+    expect(await fixture.repository.average('score', { baseFilters: [createEqualFilter('score', 0)] })).toBeNull();
+    expect(quotaMonitorService.getMetrics().readCount).toBe(4);
+  });
+
+  it('should bill one read per 1000 index entries', async () => {
+    seedPosts(fixture.db, 1001);
+
+    expect(await fixture.repository.count()).toBe(1001);
+    expect(quotaMonitorService.getMetrics().readCount).toBe(2);
+  });
+
+  it('should serve repeated aggregations from the cache', async () => {
+    seedPosts(fixture.db, 10);
+    queryCacheMiddleware.setPolicy({ enabled: true });
+    try {
+      await fixture.repository.count();
+      expect(await fixture.repository.count()).toBe(10);
+      // A different aggregation over the same query is a different key
+      await fixture.repository.sum('score');
+      expect(quotaMonitorService.getMetrics().readCount).toBe(2);
+    } finally {
+      queryCacheMiddleware.setPolicy({ enabled: false });
+    }
+  });
+});
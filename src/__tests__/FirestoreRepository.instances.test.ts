@@ -0,0 +1,70 @@
+/**
+ * Tests for multiple Firestore instances, driving repositories through the in-memory Firestore
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { Timestamp } from 'firebase/firestore';
+import { createInMemoryFirestore } from '../testing';
+import type { InMemoryFirestore } from '../testing';
+import { setFirestoreInstance } from '../infrastructure/config/FirestoreClient';
+import { FirestoreRepository } from '../infrastructure/repositories/FirestoreRepository';
+import { quotaMonitorService, getQuotaMonitor } from '../infrastructure/services/QuotaMonitorService';
+import { requestLoggerService } from '../infrastructure/services/RequestLoggerService';
+import { queryCacheMiddleware } from '../infrastructure/middleware/QueryCacheMiddleware';
+import { PostRepository, converter, seedPosts, setupInMemoryRepository } from './helpers/in-memory-repositories';
+import type { Post } from './helpers/in-memory-repositories';
+
+jest.mock('firebase/firestore', () => require('../testing').inMemoryFirestoreModule);
+
+describe('multiple instances', () => {
+  const fixture = setupInMemoryRepository(() => new PostRepository());
+  const analyticsInstance = '[DEFAULT]/analytics';
+  let analyticsDb: InMemoryFirestore;
+  let analytics: FirestoreRepository<Post>;
+
+  beforeEach(() => {
+    getQuotaMonitor(analyticsInstance).resetMetrics();
+    requestLoggerService.clearLogs();
+    analyticsDb = createInMemoryFirestore();
+    setFirestoreInstance(analyticsDb.asFirestore(), { databaseId: 'analytics' });
+    analytics = new FirestoreRepository<Post>('posts', converter, {
+      instance: { databaseId: 'analytics' },
+    });
+  });
+
+  afterEach(() => {
+    analytics.destroy();
+  });
+
+  it('should keep data, quota metrics and request logs per instance', async () => {
+    const id = await analytics.create({ title: 'Event', score: 1, createdAt: Timestamp.fromMillis(0) });
+
+    expect(analyticsDb.getDocumentPaths('posts')).toEqual([`posts/${id}`]);
+    expect(fixture.db.getDocumentPaths('posts')).toEqual([]);
+    expect(getQuotaMonitor(analyticsInstance).getMetrics().writeCount).toBe(1);
+    expect(quotaMonitorService.getMetrics().writeCount).toBe(0);
+    expect(requestLoggerService.getLogs(analyticsInstance)).toHaveLength(1);
+    expect(requestLoggerService.getLogs('[DEFAULT]/(default)')).toHaveLength(0);
+  });
+
+  it('should not share cached query results between instances', async () => {
+    seedPosts(fixture.db, 3);
+    seedPosts(analyticsDb, 1);
+    queryCacheMiddleware.setPolicy({ enabled: true });
+    try {
+      expect(await fixture.repository.getMany()).toHaveLength(3);
+      expect(await analytics.getMany()).toHaveLength(1);
+    } finally {
+      queryCacheMiddleware.setPolicy({ enabled: false });
+    }
+  });
+
+  it('should reject operations on instances that are not initialized', async () => {
+    const reporting = new FirestoreRepository<Post>('posts', converter, {
+      instance: { appName: 'reporting' },
+    });
+
+    await expect(reporting.getById('p1')).rejects.toThrow('"reporting/(default)" is not initialized');
+    reporting.destroy();
+  });
+});
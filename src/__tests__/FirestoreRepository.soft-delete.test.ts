@@ -0,0 +1,106 @@
+/**
+ * Tests for soft delete, driving repositories through the in-memory Firestore
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { Timestamp } from 'firebase/firestore';
+import { FirestoreRepository } from '../infrastructure/repositories/FirestoreRepository';
+import { quotaMonitorService } from '../infrastructure/services/QuotaMonitorService';
+import type { PaginationParams } from '../types/pagination.types';
+import { PostRepository, converter, setupInMemoryRepository } from './helpers/in-memory-repositories';
+import type { Post } from './helpers/in-memory-repositories';
+
+jest.mock('firebase/firestore', () => require('../testing').inMemoryFirestoreModule);
+
+class TrashablePostRepository extends FirestoreRepository<Post> {
+  constructor() {
+    super('posts', converter, { softDelete: true });
+  }
+
+  override async getPage(params?: PaginationParams) {
+    return super.getPage(params, 'score');
+  }
+}
+
+describe('soft delete', () => {
+  const fixture = setupInMemoryRepository(() => new TrashablePostRepository());
+
+  beforeEach(async () => {
+    for (let score = 1; score <= 3; score++) {
+      await fixture.repository.set(`p${score}`, {
+        title: `Post ${score}`,
+        score,
+        createdAt: Timestamp.fromMillis(score),
+      });
+    }
+  });
+
+  it('should hide deleted documents from reads until restored', async () => {
+    await fixture.repository.delete('p2');
+
+    expect(fixture.db.getDocumentData('posts/p2')!.deletedAt).toBeInstanceOf(Timestamp);
+    expect(await fixture.repository.getById('p2')).toBeNull();
+    expect(await fixture.repository.getById('p2', { includeDeleted: true })).toMatchObject({ score: 2 });
+    expect((await fixture.repository.getMany()).map((post) => post.score).sort()).toEqual([1, 3]);
+    expect((await fixture.repository.getPage({ limit: 5 })).items.map((post) => post.score)).toEqual([3, 1]);
+    expect(await fixture.repository.count()).toBe(2);
+
+    await fixture.repository.restore('p2');
+    expect(await fixture.repository.exists('p2')).toBe(true);
+    expect(await fixture.repository.count()).toBe(3);
+  });
+
+  it('should purge documents deleted before the cutoff in tracked batches', async () => {
+    await fixture.repository.delete('p1');
+    await fixture.repository.delete('p3');
+    quotaMonitorService.resetMetrics();
+
+    expect(await fixture.repository.purgeDeleted(Date.now() + 1000)).toBe(2);
+    expect(fixture.db.getDocumentData('posts/p1')).toBeUndefined();
+    expect(fixture.db.getDocumentData('posts/p2')).toBeDefined();
+    expect(quotaMonitorService.getMetrics()).toMatchObject({ readCount: 2, deleteCount: 2 });
+    expect(await fixture.repository.purgeDeleted(Date.now() + 1000)).toBe(0);
+  });
+
+  it('should find documents without the tombstone field after a backfill', async () => {
+    fixture.db.seed({ 'posts/legacy': { title: 'Legacy', score: 4, createdAt: Timestamp.fromMillis(4) } });
+
+    expect(await fixture.repository.count()).toBe(3);
+    expect(await fixture.repository.getById('legacy')).toMatchObject({ score: 4 });
+
+    quotaMonitorService.resetMetrics();
+    expect(await fixture.repository.backfillTombstones()).toBe(1);
+    expect(quotaMonitorService.getMetrics()).toMatchObject({ readCount: 4, writeCount: 1 });
+    expect(fixture.db.getDocumentData('posts/legacy')!.deletedAt).toBeNull();
+    expect(await fixture.repository.count()).toBe(4);
+    expect(await fixture.repository.backfillTombstones()).toBe(0);
+  });
+
+  it('should write the tombstone field on upsert without restoring deleted documents', async () => {
+    fixture.db.seed({ 'posts/legacy': { title: 'Legacy', score: 4 } });
+    await fixture.repository.delete('p1');
+
+    await fixture.repository.upsert('legacy', { score: 5 });
+    await fixture.repository.upsert('p1', { score: 10 });
+    await fixture.repository.upsert('p4', { title: 'New' });
+
+    expect(fixture.db.getDocumentData('posts/legacy')).toEqual({ title: 'Legacy', score: 5, deletedAt: null });
+    expect(fixture.db.getDocumentData('posts/p1')!.deletedAt).toBeInstanceOf(Timestamp);
+    expect(fixture.db.getDocumentData('posts/p4')).toEqual({ title: 'New', deletedAt: null });
+    expect((await fixture.repository.getMany()).map((post) => post.title).sort()).toEqual([
+      'Legacy',
+      'New',
+      'Post 2',
+      'Post 3',
+    ]);
+  });
+
+  it('should reject restore without soft delete', async () => {
+    const repository = new PostRepository();
+    try {
+      await expect(repository.restore('p1')).rejects.toThrow('Soft delete is not enabled');
+    } finally {
+      repository.destroy();
+    }
+  });
+});
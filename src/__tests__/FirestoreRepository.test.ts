@@ -0,0 +1,274 @@
+/**
+ * Tests for FirestoreRepository
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import {
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+} from 'firebase/firestore';
+import { FirestoreRepository } from '../infrastructure/repositories/FirestoreRepository';
+import { getFirestore } from '../infrastructure/config/FirestoreClient';
+import { quotaMonitorService } from '../infrastructure/services/QuotaMonitorService';
+import { requestLoggerService } from '../infrastructure/services/RequestLoggerService';
+import {
+  FirebaseFirestoreQuotaError,
+  FirebaseFirestoreValidationError,
+} from '../domain/errors/FirebaseFirestoreError';
+import { createSchemaValidator } from '../utils/schema-validator.util';
+import type { SafeParseSchema } from '../utils/schema-validator.util';
+import type { InvalidDocumentPolicy } from '../domain/entities/DocumentValidator';
+
+jest.mock('../infrastructure/config/FirestoreClient', () => ({
+  getFirestore: jest.fn(),
+}));
+
+jest.mock('firebase/firestore', () => {
+  const withConverter = function (this: any) {
+    return this;
+  };
+  return {
+    collection: jest.fn((_db, path) => ({ path, withConverter })),
+    doc: jest.fn((_db, path, id) => ({ path: `${path}/${id}`, id, withConverter })),
+    query: jest.fn((q) => q),
+    limit: jest.fn((value) => ({ limit: value })),
+    where: jest.fn((field, op, value) => ({ field, op, value })),
+    getDoc: jest.fn(),
+    getDocs: jest.fn(),
+    setDoc: jest.fn(),
+    updateDoc: jest.fn(),
+    deleteDoc: jest.fn(),
+  };
+});
+
+interface Post {
+  title: string;
+}
+
+const converter = {
+  toFirestore: (post: Post) => post,
+  fromFirestore: (snapshot: any) => snapshot.data() as Post,
+};
+
+// zod-style schema: title must be a non-empty string
+const postSchema: SafeParseSchema<Post> = {
+  safeParse: (data: any) =>
+    typeof data?.title === 'string' && data.title.length > 0
+      ? { success: true, data: { title: data.title.trim() } }
+      : { success: false, error: { issues: [{ path: ['title'], message: 'Required', code: 'invalid_type' }] } },
+};
+
+const mockGetFirestore = getFirestore as jest.MockedFunction<typeof getFirestore>;
+const mockGetDoc = getDoc as jest.Mock;
+const mockGetDocs = getDocs as jest.Mock;
+
+describe('FirestoreRepository', () => {
+  let repository: FirestoreRepository<Post>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetFirestore.mockReturnValue({} as any);
+    quotaMonitorService.resetMetrics();
+    requestLoggerService.clearLogs();
+    repository = new FirestoreRepository<Post>('posts', converter as any);
+  });
+
+  afterEach(() => {
+    repository.destroy();
+  });
+
+  describe('getById', () => {
+    it('should return document data and track one read', async () => {
+      mockGetDoc.mockResolvedValue({
+        exists: () => true,
+        data: () => ({ title: 'Hello' }),
+        metadata: { fromCache: false },
+      } as never);
+
+      const result = await repository.getById('p1');
+
+      expect(result).toEqual({ title: 'Hello' });
+      expect(quotaMonitorService.getMetrics().readCount).toBe(1);
+      expect(requestLoggerService.getLogs()[0]).toMatchObject({
+        type: 'read',
+        collection: 'posts',
+        documentId: 'p1',
+        success: true,
+      });
+    });
+
+    it('should return null when document does not exist', async () => {
+      mockGetDoc.mockResolvedValue({
+        exists: () => false,
+        data: () => undefined,
+        metadata: { fromCache: true },
+      } as never);
+
+      expect(await repository.getById('missing')).toBeNull();
+      expect(requestLoggerService.getLogs()[0].cached).toBe(true);
+    });
+  });
+
+  describe('getMany', () => {
+    it('should track one read per returned document', async () => {
+      mockGetDocs.mockResolvedValue({
+        docs: [{ data: () => ({ title: 'a' }) }, { data: () => ({ title: 'b' }) }],
+        metadata: { fromCache: false },
+      } as never);
+
+      const result = await repository.getMany({ limitValue: 2 });
+
+      expect(result).toEqual([{ title: 'a' }, { title: 'b' }]);
+      expect(quotaMonitorService.getMetrics().readCount).toBe(2);
+    });
+
+    it('should track a minimum of one read for empty results', async () => {
+      mockGetDocs.mockResolvedValue({
+        docs: [],
+        metadata: { fromCache: false },
+      } as never);
+
+      await repository.getMany();
+      expect(quotaMonitorService.getMetrics().readCount).toBe(1);
+    });
+
+    it('should fan out oversized in filters and merge results', async () => {
+      const createDoc = (id: string) => ({
+        ref: { path: `posts/${id}` },
+        get: () => undefined,
+        data: () => ({ title: id }),
+      });
+      mockGetDocs
+        .mockResolvedValueOnce({
+          docs: [createDoc('a'), createDoc('b')],
+          metadata: { fromCache: false },
+        } as never)
+        .mockResolvedValueOnce({
+          docs: [createDoc('b')],
+          metadata: { fromCache: false },
+        } as never)
+        .mockResolvedValueOnce({ docs: [], metadata: { fromCache: false } } as never);
+
+      const ids = Array.from({ length: 70 }, (_, i) => `id-${i}`);
+      const result = await repository.getMany({
+        baseFilters: [{ field: 'id', operator: 'in', value: ids }],
+      });
+
+      expect(mockGetDocs).toHaveBeenCalledTimes(3);
+      expect(result).toEqual([{ title: 'a' }, { title: 'b' }]);
+      // 2 + 1 documents plus the minimum read of the empty query
+      expect(quotaMonitorService.getMetrics().readCount).toBe(4);
+    });
+  });
+
+  describe('writes', () => {
+    it('should create document and return generated ID', async () => {
+      (doc as jest.Mock).mockReturnValueOnce({ id: 'new-id' });
+      (setDoc as jest.Mock).mockResolvedValue(undefined as never);
+
+      const id = await repository.create({ title: 'New' });
+
+      expect(id).toBe('new-id');
+      expect(setDoc).toHaveBeenCalledWith({ id: 'new-id' }, { title: 'New' });
+      expect(quotaMonitorService.getMetrics().writeCount).toBe(1);
+    });
+
+    it('should merge data on upsert', async () => {
+      (setDoc as jest.Mock).mockResolvedValue(undefined as never);
+
+      await repository.upsert('p1', { title: 'Merged' });
+
+      expect(setDoc).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'p1' }),
+        { title: 'Merged' },
+        { merge: true },
+      );
+    });
+
+    it('should track update and delete', async () => {
+      (updateDoc as jest.Mock).mockResolvedValue(undefined as never);
+      (deleteDoc as jest.Mock).mockResolvedValue(undefined as never);
+
+      await repository.update('p1', { title: 'Updated' });
+      await repository.delete('p1');
+
+      const metrics = quotaMonitorService.getMetrics();
+      expect(metrics.writeCount).toBe(1);
+      expect(metrics.deleteCount).toBe(1);
+    });
+  });
+
+  describe('validation', () => {
+    const createValidatedRepository = (onInvalidRead: InvalidDocumentPolicy, onInvalid = jest.fn()) =>
+      new FirestoreRepository<Post>('posts', converter as any, {
+        validation: { validator: createSchemaValidator(postSchema), onInvalidRead, onInvalid },
+      });
+
+    beforeEach(() => {
+      mockGetDocs.mockResolvedValue({
+        docs: [
+          { id: 'p1', data: () => ({ title: ' Valid ' }) },
+          { id: 'p2', data: () => ({ legacyTitle: 'Old' }) },
+        ],
+        metadata: { fromCache: false },
+      } as never);
+    });
+
+    it('should skip invalid documents and report them', async () => {
+      const onInvalid = jest.fn();
+      const validated = createValidatedRepository('skip', onInvalid);
+
+      expect(await validated.getMany()).toEqual([{ title: 'Valid' }]);
+      expect(onInvalid).toHaveBeenCalledWith(
+        expect.objectContaining({
+          documentId: 'p2',
+          operation: 'read',
+          issues: [{ path: 'title', message: 'Required', code: 'invalid_type' }],
+        }),
+      );
+      validated.destroy();
+    });
+
+    it('should throw or return invalid documents depending on the policy', async () => {
+      const throwing = createValidatedRepository('throw');
+      const reporting = createValidatedRepository('report');
+
+      await expect(throwing.getMany()).rejects.toBeInstanceOf(FirebaseFirestoreValidationError);
+      expect(await reporting.getMany()).toEqual([{ title: 'Valid' }, { legacyTitle: 'Old' }]);
+      throwing.destroy();
+      reporting.destroy();
+    });
+
+    it('should reject invalid writes before they reach Firestore', async () => {
+      const validated = createValidatedRepository('throw');
+
+      await expect(validated.set('p1', { title: '' })).rejects.toMatchObject({
+        name: 'FirebaseFirestoreValidationError',
+        operation: 'write',
+        documentId: 'p1',
+      });
+      expect(setDoc).not.toHaveBeenCalled();
+      expect(quotaMonitorService.getMetrics().writeCount).toBe(0);
+      validated.destroy();
+    });
+  });
+
+  describe('error handling', () => {
+    it('should convert quota errors and log the failure', async () => {
+      const quotaError = Object.assign(new Error('Quota exceeded'), {
+        code: 'resource-exhausted',
+      });
+      mockGetDoc.mockRejectedValue(quotaError as never);
+
+      await expect(repository.exists('p1')).rejects.toBeInstanceOf(
+        FirebaseFirestoreQuotaError,
+      );
+      expect(requestLoggerService.getLogs()[0].success).toBe(false);
+      expect(quotaMonitorService.getMetrics().readCount).toBe(0);
+    });
+  });
+});
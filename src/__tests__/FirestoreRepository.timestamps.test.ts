@@ -0,0 +1,70 @@
+/**
+ * Tests for repository timestamps, driving repositories through the in-memory Firestore
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Timestamp } from 'firebase/firestore';
+import type { DocumentData, QueryDocumentSnapshot } from 'firebase/firestore';
+import { FirestoreRepository } from '../infrastructure/repositories/FirestoreRepository';
+import { quotaMonitorService } from '../infrastructure/services/QuotaMonitorService';
+import { setupInMemoryRepository } from './helpers/in-memory-repositories';
+
+jest.mock('firebase/firestore', () => require('../testing').inMemoryFirestoreModule);
+
+interface Note {
+  title?: string;
+  score?: number;
+}
+
+const noteConverter = {
+  toFirestore: (note: Note) => ({ ...note }),
+  fromFirestore: (snapshot: QueryDocumentSnapshot<DocumentData>) => snapshot.data() as Note,
+};
+
+describe('repository timestamps', () => {
+  const fixture = setupInMemoryRepository(
+    () => new FirestoreRepository<Note>('notes', noteConverter, { timestamps: true }),
+  );
+
+  it('should stamp createdAt on create and updatedAt on every update', async () => {
+    const id = await fixture.repository.create({ title: 'Note' });
+    const created = fixture.db.getDocumentData(`notes/${id}`)!;
+
+    expect(created.createdAt).toBeInstanceOf(Timestamp);
+    expect(created.updatedAt).toEqual(created.createdAt);
+
+    await fixture.repository.update(id, { title: 'Edited' });
+    await fixture.repository.upsert(id, { score: 1 });
+    const updated = fixture.db.getDocumentData(`notes/${id}`)!;
+
+    expect(updated.createdAt).toEqual(created.createdAt);
+    expect(updated.updatedAt).toBeInstanceOf(Timestamp);
+    expect(await fixture.repository.getById(id)).toMatchObject({ title: 'Edited', score: 1 });
+  });
+
+  it('should stamp createdAt when upsert creates the document', async () => {
+    await fixture.repository.upsert('n1', { title: 'Upserted', score: 1 });
+    const created = fixture.db.getDocumentData('notes/n1')!;
+
+    expect(created.createdAt).toBeInstanceOf(Timestamp);
+    expect(quotaMonitorService.getMetrics()).toMatchObject({ readCount: 1, writeCount: 1 });
+
+    const page = await fixture.repository.getPage();
+    expect(page.items.map((note) => note.title)).toEqual(['Upserted']);
+
+    await fixture.repository.upsert('n1', { score: 2 });
+    expect(fixture.db.getDocumentData('notes/n1')).toMatchObject({ score: 2, createdAt: created.createdAt });
+  });
+
+  it('should reject upsert while offline since it runs a transaction', async () => {
+    fixture.db.setNetworkEnabled(false);
+    try {
+      await expect(fixture.repository.upsert('n1', { title: 'Offline' })).rejects.toMatchObject({
+        code: 'unavailable',
+      });
+      expect(fixture.db.getDocumentData('notes/n1')).toBeUndefined();
+    } finally {
+      fixture.db.setNetworkEnabled(true);
+    }
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for read validation of pages and listeners, driving repositories through the in-memory Firestore
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { createInMemoryFirestore } from '../testing';
+import type { InMemoryFirestore } from '../testing';
+import { setFirestoreInstance, resetFirestoreClient } from '../infrastructure/config/FirestoreClient';
+import { FirestoreRepository } from '../infrastructure/repositories/FirestoreRepository';
+import { FirebaseFirestoreValidationError } from '../domain/errors/FirebaseFirestoreError';
+import type { InvalidDocumentPolicy } from '../domain/entities/DocumentValidator';
+import { createSchemaValidator } from '../utils/schema-validator.util';
+import type { SafeParseSchema } from '../utils/schema-validator.util';
+import { converter, seedPosts } from './helpers/in-memory-repositories';
+import type { Post } from './helpers/in-memory-repositories';
+
+jest.mock('firebase/firestore', () => require('../testing').inMemoryFirestoreModule);
+
+// zod-style schema: score must be a number
+const postSchema: SafeParseSchema<Post> = {
+  safeParse: (data: any) =>
+    typeof data?.score === 'number'
+      ? { success: true, data }
+      : { success: false, error: { issues: [{ path: ['score'], message: 'Required', code: 'invalid_type' }] } },
+};
+
+describe('read validation of pages and listeners', () => {
+  let db: InMemoryFirestore;
+  let repository: FirestoreRepository<Post>;
+
+  const createRepository = (onInvalidRead: InvalidDocumentPolicy) => {
+    repository = new FirestoreRepository<Post>('posts', converter, {
+      validation: { validator: createSchemaValidator(postSchema), onInvalidRead },
+    });
+  };
+
+  beforeEach(() => {
+    db = createInMemoryFirestore();
+    setFirestoreInstance(db.asFirestore());
+    seedPosts(db, 5);
+    db.seed({ 'posts/p3': { title: 'Legacy', rank: 3 } });
+  });
+
+  afterEach(() => {
+    repository.destroy();
+    resetFirestoreClient();
+  });
+
+  it('should skip invalid documents in pages and continue after them', async () => {
+    createRepository('skip');
+
+    const first = await repository.getPage({ limit: 2 }, 'title', 'asc');
+    const second = await repository.getPage({ cursor: first.nextCursor!, limit: 2 }, 'title', 'asc');
+
+    // 'Legacy' sorts first and is skipped
+    expect(first.items.map((post) => post.title)).toEqual(['Post 1']);
+    expect(first.hasMore).toBe(true);
+    expect(second.items.map((post) => post.title)).toEqual(['Post 2', 'Post 4']);
+  });
+
+  it('should reject pages with invalid documents with the throw policy', async () => {
+    createRepository('throw');
+
+    await expect(repository.getPage({ limit: 10 }, 'title', 'asc')).rejects.toBeInstanceOf(
+      FirebaseFirestoreValidationError,
+    );
+  });
+
+  it('should validate documents delivered to listeners', async () => {
+    createRepository('skip');
+    const documents: (Post | null)[] = [];
+    const lists: string[][] = [];
+
+    const unsubscribeDocument = repository.subscribe('p3', (post) => documents.push(post));
+    const unsubscribeQuery = repository.subscribeToMany({}, (posts) =>
+      lists.push(posts.map((post) => post.title)),
+    );
+    await Promise.resolve();
+    await repository.update('p3', { score: 3 });
+    unsubscribeDocument();
+    unsubscribeQuery();
+
+    expect(documents).toEqual([null, { title: 'Legacy', rank: 3, score: 3 }]);
+    expect(lists[0]).toEqual(['Post 1', 'Post 2', 'Post 4', 'Post 5']);
+    expect(lists[lists.length - 1]).toContain('Legacy');
+  });
+
+  it('should report invalid snapshots to onError with the throw policy', async () => {
+    createRepository('throw');
+    const onNext = jest.fn();
+    const onError = jest.fn();
+
+    const unsubscribe = repository.subscribe('p3', onNext, onError);
+    await Promise.resolve();
+    unsubscribe();
+
+    expect(onNext).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith(expect.any(FirebaseFirestoreValidationError));
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Tests for the in-memory Firestore, driving repositories end-to-end
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  runTransaction,
+  increment,
+  arrayUnion,
+  Timestamp,
+} from 'firebase/firestore';
+import { quotaMonitorService } from '../infrastructure/services/QuotaMonitorService';
+import { createInFilter, createOrFilter, createEqualFilter } from '../utils/query-builder';
+import { PostRepository, seedPosts, setupInMemoryRepository } from './helpers/in-memory-repositories';
+
+jest.mock('firebase/firestore', () => require('../testing').inMemoryFirestoreModule);
+
+describe('InMemoryFirestore', () => {
+  const fixture = setupInMemoryRepository(() => new PostRepository());
+
+  describe('repository CRUD', () => {
+    it('should create, read, update and delete documents', async () => {
+      const id = await fixture.repository.create({
+        title: 'Hello',
+        score: 1,
+        createdAt: Timestamp.fromMillis(0),
+      });
+
+      expect(await fixture.repository.getById(id)).toMatchObject({ title: 'Hello' });
+
+      await fixture.repository.update(id, { title: 'Updated' });
+      await fixture.repository.upsert(id, { score: 5 });
+      expect(fixture.db.getDocumentData(`posts/${id}`)).toMatchObject({ title: 'Updated', score: 5 });
+
+      await fixture.repository.delete(id);
+      expect(await fixture.repository.exists(id)).toBe(false);
+    });
+
+    it('should reject updates of missing documents with not-found', async () => {
+      await expect(fixture.repository.update('missing', { title: 'x' })).rejects.toMatchObject({
+        code: 'not-found',
+      });
+    });
+
+    it('should apply field value sentinels', async () => {
+      const ref = doc(collection(fixture.db.asFirestore(), 'counters'), 'c1');
+      fixture.db.seed({ 'counters/c1': { count: 1, tags: ['a'] } });
+
+      await runTransaction(fixture.db.asFirestore(), async (transaction) => {
+        const snapshot = await transaction.get(ref);
+        transaction.update(ref, {
+          count: increment(snapshot.get('count')),
+          tags: arrayUnion('a', 'b'),
+        });
+      });
+
+      expect((await getDoc(ref)).data()).toEqual({ count: 2, tags: ['a', 'b'] });
+    });
+  });
+
+  describe('queries', () => {
+    beforeEach(() => {
+      seedPosts(fixture.db, 10);
+    });
+
+    it('should filter, sort and limit like Firestore', async () => {
+      const posts = await fixture.repository.getMany({
+        baseFilters: [
+          createOrFilter(createEqualFilter('score', 2), createInFilter('title', ['Post 7', 'Post 9'])),
+        ],
+        sort: { field: 'score', order: 'desc' },
+        limitValue: 2,
+      });
+
+      expect(posts.map((post) => post.score)).toEqual([9, 7]);
+    });
+
+    it('should compare Timestamp and Date values', async () => {
+      const snapshot = await getDocs(
+        query(
+          collection(fixture.db.asFirestore(), 'posts'),
+          where('createdAt', '>=', new Date(8000)),
+          orderBy('createdAt'),
+        ),
+      );
+
+      expect(snapshot.docs.map((docSnap) => docSnap.id)).toEqual(['p8', 'p9', 'p10']);
+    });
+
+    it('should fan out oversized in filters and track every query', async () => {
+      const titles = Array.from({ length: 45 }, (_, i) => `Post ${i + 1}`);
+      const posts = await fixture.repository.getMany({ baseFilters: [createInFilter('title', titles)] });
+
+      expect(posts).toHaveLength(10);
+      // 10 documents from the first query plus the minimum read of the second
+      expect(quotaMonitorService.getMetrics().readCount).toBe(11);
+    });
+
+    it('should page forward and backward with cursor tokens', async () => {
+      const first = await fixture.repository.getPage({ limit: 4 });
+      const second = await fixture.repository.getPage({ limit: 4, cursor: first.nextCursor! });
+      const back = await fixture.repository.getPage({
+        limit: 4,
+        cursor: second.prevCursor!,
+        direction: 'backward',
+      });
+
+      expect(first.items.map((post) => post.score)).toEqual([10, 9, 8, 7]);
+      expect(second.items.map((post) => post.score)).toEqual([6, 5, 4, 3]);
+      expect(back.items).toEqual(first.items);
+      expect(back.hasPrevious).toBe(false);
+    });
+
+    it('should bill one read for an empty page', async () => {
+      fixture.db.reset();
+      quotaMonitorService.resetMetrics();
+
+      const page = await fixture.repository.getPage({ limit: 4 });
+
+      expect(page.items).toEqual([]);
+      expect(quotaMonitorService.getMetrics().readCount).toBe(1);
+    });
+  });
+
+  describe('batches and listeners', () => {
+    it('should commit batch writes atomically', async () => {
+      seedPosts(fixture.db, 2);
+
+      await fixture.repository.executeBatchWrite([
+        { type: 'update', collection: 'posts', id: 'p1', data: { score: 100 } },
+        { type: 'delete', collection: 'posts', id: 'p2' },
+        { type: 'set', collection: 'posts', id: 'p3', data: { title: 'New', score: 3 } },
+      ]);
+
+      expect(fixture.db.getDocumentPaths('posts')).toEqual(['posts/p1', 'posts/p3']);
+      expect(fixture.db.getDocumentData('posts/p1')?.score).toBe(100);
+    });
+
+    it('should leave data untouched when a batch fails', async () => {
+      seedPosts(fixture.db, 1);
+
+      await expect(
+        fixture.repository.executeBatchWrite([
+          { type: 'delete', collection: 'posts', id: 'p1' },
+          { type: 'update', collection: 'posts', id: 'missing', data: { score: 1 } },
+        ]),
+      ).rejects.toThrow();
+      expect(fixture.db.getDocumentPaths('posts')).toEqual(['posts/p1']);
+    });
+
+    it('should deliver query snapshots with document changes', async () => {
+      seedPosts(fixture.db, 2);
+      const snapshots: { ids: string[]; changes: string[] }[] = [];
+
+      const unsubscribe = fixture.repository.subscribeToQuery(
+        'posts',
+        query(collection(fixture.db.asFirestore(), 'posts'), where('score', '>=', 2)),
+        (snapshot) => {
+          snapshots.push({
+            ids: snapshot.docs.map((docSnap) => docSnap.id),
+            changes: snapshot.docChanges().map((change) => `${change.type}:${change.doc.id}`),
+          });
+        },
+      );
+      await Promise.resolve();
+
+      await fixture.repository.update('p1', { score: 5 });
+      await fixture.repository.update('p2', { title: 'Unrelated' });
+      unsubscribe();
+      await fixture.repository.delete('p1');
+
+      expect(snapshots).toEqual([
+        { ids: ['p2'], changes: ['added:p2'] },
+        { ids: ['p1', 'p2'], changes: ['added:p1'] },
+        { ids: ['p1', 'p2'], changes: ['modified:p2'] },
+      ]);
+      expect(fixture.db.getListenerCount()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Tests for MiddlewarePipeline
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { Timestamp } from 'firebase/firestore';
+import { MiddlewarePipeline } from '../infrastructure/middleware/MiddlewarePipeline';
+import { quotaMonitorService } from '../infrastructure/services/QuotaMonitorService';
+import { PostRepository, seedPosts, setupInMemoryRepository } from './helpers/in-memory-repositories';
+
+jest.mock('firebase/firestore', () => require('../testing').inMemoryFirestoreModule);
+import type {
+  OperationContext,
+  OperationMiddleware,
+} from '../infrastructure/middleware/MiddlewarePipeline';
+
+function createContext(overrides: Partial<OperationContext> = {}): OperationContext {
+  return {
+    type: 'read',
+    collection: 'posts',
+    count: 1,
+    repository: 'TestRepository',
+    priority: 'normal',
+    options: {},
+    state: {},
+    ...overrides,
+  };
+}
+
+function createRecorder(calls: string[], name: string, order?: number): OperationMiddleware {
+  return {
+    name,
+    order,
+    before: () => {
+      calls.push(`${name}:before`);
+    },
+    after: () => {
+      calls.push(`${name}:after`);
+    },
+    error: () => {
+      calls.push(`${name}:error`);
+    },
+  };
+}
+
+describe('MiddlewarePipeline', () => {
+  it('should run hooks in order around the operation', async () => {
+    const calls: string[] = [];
+    const pipeline = new MiddlewarePipeline();
+    pipeline.use(createRecorder(calls, 'inner', 10));
+    pipeline.use(createRecorder(calls, 'outer'));
+
+    const result = await pipeline.execute(createContext(), async () => {
+      calls.push('operation');
+      return 'result';
+    });
+
+    expect(result).toBe('result');
+    expect(calls).toEqual([
+      'outer:before',
+      'inner:before',
+      'operation',
+      'inner:after',
+      'outer:after',
+    ]);
+  });
+
+  it('should run error hooks and rethrow', async () => {
+    const calls: string[] = [];
+    const pipeline = new MiddlewarePipeline();
+    pipeline.use(createRecorder(calls, 'outer'));
+    pipeline.use(createRecorder(calls, 'inner', 10));
+
+    await expect(
+      pipeline.execute(createContext(), () => Promise.reject(new Error('failed'))),
+    ).rejects.toThrow('failed');
+    expect(calls).toEqual(['outer:before', 'inner:before', 'inner:error', 'outer:error']);
+  });
+
+  it('should let before hooks reject operations', async () => {
+    const pipeline = new MiddlewarePipeline();
+    const operation = jest.fn(async () => 'result');
+    pipeline.use({
+      name: 'read-only',
+      before: (context) => {
+        if (context.type !== 'read') throw new Error('Writes are disabled');
+      },
+    });
+
+    await expect(pipeline.execute(createContext({ type: 'write' }), operation)).rejects.toThrow(
+      'Writes are disabled',
+    );
+    expect(operation).not.toHaveBeenCalled();
+  });
+
+  it('should let around hooks short-circuit and share context state', async () => {
+    const pipeline = new MiddlewarePipeline();
+    const operation = jest.fn(async () => 'fresh');
+    pipeline.use({
+      name: 'stub',
+      around: <R>(context: OperationContext, next: () => R): R => {
+        context.state.stubbed = true;
+        return (context.collection === 'stubbed' ? Promise.resolve('stub') : next()) as R;
+      },
+    });
+    const context = createContext({ collection: 'stubbed' });
+
+    expect(await pipeline.execute(context, operation)).toBe('stub');
+    expect(context.state.stubbed).toBe(true);
+    expect(operation).not.toHaveBeenCalled();
+  });
+
+  it('should inherit, override and disable parent middlewares', () => {
+    const parent = new MiddlewarePipeline();
+    const child = new MiddlewarePipeline(parent);
+    parent.use({ name: 'logging', order: 5 });
+    parent.use({ name: 'auth' });
+    parent.use({ name: 'metrics', order: 1 });
+
+    child.use({ name: 'metrics', order: 10 });
+    child.disable('logging');
+
+    expect(child.getMiddlewares().map((m) => `${m.name}:${m.order ?? 0}`)).toEqual([
+      'auth:0',
+      'metrics:10',
+    ]);
+    expect(parent.getMiddlewares().map((m) => m.name)).toEqual(['auth', 'metrics', 'logging']);
+
+    child.enable('logging');
+    expect(child.getMiddlewares().map((m) => m.name)).toContain('logging');
+  });
+
+  it('should run synchronous operations', () => {
+    const calls: string[] = [];
+    const pipeline = new MiddlewarePipeline();
+    pipeline.use(createRecorder(calls, 'recorder'));
+
+    const result = pipeline.executeSync(createContext({ type: 'listener' }), () => 'unsubscribe');
+
+    expect(result).toBe('unsubscribe');
+    expect(calls).toEqual(['recorder:before', 'recorder:after']);
+  });
+});
+
+describe('middleware pipeline with repositories', () => {
+  const fixture = setupInMemoryRepository(() => new PostRepository());
+
+  it('should track transaction reads, writes and deletes', async () => {
+    seedPosts(fixture.db, 2);
+
+    await fixture.repository.transferScore('p1', 'p2');
+
+    expect(fixture.db.getDocumentPaths('posts')).toEqual(['posts/p2']);
+    expect(fixture.db.getDocumentData('posts/p2')?.score).toBe(3);
+    expect(quotaMonitorService.getMetrics()).toMatchObject({
+      readCount: 2,
+      writeCount: 1,
+      deleteCount: 1,
+    });
+  });
+
+  it('should pass every operation type through repository middlewares', async () => {
+    const types: string[] = [];
+    fixture.repository.useMiddleware({
+      name: 'recorder',
+      before: (context: OperationContext) => {
+        types.push(context.type);
+      },
+    });
+    seedPosts(fixture.db, 2);
+
+    await fixture.repository.getById('p1');
+    await fixture.repository.update('p1', { score: 10 });
+    await fixture.repository.delete('p2');
+    await fixture.repository.getMany();
+    fixture.repository.subscribeToDocument(fixture.repository['getDocRef']('p1'), () => {})();
+    await fixture.repository.transferScore('p1', 'p1').catch(() => undefined);
+
+    expect(types).toEqual(['read', 'write', 'delete', 'read', 'listener', 'transaction']);
+  });
+
+  it('should reject operations from a gating middleware', async () => {
+    fixture.repository.useMiddleware({
+      name: 'read-only',
+      before: (context: OperationContext) => {
+        if (context.type !== 'read') throw new Error('Read-only mode');
+      },
+    });
+
+    await expect(fixture.repository.set('p1', { title: 'x', score: 1, createdAt: Timestamp.now() }))
+      .rejects.toThrow('Read-only mode');
+    expect(fixture.db.getDocumentPaths('posts')).toEqual([]);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Tests for NetworkStateService, driving repositories through the in-memory Firestore
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { Timestamp } from 'firebase/firestore';
+import { requestLoggerService } from '../infrastructure/services/RequestLoggerService';
+import { networkStateService } from '../infrastructure/services/NetworkStateService';
+import { DEFAULT_WRITE_ACKNOWLEDGMENT_TIMEOUT_MS } from '../domain/constants/NetworkStateDefaults';
+import { PostRepository, setupInMemoryRepository } from './helpers/in-memory-repositories';
+
+jest.mock('firebase/firestore', () => require('../testing').inMemoryFirestoreModule);
+
+describe('NetworkStateService', () => {
+  const fixture = setupInMemoryRepository(() => new PostRepository());
+  const post = { title: 'Offline', score: 1, createdAt: Timestamp.fromMillis(0) };
+
+  beforeEach(() => {
+    networkStateService.reset();
+    requestLoggerService.clearLogs();
+  });
+
+  afterEach(() => {
+    fixture.db.setNetworkEnabled(true);
+    networkStateService.setWriteAcknowledgmentTimeout(DEFAULT_WRITE_ACKNOWLEDGMENT_TIMEOUT_MS);
+  });
+
+  it('should apply writes locally while offline and log them as acknowledged locally', async () => {
+    await networkStateService.disableNetwork();
+    const write = fixture.repository.set('p1', post);
+    await Promise.resolve();
+
+    expect(await fixture.repository.getById('p1')).toMatchObject({ title: 'Offline' });
+    expect(fixture.repository.getPendingWriteCount()).toBe(1);
+    expect(networkStateService.getState()).toMatchObject({
+      networkEnabled: false,
+      connectivity: 'offline',
+      pendingWrites: 1,
+      synced: false,
+    });
+    expect(requestLoggerService.getLogs()).toContainEqual(
+      expect.objectContaining({ type: 'write', documentId: 'p1', acknowledged: 'local' }),
+    );
+    expect(requestLoggerService.getStats().localWriteRequests).toBe(1);
+
+    await networkStateService.enableNetwork();
+    await write;
+
+    expect(fixture.repository.getPendingWriteCount()).toBe(0);
+    expect(networkStateService.getState()).toMatchObject({
+      connectivity: 'online',
+      pendingWrites: 0,
+      synced: true,
+    });
+    expect(requestLoggerService.getLogs()).toContainEqual(
+      expect.objectContaining({ type: 'write', documentId: 'p1', acknowledged: 'server' }),
+    );
+  });
+
+  it('should wait for pending writes until the network is enabled', async () => {
+    await networkStateService.disableNetwork();
+    void fixture.repository.create(post);
+    // Let the write pass the middleware pipeline
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(fixture.db.hasPendingWrites()).toBe(true);
+
+    let synced = false;
+    const waiting = networkStateService.waitForPendingWrites().then(() => {
+      synced = true;
+    });
+    await Promise.resolve();
+
+    expect(synced).toBe(false);
+    expect(fixture.repository.getPendingWriteCount()).toBe(1);
+
+    await networkStateService.enableNetwork();
+    await waiting;
+
+    expect(synced).toBe(true);
+    expect(networkStateService.getState().lastSyncedAt).not.toBeNull();
+  });
+
+  it('should mark the instance offline when a listener gets cached snapshots with pending writes', async () => {
+    // Connection lost without disableNetwork
+    fixture.db.setNetworkEnabled(false);
+    const write = fixture.repository.set('p1', post);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(networkStateService.getState()).toMatchObject({ connectivity: 'unknown', pendingWrites: 1 });
+
+    let unsubscribe: () => void = () => undefined;
+    await new Promise<void>((resolve) => {
+      unsubscribe = fixture.repository.subscribe('p1', () => resolve());
+    });
+
+    expect(networkStateService.getState()).toMatchObject({
+      networkEnabled: true,
+      connectivity: 'offline',
+      pendingWrites: 1,
+    });
+
+    fixture.db.setNetworkEnabled(true);
+    await write;
+    unsubscribe();
+
+    expect(networkStateService.getState()).toMatchObject({ connectivity: 'online', synced: true });
+  });
+
+  it('should mark the instance offline when a write is not acknowledged in time', async () => {
+    networkStateService.setWriteAcknowledgmentTimeout(20);
+    fixture.db.setNetworkEnabled(false);
+    const write = fixture.repository.set('p1', post);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(networkStateService.getState().connectivity).toBe('unknown');
+
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    expect(networkStateService.getState()).toMatchObject({
+      networkEnabled: true,
+      connectivity: 'offline',
+      pendingWrites: 1,
+    });
+
+    fixture.db.setNetworkEnabled(true);
+    await write;
+
+    expect(networkStateService.getState()).toMatchObject({ connectivity: 'online', pendingWrites: 0 });
+  });
+});
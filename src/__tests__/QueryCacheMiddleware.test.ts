@@ -0,0 +1,196 @@
+/**
+ * Tests for QueryCacheMiddleware
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import type { DocumentData, QueryDocumentSnapshot } from 'firebase/firestore';
+import {
+  QueryCacheMiddleware,
+  queryCacheMiddleware,
+} from '../infrastructure/middleware/QueryCacheMiddleware';
+import { quotaMonitorService } from '../infrastructure/services/QuotaMonitorService';
+import { requestLoggerService } from '../infrastructure/services/RequestLoggerService';
+import { FirestoreRepository } from '../infrastructure/repositories/FirestoreRepository';
+import { createEqualFilter } from '../utils/query-builder';
+import { PostRepository, seedPosts, setupInMemoryRepository } from './helpers/in-memory-repositories';
+
+jest.mock('firebase/firestore', () => require('../testing').inMemoryFirestoreModule);
+
+const titleConverter = {
+  toFirestore: (title: string) => ({ title }),
+  fromFirestore: (snapshot: QueryDocumentSnapshot<DocumentData>) => snapshot.get('title') as string,
+};
+
+class PostTitleRepository extends FirestoreRepository<string> {
+  constructor() {
+    super('posts', titleConverter);
+  }
+}
+
+const postsKey = { collection: 'posts', filters: 'status == active', limit: 10 };
+
+describe('QueryCacheMiddleware', () => {
+  let cache: QueryCacheMiddleware;
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    quotaMonitorService.resetMetrics();
+    requestLoggerService.clearLogs();
+    cache = new QueryCacheMiddleware({ enabled: true, defaultTtlMs: 1000 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should not cache while disabled', async () => {
+    cache.setPolicy({ enabled: false });
+    const queryFn = jest.fn(async () => 'result');
+
+    await cache.execute(postsKey, queryFn);
+    await cache.execute(postsKey, queryFn);
+
+    expect(queryFn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should serve fresh results and log hits as cached without quota reads', async () => {
+    const queryFn = jest.fn(async () => 'result');
+
+    await cache.execute(postsKey, queryFn);
+    now += 999;
+    const result = await cache.execute(postsKey, queryFn);
+
+    expect(result).toBe('result');
+    expect(queryFn).toHaveBeenCalledTimes(1);
+    expect(quotaMonitorService.getMetrics().readCount).toBe(0);
+    expect(requestLoggerService.getLogs()[0]).toMatchObject({
+      type: 'read',
+      cached: true,
+      queryFingerprint: 'posts where status == active limit 10',
+    });
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  it('should use per-collection TTLs', async () => {
+    cache.setPolicy({ collectionTtlMs: { posts: 5000, logs: 0 } });
+    const queryFn = jest.fn(async () => 'result');
+    const logsKey = { collection: 'logs', filters: '' };
+
+    await cache.execute(postsKey, queryFn);
+    now += 4000;
+    await cache.execute(postsKey, queryFn);
+    await cache.execute(logsKey, queryFn);
+    await cache.execute(logsKey, queryFn);
+
+    expect(queryFn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should serve stale results while revalidating in the background', async () => {
+    cache.setPolicy({ staleWhileRevalidateMs: 1000 });
+    const queryFn = jest
+      .fn<() => Promise<string>>()
+      .mockResolvedValueOnce('old')
+      .mockResolvedValueOnce('new');
+
+    await cache.execute(postsKey, queryFn);
+    now += 1500;
+
+    expect(await cache.execute(postsKey, queryFn)).toBe('old');
+    await Promise.resolve();
+    expect(await cache.execute(postsKey, queryFn)).toBe('new');
+    expect(queryFn).toHaveBeenCalledTimes(2);
+    expect(cache.getStats().staleHits).toBe(1);
+  });
+
+  it('should invalidate a collection and ignore results of in-flight queries', async () => {
+    await cache.execute(postsKey, async () => 'cached');
+    let resolveQuery: (value: string) => void = () => {};
+    const pending = cache.execute(
+      { ...postsKey, limit: 20 },
+      () => new Promise<string>((resolve) => (resolveQuery = resolve)),
+    );
+
+    cache.invalidateCollection('posts');
+    resolveQuery('outdated');
+    await pending;
+
+    expect(cache.getStats().size).toBe(0);
+  });
+
+  it('should evict least recently used results beyond maxEntries', async () => {
+    cache.setPolicy({ maxEntries: 2 });
+    const keyA = { collection: 'a', filters: '' };
+    const keyB = { collection: 'b', filters: '' };
+    const keyC = { collection: 'c', filters: '' };
+    const queryFn = jest.fn(async () => 'result');
+
+    await cache.execute(keyA, queryFn);
+    await cache.execute(keyB, queryFn);
+    await cache.execute(keyA, queryFn);
+    await cache.execute(keyC, queryFn);
+    await cache.execute(keyA, queryFn);
+    await cache.execute(keyB, queryFn);
+
+    // B was least recently used when C was added
+    expect(queryFn).toHaveBeenCalledTimes(4);
+    expect(cache.getStats().evictions).toBe(2);
+  });
+});
+
+describe('query cache with repositories', () => {
+  const fixture = setupInMemoryRepository(() => new PostRepository());
+
+  it('should serve repeated queries from the cache until a write', async () => {
+    seedPosts(fixture.db, 10);
+    queryCacheMiddleware.setPolicy({ enabled: true });
+    try {
+      const options = { baseFilters: [createEqualFilter('score', 3)] };
+      await fixture.repository.getMany(options);
+      await fixture.repository.getMany(options);
+      expect(quotaMonitorService.getMetrics().readCount).toBe(1);
+
+      await fixture.repository.update('p3', { title: 'Changed' });
+      const posts = await fixture.repository.getMany(options);
+      expect(posts[0].title).toBe('Changed');
+      expect(quotaMonitorService.getMetrics().readCount).toBe(2);
+    } finally {
+      queryCacheMiddleware.setPolicy({ enabled: false });
+    }
+  });
+
+  it('should serve repeated pages from the cache', async () => {
+    seedPosts(fixture.db, 10);
+    queryCacheMiddleware.setPolicy({ enabled: true });
+    try {
+      const first = await fixture.repository.getPage({ limit: 3 });
+      await fixture.repository.getPage({ limit: 3 });
+      await fixture.repository.getPage({ cursor: first.nextCursor!, limit: 3 });
+      await fixture.repository.getPage({ cursor: first.nextCursor!, limit: 3 });
+
+      expect(quotaMonitorService.getMetrics().readCount).toBe(8);
+    } finally {
+      queryCacheMiddleware.setPolicy({ enabled: false });
+    }
+  });
+
+  it('should not share cached results between converters of one collection', async () => {
+    seedPosts(fixture.db, 10);
+    const titles = new PostTitleRepository();
+    queryCacheMiddleware.setPolicy({ enabled: true });
+    try {
+      const options = { baseFilters: [createEqualFilter('score', 3)] };
+
+      expect(await fixture.repository.getMany(options)).toEqual([
+        expect.objectContaining({ title: 'Post 3', score: 3 }),
+      ]);
+      expect(await titles.getMany(options)).toEqual(['Post 3']);
+      expect(await titles.getMany(options)).toEqual(['Post 3']);
+      expect(quotaMonitorService.getMetrics().readCount).toBe(2);
+    } finally {
+      queryCacheMiddleware.setPolicy({ enabled: false });
+      titles.destroy();
+    }
+  });
+});
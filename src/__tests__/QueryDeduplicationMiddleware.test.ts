@@ -4,6 +4,8 @@
 
 import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
 import { QueryDeduplicationMiddleware } from '../infrastructure/middleware/QueryDeduplicationMiddleware';
+import { quotaMonitorService } from '../infrastructure/services/QuotaMonitorService';
+import { requestLoggerService } from '../infrastructure/services/RequestLoggerService';
 
 describe('QueryDeduplicationMiddleware', () => {
   let middleware: QueryDeduplicationMiddleware;
@@ -92,6 +94,65 @@ describe('QueryDeduplicationMiddleware', () => {
     });
   });
 
+  describe('options', () => {
+    it('should use a custom deduplication window', async () => {
+      middleware.destroy();
+      middleware = new QueryDeduplicationMiddleware({ windowMs: 5000 });
+      const queryFn = jest.fn(() => new Promise((resolve) => setTimeout(resolve, 10000)));
+      const queryKey = { collection: 'test', filters: 'field == value' };
+
+      middleware.deduplicate(queryKey, queryFn);
+      jest.advanceTimersByTime(3000);
+      middleware.deduplicate(queryKey, queryFn);
+      jest.advanceTimersByTime(3000);
+      middleware.deduplicate(queryKey, queryFn);
+
+      expect(queryFn).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('stats', () => {
+    beforeEach(() => {
+      quotaMonitorService.resetMetrics();
+      requestLoggerService.clearLogs();
+    });
+
+    it('should count hits, misses and in-flight queries', async () => {
+      let resolveQuery: (value: string) => void = () => {};
+      const queryFn = jest.fn(() => new Promise<string>((resolve) => (resolveQuery = resolve)));
+      const queryKey = { collection: 'test', filters: 'field == value' };
+
+      const first = middleware.deduplicate(queryKey, queryFn);
+      middleware.deduplicate(queryKey, queryFn);
+      expect(middleware.getStats()).toEqual({ hits: 1, misses: 1, inFlight: 1 });
+
+      resolveQuery('result');
+      await first;
+      expect(middleware.getStats().inFlight).toBe(0);
+
+      middleware.resetStats();
+      expect(middleware.getStats()).toEqual({ hits: 0, misses: 0, inFlight: 0 });
+    });
+
+    it('should log deduplicated reads without using quota', async () => {
+      const queryKey = { collection: 'test', filters: 'field == value' };
+      const queryFn = jest.fn(() => Promise.resolve('result'));
+
+      await Promise.all([
+        middleware.deduplicate(queryKey, queryFn),
+        middleware.deduplicate(queryKey, queryFn),
+      ]);
+
+      expect(requestLoggerService.getLogs()[0]).toMatchObject({
+        type: 'read',
+        deduplicated: true,
+        queryFingerprint: 'test where field == value',
+      });
+      expect(requestLoggerService.getStats().deduplicatedRequests).toBe(1);
+      expect(quotaMonitorService.getMetrics().readCount).toBe(0);
+    });
+  });
+
   describe('cleanup', () => {
     it('should clean up expired queries automatically', async () => {
       const queryFn = jest.fn().mockResolvedValue('result');
@@ -111,6 +172,22 @@ describe('QueryDeduplicationMiddleware', () => {
     });
   });
 
+  describe('cleanup timer', () => {
+    it('should only run while queries are pending', async () => {
+      expect(middleware.isCleanupTimerActive()).toBe(false);
+
+      const promise = middleware.deduplicate(
+        { collection: 'test', filters: 'field == value' },
+        () => Promise.resolve('result'),
+      );
+      expect(middleware.isCleanupTimerActive()).toBe(true);
+
+      await promise;
+      await Promise.resolve();
+      expect(middleware.isCleanupTimerActive()).toBe(false);
+    });
+  });
+
   describe('clear', () => {
     it('should clear all pending queries', async () => {
       const queryFn = jest.fn(() => new Promise(() => {})); // Never resolves
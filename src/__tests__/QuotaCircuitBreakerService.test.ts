@@ -0,0 +1,85 @@
+/**
+ * Tests for QuotaCircuitBreakerService
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { QuotaCircuitBreakerService } from '../infrastructure/services/QuotaCircuitBreakerService';
+import { QuotaCalculator } from '../domain/services/QuotaCalculator';
+import { FirebaseFirestoreQuotaBlockedError } from '../domain/errors/FirebaseFirestoreError';
+import type { QuotaStatus } from '../domain/entities/QuotaMetrics';
+
+function createStatus(readCount: number, writeCount: number = 0): QuotaStatus {
+  return QuotaCalculator.calculateStatus({
+    readCount,
+    writeCount,
+    deleteCount: 0,
+    timestamp: Date.now(),
+  });
+}
+
+describe('QuotaCircuitBreakerService', () => {
+  let status: QuotaStatus;
+  let breaker: QuotaCircuitBreakerService;
+
+  beforeEach(() => {
+    status = createStatus(0);
+    breaker = new QuotaCircuitBreakerService(() => status);
+  });
+
+  it('should allow everything below the warning threshold', () => {
+    status = createStatus(39_000);
+    expect(breaker.getLevel('read')).toBe('ok');
+    expect(breaker.isAllowed('read', 'background')).toBe(true);
+  });
+
+  it('should block background operations at warning level', () => {
+    status = createStatus(40_000);
+    expect(breaker.getLevel('read')).toBe('warning');
+    expect(breaker.isAllowed('read', 'background')).toBe(false);
+    expect(breaker.isAllowed('read', 'normal')).toBe(true);
+  });
+
+  it('should only allow essential operations at critical level', () => {
+    status = createStatus(48_000);
+    expect(breaker.getLevel('read')).toBe('critical');
+    expect(breaker.isAllowed('read', 'normal')).toBe(false);
+    expect(breaker.isAllowed('read', 'essential')).toBe(true);
+  });
+
+  it('should check each operation type against its own usage', () => {
+    status = createStatus(0, 19_800);
+    expect(breaker.getLevel('write')).toBe('emergency');
+    expect(breaker.isAllowed('write', 'normal')).toBe(false);
+    expect(breaker.isAllowed('read', 'background')).toBe(true);
+  });
+
+  it('should apply custom policy', () => {
+    status = createStatus(40_000);
+    breaker.setPolicy({ warning: 'background' });
+    expect(breaker.isAllowed('read', 'background')).toBe(true);
+  });
+
+  it('should allow everything when disabled', () => {
+    status = createStatus(50_000);
+    breaker.setEnabled(false);
+    expect(breaker.isAllowed('read', 'background')).toBe(true);
+  });
+
+  it('should throw a dedicated error when blocked', () => {
+    status = createStatus(49_500);
+
+    let thrown: unknown;
+    try {
+      breaker.assertAllowed('read', 'posts', 'normal');
+    } catch (error) {
+      thrown = error;
+    }
+
+    expect(thrown).toBeInstanceOf(FirebaseFirestoreQuotaBlockedError);
+    expect(thrown).toMatchObject({
+      level: 'emergency',
+      priority: 'normal',
+      operationType: 'read',
+    });
+  });
+});
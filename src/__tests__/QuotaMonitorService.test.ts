@@ -0,0 +1,136 @@
+/**
+ * Tests for QuotaMonitorService
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { QuotaMonitorService } from '../infrastructure/services/QuotaMonitorService';
+import { MemoryStorage } from '../infrastructure/storage/MemoryStorage';
+import { QuotaCalculator } from '../domain/services/QuotaCalculator';
+
+describe('QuotaCalculator periods', () => {
+  it('should reset at midnight PST in winter', () => {
+    // 2024-01-15 23:30 PST = 2024-01-16 07:30 UTC
+    const now = Date.UTC(2024, 0, 16, 7, 30);
+    expect(QuotaCalculator.getPeriodKey(now)).toBe('2024-01-15');
+    expect(QuotaCalculator.getNextResetTime(now)).toBe(Date.UTC(2024, 0, 16, 8));
+    expect(QuotaCalculator.getPeriodStart(now)).toBe(Date.UTC(2024, 0, 15, 8));
+  });
+
+  it('should reset at midnight PDT in summer', () => {
+    // 2024-07-01 00:30 PDT = 2024-07-01 07:30 UTC
+    const now = Date.UTC(2024, 6, 1, 7, 30);
+    expect(QuotaCalculator.getPeriodKey(now)).toBe('2024-07-01');
+    expect(QuotaCalculator.getPeriodStart(now)).toBe(Date.UTC(2024, 6, 1, 7));
+  });
+
+  it('should handle the daylight saving switch days', () => {
+    // DST starts 2024-03-10, midnight is still PST
+    expect(QuotaCalculator.getNextResetTime(Date.UTC(2024, 2, 10, 6))).toBe(
+      Date.UTC(2024, 2, 10, 8),
+    );
+    // DST ends 2024-11-03, midnight is still PDT
+    expect(QuotaCalculator.getNextResetTime(Date.UTC(2024, 10, 3, 5))).toBe(
+      Date.UTC(2024, 10, 3, 7),
+    );
+  });
+});
+
+describe('QuotaMonitorService', () => {
+  let service: QuotaMonitorService;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(Date.UTC(2024, 0, 15, 20));
+    service = new QuotaMonitorService();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('daily rollover', () => {
+    it('should reset counts at the quota reset time and keep history', () => {
+      service.incrementRead(10);
+      service.incrementWrite(2);
+
+      jest.setSystemTime(Date.UTC(2024, 0, 16, 8, 1));
+
+      expect(service.getMetrics().readCount).toBe(0);
+      const history = service.getHistory();
+      expect(history).toHaveLength(1);
+      expect(history[0]).toMatchObject({ readCount: 10, writeCount: 2 });
+    });
+
+    it('should keep only the configured number of history days', async () => {
+      await service.setStorage(new MemoryStorage(), { historyDays: 2 });
+
+      for (let day = 0; day < 4; day++) {
+        service.incrementRead(day + 1);
+        jest.setSystemTime(Date.UTC(2024, 0, 16 + day, 12));
+      }
+
+      const history = service.getHistory();
+      expect(history.map((entry) => entry.readCount)).toEqual([4, 3]);
+    });
+
+    it('should notify listeners when the day rolls over', () => {
+      service.incrementRead(5);
+      const listener = jest.fn();
+      service.addListener(listener);
+
+      jest.setSystemTime(Date.UTC(2024, 0, 17, 12));
+      service.getStatus();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should restore metrics of the same day and merge early counts', async () => {
+      const storage = new MemoryStorage();
+      await service.setStorage(storage);
+      service.incrementRead(7);
+      await service.flush();
+
+      const restarted = new QuotaMonitorService();
+      restarted.incrementRead(1);
+      await restarted.setStorage(storage);
+
+      expect(restarted.getMetrics().readCount).toBe(8);
+    });
+
+    it('should not count metrics twice when the storage is set again', async () => {
+      const storage = new MemoryStorage();
+      await service.setStorage(storage);
+      service.incrementRead(7);
+      await service.setStorage(storage);
+      await service.setStorage(storage, { historyDays: 3 });
+
+      expect(service.getMetrics().readCount).toBe(7);
+    });
+
+    it('should move persisted metrics of a previous day into history', async () => {
+      const storage = new MemoryStorage();
+      await service.setStorage(storage);
+      service.incrementDelete(3);
+      await service.flush();
+
+      jest.setSystemTime(Date.UTC(2024, 0, 17, 12));
+      const restarted = new QuotaMonitorService();
+      await restarted.setStorage(storage);
+
+      expect(restarted.getMetrics().deleteCount).toBe(0);
+      expect(restarted.getHistory()[0].deleteCount).toBe(3);
+    });
+
+    it('should ignore corrupted storage', async () => {
+      const storage = new MemoryStorage();
+      await storage.setItem('quota', '{not json');
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await service.setStorage(storage, { storageKey: 'quota' });
+
+      expect(service.getMetrics().readCount).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Tests for collection path templates
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Timestamp } from 'firebase/firestore';
+import {
+  createCollectionPath,
+  getCollectionTemplate,
+  resolvePath,
+  validateCollectionPath,
+  validateDocumentPath,
+} from '../utils/collection-path.util';
+import { FirebaseFirestorePathError } from '../domain/errors/FirebaseFirestoreError';
+import { FirestoreRepository } from '../infrastructure/repositories/FirestoreRepository';
+import { requestLoggerService } from '../infrastructure/services/RequestLoggerService';
+import type { PaginationParams } from '../types/pagination.types';
+import { converter, setupInMemoryRepository } from './helpers/in-memory-repositories';
+import type { Post } from './helpers/in-memory-repositories';
+
+jest.mock('firebase/firestore', () => require('../testing').inMemoryFirestoreModule);
+
+describe('collection path', () => {
+  it('should resolve template parameters', () => {
+    const comments = createCollectionPath('users/{uid}/posts/{postId}/comments');
+
+    expect(comments.collectionId).toBe('comments');
+    expect(comments.resolve({ uid: 'u1', postId: 'p1' })).toBe('users/u1/posts/p1/comments');
+    expect(comments.doc({ uid: 'u1', postId: 'p1' }, 'c1')).toBe('users/u1/posts/p1/comments/c1');
+  });
+
+  it('should reject missing or unsafe parameter values', () => {
+    const template = 'users/{uid}/posts';
+
+    expect(() => resolvePath(template, {} as { uid: string })).toThrow(FirebaseFirestorePathError);
+    expect(() => resolvePath(template, { uid: '' })).toThrow('{uid}');
+    expect(() => resolvePath(template, { uid: 'a/b' })).toThrow('{uid}');
+  });
+
+  it('should validate segment counts', () => {
+    expect(validateCollectionPath('users/u1/posts')).toBe('users/u1/posts');
+    expect(() => validateCollectionPath('users/u1')).toThrow('odd number of segments');
+    expect(() => validateDocumentPath('users')).toThrow('even number of segments');
+    expect(() => validateCollectionPath('users//posts')).toThrow('empty segment');
+    expect(() => createCollectionPath('users/{uid}')).toThrow(FirebaseFirestorePathError);
+  });
+
+  it('should map resolved paths back to registered templates', () => {
+    createCollectionPath('teams/{teamId}/members');
+    createCollectionPath('orgs/org-{orgId}/projects');
+
+    expect(getCollectionTemplate('teams/t1/members')).toBe('teams/{teamId}/members');
+    expect(getCollectionTemplate('orgs/org-9/projects')).toBe('orgs/org-{orgId}/projects');
+    expect(getCollectionTemplate('teams/t1/invites')).toBe('teams/t1/invites');
+    expect(getCollectionTemplate('members')).toBe('members');
+  });
+});
+
+class UserPostRepository extends FirestoreRepository<Post> {
+  constructor(uid: string) {
+    super('users/{uid}/posts', converter, { pathParams: { uid } });
+  }
+
+  async getPageAcrossUsers(params?: PaginationParams) {
+    const docs = await this.executePaginatedQuery({ collectionGroup: 'posts' }, params, 'score', 'asc');
+    return this.buildPaginatedResult(docs, params, (snapshot) => snapshot.data() as Post, undefined, 'score');
+  }
+}
+
+describe('subcollections', () => {
+  const fixture = setupInMemoryRepository(() => new UserPostRepository('alice'));
+
+  it('should scope repositories to a parent document and log the template', async () => {
+    requestLoggerService.clearLogs();
+
+    const id = await fixture.repository.create({ title: 'Hello', score: 1, createdAt: Timestamp.fromMillis(0) });
+
+    expect(fixture.db.getDocumentData(`users/alice/posts/${id}`)).toMatchObject({ title: 'Hello' });
+    expect(requestLoggerService.getLogs()[0]).toMatchObject({
+      collection: 'users/{uid}/posts',
+      path: 'users/alice/posts',
+    });
+  });
+
+  it('should page through collection groups', async () => {
+    fixture.db.seed({
+      'users/a/posts/p1': { title: 'a1', score: 1 },
+      'users/b/posts/p1': { title: 'b1', score: 1 },
+      'users/b/posts/p2': { title: 'b2', score: 2 },
+      'posts/p9': { title: 'root', score: 3 },
+    });
+
+    const first = await fixture.repository.getPageAcrossUsers({ limit: 2 });
+    const second = await fixture.repository.getPageAcrossUsers({ limit: 2, cursor: first.nextCursor! });
+
+    expect(first.items.map((post) => post.title)).toEqual(['a1', 'b1']);
+    expect(second.items.map((post) => post.title)).toEqual(['b2', 'root']);
+    expect(second.hasMore).toBe(false);
+  });
+
+  it('should reject paths with missing parameters', () => {
+    expect(() => new FirestoreRepository<Post>('users/{uid}/posts', converter)).toThrow('{uid}');
+  });
+});
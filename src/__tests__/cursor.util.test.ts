@@ -0,0 +1,47 @@
+/**
+ * Tests for cursor utilities
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Timestamp } from 'firebase/firestore';
+import {
+  encodeCursor,
+  decodeCursor,
+  isCursorToken,
+  createCursorFromSnapshot,
+} from '../utils/cursor.util';
+
+describe('cursor.util', () => {
+  it('should round-trip values and document ID', () => {
+    const createdAt = new Timestamp(1_700_000_000, 123_000_000);
+    const token = encodeCursor([createdAt, 'görüş ✓', 42, true, null], 'doc-1');
+
+    expect(isCursorToken(token)).toBe(true);
+
+    const decoded = decodeCursor(token);
+    expect(decoded?.documentId).toBe('doc-1');
+    expect((decoded?.values[0] as Timestamp).isEqual(createdAt)).toBe(true);
+    expect(decoded?.values.slice(1)).toEqual(['görüş ✓', 42, true, null]);
+  });
+
+  it('should produce URL-safe tokens', () => {
+    const token = encodeCursor(['???>>>'], 'a/b');
+    expect(token).toMatch(/^c1\.[A-Za-z0-9_-]+$/);
+  });
+
+  it('should treat plain document IDs as legacy cursors', () => {
+    expect(isCursorToken('abc123')).toBe(false);
+    expect(decodeCursor('abc123')).toBeNull();
+    expect(decodeCursor('c1.not-valid-json')).toBeNull();
+  });
+
+  it('should fall back to document ID for values that cannot be encoded', () => {
+    const snapshot = {
+      id: 'doc-2',
+      get: () => ({ latitude: 1, longitude: 2 }),
+    } as any;
+
+    expect(encodeCursor([{ latitude: 1 }], 'doc-2')).toBeNull();
+    expect(createCursorFromSnapshot(snapshot, ['location'])).toBe('doc-2');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Tests for document serialization
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { initializeApp } from 'firebase/app';
+import { getFirestore, doc, Bytes, GeoPoint, Timestamp } from 'firebase/firestore';
+import { serializeDocument, deserializeDocument } from '../utils/document-serializer.util';
+
+const db = getFirestore(initializeApp({ projectId: 'serializer-test' }, 'serializer-test'));
+
+const document = {
+  title: 'Trip',
+  createdAt: new Timestamp(1700000000, 123456789),
+  stops: [
+    { at: new GeoPoint(41.01, 28.97), visitedAt: [Timestamp.fromMillis(1000)] },
+    { at: new GeoPoint(48.85, 2.35), visitedAt: [] },
+  ],
+  owner: doc(db, 'users/u1'),
+  meta: { thumbnail: Bytes.fromUint8Array(new Uint8Array([1, 2, 255])), tags: null },
+};
+
+describe('document serializer', () => {
+  it('should produce JSON-safe tagged values for nested Firestore types', () => {
+    const serialized = serializeDocument(document);
+
+    expect(JSON.parse(JSON.stringify(serialized))).toEqual(serialized);
+    expect(serialized).toMatchObject({
+      createdAt: { __type: 'timestamp', seconds: 1700000000, nanoseconds: 123456789 },
+      stops: [
+        {
+          at: { __type: 'geopoint', latitude: 41.01, longitude: 28.97 },
+          visitedAt: [{ __type: 'timestamp', seconds: 1, nanoseconds: 0 }],
+        },
+        { visitedAt: [] },
+      ],
+      owner: { __type: 'reference', path: 'users/u1' },
+      meta: { thumbnail: { __type: 'bytes', base64: 'AQL/' }, tags: null },
+    });
+  });
+
+  it('should rebuild SDK types on deserialize', () => {
+    const restored = deserializeDocument(
+      JSON.parse(JSON.stringify(serializeDocument(document))),
+      { firestore: db },
+    );
+
+    expect(restored.createdAt).toBeInstanceOf(Timestamp);
+    expect(restored.createdAt.isEqual(document.createdAt)).toBe(true);
+    expect(restored.stops[0].at.isEqual(document.stops[0].at)).toBe(true);
+    expect(restored.stops[0].visitedAt[0].toMillis()).toBe(1000);
+    expect(restored.owner.firestore).toBe(db);
+    expect(restored.owner.path).toBe('users/u1');
+    expect(restored.meta.thumbnail.isEqual(document.meta.thumbnail)).toBe(true);
+  });
+
+  it('should use configured tags and timestamp formats', () => {
+    const options = { typeKey: '$t', tags: { geoPoint: 'geo' }, timestampFormat: 'iso' as const };
+    const serialized = serializeDocument(
+      { at: Timestamp.fromMillis(1500), place: new GeoPoint(1, 2), note: '2024' },
+      options,
+    );
+
+    expect(serialized).toEqual({
+      at: '1970-01-01T00:00:01.500Z',
+      place: { $t: 'geo', latitude: 1, longitude: 2 },
+      note: '2024',
+    });
+    expect(deserializeDocument(serialized, options)).toEqual({
+      at: Timestamp.fromMillis(1500),
+      place: new GeoPoint(1, 2),
+      note: '2024',
+    });
+  });
+
+  it('should require a Firestore instance for references', () => {
+    expect(() =>
+      deserializeDocument({ owner: { __type: 'reference', path: 'users/u1' } }),
+    ).toThrow('Firestore instance required');
+  });
+});
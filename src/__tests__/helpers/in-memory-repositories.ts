@@ -0,0 +1,87 @@
+/**
+ * Shared fixtures for repository tests against the in-memory Firestore
+ *
+ * Test files using them mock 'firebase/firestore' first:
+ * jest.mock('firebase/firestore', () => require('../testing').inMemoryFirestoreModule);
+ */
+
+import { beforeEach, afterEach } from '@jest/globals';
+import { Timestamp } from 'firebase/firestore';
+import type { DocumentData, QueryDocumentSnapshot } from 'firebase/firestore';
+import { createInMemoryFirestore } from '../../testing';
+import type { InMemoryFirestore } from '../../testing';
+import { setFirestoreInstance, resetFirestoreClient } from '../../infrastructure/config/FirestoreClient';
+import { FirestoreRepository } from '../../infrastructure/repositories/FirestoreRepository';
+import { quotaMonitorService } from '../../infrastructure/services/QuotaMonitorService';
+import type { PaginationParams } from '../../types/pagination.types';
+
+export interface Post {
+  title: string;
+  score: number;
+  createdAt: Timestamp;
+}
+
+export const converter = {
+  toFirestore: (post: Post) => ({ ...post }),
+  fromFirestore: (snapshot: QueryDocumentSnapshot<DocumentData>) => snapshot.data() as Post,
+};
+
+export class PostRepository extends FirestoreRepository<Post> {
+  constructor() {
+    super('posts', converter);
+  }
+
+  async transferScore(fromId: string, toId: string) {
+    return this.executeTransaction('posts', async (transaction) => {
+      const from = await transaction.get(this.getDocRef(fromId));
+      const to = await transaction.get(this.getDocRef(toId));
+      transaction.update(this.getDocRef(toId), { score: to.data()!.score + from.data()!.score });
+      transaction.delete(this.getDocRef(fromId));
+    });
+  }
+
+  override async getPage(params?: PaginationParams) {
+    return super.getPage(params, 'score');
+  }
+}
+
+export function seedPosts(db: InMemoryFirestore, count: number): void {
+  const documents: Record<string, DocumentData> = {};
+  for (let i = 1; i <= count; i++) {
+    documents[`posts/p${i}`] = {
+      title: `Post ${i}`,
+      score: i,
+      createdAt: Timestamp.fromMillis(i * 1000),
+    };
+  }
+  db.seed(documents);
+}
+
+export interface InMemoryRepositoryFixture<R> {
+  db: InMemoryFirestore;
+  repository: R;
+}
+
+/**
+ * Give every test a fresh in-memory Firestore, quota metrics and repository
+ * The returned fixture is filled in before each test and torn down after it
+ */
+export function setupInMemoryRepository<R extends { destroy(): void }>(
+  createRepository: () => R,
+): InMemoryRepositoryFixture<R> {
+  const fixture = {} as InMemoryRepositoryFixture<R>;
+
+  beforeEach(() => {
+    quotaMonitorService.resetMetrics();
+    fixture.db = createInMemoryFirestore();
+    setFirestoreInstance(fixture.db.asFirestore());
+    fixture.repository = createRepository();
+  });
+
+  afterEach(() => {
+    fixture.repository.destroy();
+    resetFirestoreClient();
+  });
+
+  return fixture;
+}
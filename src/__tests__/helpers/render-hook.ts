@@ -0,0 +1,59 @@
+/**
+ * Minimal renderHook for testing hooks with react-test-renderer
+ */
+
+import { createElement } from 'react';
+import { act, create } from 'react-test-renderer';
+import type { ReactTestRenderer } from 'react-test-renderer';
+
+(global as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+export interface RenderHookResult<P, R> {
+  result: { current: R };
+  rerender: (props: P) => void;
+  unmount: () => void;
+}
+
+export function renderHook<P, R>(hook: (props: P) => R, initialProps: P): RenderHookResult<P, R> {
+  const result = { current: undefined as R };
+  function Probe({ props }: { props: P }) {
+    result.current = hook(props);
+    return null;
+  }
+
+  let renderer: ReactTestRenderer;
+  act(() => {
+    renderer = create(createElement(Probe, { props: initialProps }));
+  });
+
+  return {
+    result,
+    rerender: (props) => act(() => renderer.update(createElement(Probe, { props }))),
+    unmount: () => act(() => renderer.unmount()),
+  };
+}
+
+/**
+ * Let pending promises settle and flush resulting state updates
+ */
+export async function flush(): Promise<void> {
+  await act(async () => {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  });
+}
+
+export interface Deferred<T> {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+  reject: (error: unknown) => void;
+}
+
+export function deferred<T>(): Deferred<T> {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
@@ -0,0 +1,69 @@
+/**
+ * Tests for PaginationHelper
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { PaginationHelper } from '../utils/pagination.helper';
+
+const getCursor = (item: number) => `cursor-${item}`;
+
+describe('PaginationHelper', () => {
+  const helper = new PaginationHelper<number>();
+
+  describe('buildResult forward', () => {
+    it('should detect more items on the first page', () => {
+      const result = helper.buildResult([1, 2, 3, 4], 3, getCursor);
+
+      expect(result.items).toEqual([1, 2, 3]);
+      expect(result.hasMore).toBe(true);
+      expect(result.nextCursor).toBe('cursor-3');
+      expect(result.hasPrevious).toBe(false);
+      expect(result.prevCursor).toBeNull();
+    });
+
+    it('should expose previous cursor after paging from a cursor', () => {
+      const result = helper.buildResult([4, 5], 3, getCursor, { cursor: 'cursor-3' });
+
+      expect(result.hasMore).toBe(false);
+      expect(result.nextCursor).toBeNull();
+      expect(result.hasPrevious).toBe(true);
+      expect(result.prevCursor).toBe('cursor-4');
+    });
+  });
+
+  describe('buildResult backward', () => {
+    it('should drop the extra item at the start and keep display order', () => {
+      const result = helper.buildResult([1, 2, 3, 4], 3, getCursor, {
+        cursor: 'cursor-5',
+        direction: 'backward',
+      });
+
+      expect(result.items).toEqual([2, 3, 4]);
+      expect(result.hasPrevious).toBe(true);
+      expect(result.prevCursor).toBe('cursor-2');
+      expect(result.hasMore).toBe(true);
+      expect(result.nextCursor).toBe('cursor-4');
+    });
+
+    it('should report no previous items when the start is reached', () => {
+      const result = helper.buildResult([1, 2], 3, getCursor, {
+        cursor: 'cursor-3',
+        direction: 'backward',
+      });
+
+      expect(result.items).toEqual([1, 2]);
+      expect(result.hasPrevious).toBe(false);
+      expect(result.prevCursor).toBeNull();
+    });
+
+    it('should load the last page without a cursor', () => {
+      const result = helper.buildResult([7, 8, 9, 10], 3, getCursor, {
+        direction: 'backward',
+      });
+
+      expect(result.items).toEqual([8, 9, 10]);
+      expect(result.hasMore).toBe(false);
+      expect(result.hasPrevious).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Tests for query builder filter trees
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { query, Timestamp } from 'firebase/firestore';
+import {
+  buildQuery,
+  createAndFilter,
+  createOrFilter,
+  createInFilter,
+  createNotInFilter,
+  createEqualFilter,
+  createNotEqualFilter,
+  createArrayContainsAnyFilter,
+  getDisjunctionCount,
+  validateQueryFilters,
+} from '../utils/query-builder';
+import { FirebaseFirestoreQueryError } from '../domain/errors/FirebaseFirestoreError';
+
+jest.mock('firebase/firestore', () => {
+  class MockTimestamp {
+    constructor(public seconds: number, public nanoseconds: number) {}
+    static fromDate(date: Date) {
+      return new MockTimestamp(Math.floor(date.getTime() / 1000), 0);
+    }
+    static fromMillis(ms: number) {
+      return new MockTimestamp(Math.floor(ms / 1000), 0);
+    }
+  }
+  return {
+    collection: jest.fn(() => ({ constraints: [] })),
+    query: jest.fn((q: any, ...constraints: any[]) => ({
+      constraints: [...q.constraints, ...constraints],
+    })),
+    where: jest.fn((field, op, value) => ({ type: 'where', field, op, value })),
+    and: jest.fn((...filters) => ({ type: 'and', filters })),
+    or: jest.fn((...filters) => ({ type: 'or', filters })),
+    orderBy: jest.fn(),
+    limit: jest.fn(),
+    startAfter: jest.fn(),
+    Timestamp: MockTimestamp,
+  };
+});
+
+const db = {} as any;
+
+describe('query-builder', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('buildQuery', () => {
+    it('should apply flat filters one by one', () => {
+      const q: any = buildQuery(db, {
+        collectionName: 'posts',
+        baseFilters: [createEqualFilter('status', 'active'), createNotEqualFilter('deletedAt', null)],
+      });
+
+      expect(q.constraints).toEqual([
+        { type: 'where', field: 'status', op: '==', value: 'active' },
+        { type: 'where', field: 'deletedAt', op: '!=', value: null },
+      ]);
+    });
+
+    it('should build nested AND/OR groups', () => {
+      const q: any = buildQuery(db, {
+        collectionName: 'posts',
+        baseFilters: [
+          createOrFilter(
+            createAndFilter(createEqualFilter('a', 1), createEqualFilter('b', 2)),
+            createEqualFilter('c', 3),
+          ),
+        ],
+      });
+
+      expect(q.constraints).toHaveLength(1);
+      expect(q.constraints[0]).toEqual({
+        type: 'and',
+        filters: [
+          {
+            type: 'or',
+            filters: [
+              {
+                type: 'and',
+                filters: [
+                  { type: 'where', field: 'a', op: '==', value: 1 },
+                  { type: 'where', field: 'b', op: '==', value: 2 },
+                ],
+              },
+              { type: 'where', field: 'c', op: '==', value: 3 },
+            ],
+          },
+        ],
+      });
+      expect(query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should convert Date values to Timestamp', () => {
+      const date = new Date('2024-01-01T00:00:00Z');
+      const q: any = buildQuery(db, {
+        collectionName: 'posts',
+        baseFilters: [createInFilter('publishedAt', [date, null])],
+      });
+
+      const [value, nullValue] = q.constraints[0].value;
+      expect(value).toBeInstanceOf(Timestamp);
+      expect(value.seconds).toBe(date.getTime() / 1000);
+      expect(nullValue).toBeNull();
+    });
+
+    it('should reject invalid filters before building the query', () => {
+      expect(() =>
+        buildQuery(db, {
+          collectionName: 'posts',
+          baseFilters: [createInFilter('id', Array.from({ length: 31 }, (_, i) => i))],
+        }),
+      ).toThrow(FirebaseFirestoreQueryError);
+      expect(query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getDisjunctionCount', () => {
+    it('should multiply AND groups and add OR groups', () => {
+      const filters = [
+        createInFilter('a', [1, 2, 3]),
+        createOrFilter(createEqualFilter('b', 1), createInFilter('c', [1, 2])),
+      ];
+      expect(getDisjunctionCount(filters)).toBe(9);
+    });
+  });
+
+  describe('validateQueryFilters', () => {
+    it('should reject more than 30 disjunctions', () => {
+      const filters = [
+        createInFilter('a', [1, 2, 3, 4, 5, 6]),
+        createArrayContainsAnyFilter('tags', ['x', 'y', 'z', 'w', 'v', 'u']),
+      ];
+      expect(() => validateQueryFilters(filters)).toThrow('36 disjunctions');
+    });
+
+    it('should reject not-in combined with OR groups', () => {
+      const filters = [
+        createNotInFilter('status', ['archived']),
+        createOrFilter(createEqualFilter('a', 1), createEqualFilter('b', 2)),
+      ];
+      expect(() => validateQueryFilters(filters)).toThrow(FirebaseFirestoreQueryError);
+    });
+
+    it('should reject multiple not-in or != filters', () => {
+      const filters = [createNotInFilter('status', ['archived']), createNotEqualFilter('type', 'x')];
+      expect(() => validateQueryFilters(filters)).toThrow("Only one 'not-in' or '!='");
+    });
+
+    it('should allow one array-contains per disjunction', () => {
+      const perBranch = [
+        createOrFilter(
+          { field: 'tags', operator: 'array-contains', value: 'a' },
+          { field: 'labels', operator: 'array-contains', value: 'b' },
+        ),
+      ];
+      const sameBranch = [
+        { field: 'tags', operator: 'array-contains' as const, value: 'a' },
+        createArrayContainsAnyFilter('labels', ['b']),
+      ];
+
+      expect(() => validateQueryFilters(perBranch)).not.toThrow();
+      expect(() => validateQueryFilters(sameBranch)).toThrow('per disjunction');
+    });
+
+    it('should reject empty value lists and groups', () => {
+      expect(() => validateQueryFilters([createInFilter('a', [])])).toThrow('non-empty array');
+      expect(() => validateQueryFilters([createOrFilter()])).toThrow("Empty 'or'");
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests for query fan-out planning and merging
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  planFanOutQueries,
+  mergeFanOutResults,
+  requiresFanOut,
+} from '../utils/query-fan-out.util';
+import {
+  createInFilter,
+  createEqualFilter,
+  createOrFilter,
+  createArrayContainsAnyFilter,
+  getDisjunctionCount,
+} from '../utils/query-builder';
+
+const range = (count: number) => Array.from({ length: count }, (_, i) => i);
+
+function createDoc(path: string, data: Record<string, unknown>): any {
+  return { ref: { path }, get: (field: string) => data[field] };
+}
+
+describe('query-fan-out.util', () => {
+  describe('planFanOutQueries', () => {
+    it('should keep queries within the limit unchanged', () => {
+      const options = { collectionName: 'users', baseFilters: [createInFilter('id', range(30))] };
+      expect(requiresFanOut(options)).toBe(false);
+      expect(planFanOutQueries(options)).toEqual([options]);
+    });
+
+    it('should split large in filters into chunks of 30', () => {
+      const plans = planFanOutQueries({
+        collectionName: 'users',
+        baseFilters: [createEqualFilter('active', true), createInFilter('id', range(75))],
+      });
+
+      expect(plans).toHaveLength(3);
+      expect(plans.map((plan) => (plan.baseFilters![1] as any).value.length)).toEqual([30, 30, 15]);
+      expect(plans.every((plan) => (plan.baseFilters![0] as any).field === 'active')).toBe(true);
+    });
+
+    it('should size chunks so combined filters stay within the limit', () => {
+      const plans = planFanOutQueries({
+        collectionName: 'posts',
+        baseFilters: [
+          createInFilter('authorId', range(40)),
+          createArrayContainsAnyFilter('tags', ['a', 'b', 'c']),
+        ],
+      });
+
+      expect(plans).toHaveLength(4);
+      for (const plan of plans) {
+        expect(getDisjunctionCount(plan.baseFilters!)).toBeLessThanOrEqual(30);
+      }
+    });
+
+    it('should split oversized OR groups into branches', () => {
+      const plans = planFanOutQueries({
+        collectionName: 'posts',
+        baseFilters: [
+          createOrFilter(createInFilter('a', range(20)), createInFilter('b', range(20))),
+        ],
+      });
+
+      expect(plans).toHaveLength(2);
+      expect((plans[0].baseFilters![0] as any).field).toBe('a');
+      expect((plans[1].baseFilters![0] as any).field).toBe('b');
+    });
+  });
+
+  describe('mergeFanOutResults', () => {
+    it('should de-duplicate by path and re-apply sort and limit', () => {
+      const merged = mergeFanOutResults(
+        [
+          [createDoc('posts/a', { score: 1 }), createDoc('posts/b', { score: 5 })],
+          [createDoc('posts/b', { score: 5 }), createDoc('posts/c', { score: 3 })],
+        ],
+        { collectionName: 'posts', sort: { field: 'score' }, limitValue: 2 },
+      );
+
+      expect(merged.map((doc) => doc.ref.path)).toEqual(['posts/b', 'posts/c']);
+    });
+
+    it('should order by document path without sort', () => {
+      const merged = mergeFanOutResults(
+        [[createDoc('posts/c', {})], [createDoc('posts/a', {})]],
+        { collectionName: 'posts' },
+      );
+
+      expect(merged.map((doc) => doc.ref.path)).toEqual(['posts/a', 'posts/c']);
+    });
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Tests for query fingerprints
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { initializeApp } from 'firebase/app';
+import {
+  getFirestore,
+  collection,
+  collectionGroup,
+  query,
+  where,
+  orderBy,
+  limit,
+  limitToLast,
+  endBefore,
+  startAfter,
+  documentId,
+  Timestamp,
+  count,
+  sum,
+} from 'firebase/firestore';
+import {
+  getQueryKey,
+  getQueryKeyFromQuery,
+  getPageQueryKey,
+  getResultKey,
+  getQueryFingerprint,
+  getAggregationKey,
+} from '../utils/query-fingerprint.util';
+import {
+  buildQuery,
+  createAndFilter,
+  createEqualFilter,
+  createInFilter,
+  createOrFilter,
+} from '../utils/query-builder';
+import type { QueryBuilderOptions } from '../utils/query-builder';
+
+const db = getFirestore(initializeApp({ projectId: 'fingerprint-test' }, 'fingerprint-test'));
+
+const fingerprint = (options: QueryBuilderOptions) => getQueryFingerprint(getQueryKey(options));
+
+describe('query fingerprint', () => {
+  describe('getQueryKey', () => {
+    it('should ignore filter and value order', () => {
+      const a = fingerprint({
+        collectionName: 'posts',
+        baseFilters: [createEqualFilter('status', 'active'), createInFilter('tag', ['b', 'a', 'a'])],
+      });
+      const b = fingerprint({
+        collectionName: 'posts',
+        baseFilters: [createInFilter('tag', ['a', 'b']), createEqualFilter('status', 'active')],
+      });
+
+      expect(a).toBe(b);
+      expect(a).toBe('posts where status == s:"active" && tag in [s:"a", s:"b"]');
+    });
+
+    it('should flatten nested groups and unwrap single filters', () => {
+      const nested = fingerprint({
+        collectionName: 'posts',
+        baseFilters: [
+          createAndFilter(createEqualFilter('a', 1), createAndFilter(createEqualFilter('b', 2))),
+          createOrFilter(createEqualFilter('c', 3)),
+        ],
+      });
+      const flat = fingerprint({
+        collectionName: 'posts',
+        baseFilters: [createEqualFilter('c', 3), createEqualFilter('b', 2), createInFilter('a', [1])],
+      });
+
+      expect(nested).toBe(flat);
+    });
+
+    it('should distinguish value types and keep Date and Timestamp equal', () => {
+      const byString = fingerprint({ collectionName: 'posts', baseFilters: [createEqualFilter('n', '1')] });
+      const byNumber = fingerprint({ collectionName: 'posts', baseFilters: [createEqualFilter('n', 1)] });
+      const byDate = fingerprint({
+        collectionName: 'posts',
+        baseFilters: [createEqualFilter('at', new Date(1500))],
+      });
+      const byTimestamp = fingerprint({
+        collectionName: 'posts',
+        baseFilters: [createEqualFilter('at', Timestamp.fromMillis(1500))],
+      });
+
+      expect(byString).not.toBe(byNumber);
+      expect(byDate).toBe(byTimestamp);
+    });
+
+    it('should include order, cursor and limit', () => {
+      const key = getQueryKey({
+        collectionName: 'posts',
+        sort: { field: 'createdAt' },
+        cursorValue: 1000,
+        limitValue: 10,
+      });
+
+      expect(getQueryFingerprint(key)).toBe(
+        'posts orderBy createdAt desc startAfter(t:1.000000000) limit 10',
+      );
+    });
+  });
+
+  describe('getAggregationKey', () => {
+    it('should list aggregations sorted by alias', () => {
+      const key = getQueryKey({ collectionName: 'orders' });
+      key.aggregation = getAggregationKey({ total: sum('amount'), orders: count() });
+
+      expect(getQueryFingerprint(key)).toBe('orders aggregate orders: count(), total: sum(amount)');
+    });
+  });
+
+  describe('getResultKey', () => {
+    it('should tell apart result kinds and converters of the same query', () => {
+      const key = getQueryKey({ collectionName: 'posts', limitValue: 10 });
+      const converterA = { toFirestore: (data: any) => data, fromFirestore: () => 'a' };
+      const converterB = { toFirestore: (data: any) => data, fromFirestore: () => 'b' };
+      const fanOutA = getResultKey(key, 'fan-out', converterA);
+
+      expect(getQueryFingerprint(getResultKey(key, 'page'))).toBe('posts limit 10 as page');
+      expect(getQueryFingerprint(fanOutA)).toMatch(/^posts limit 10 as fan-out with converter#\d+$/);
+      expect(getResultKey(key, 'fan-out', converterA)).toEqual(fanOutA);
+      expect(getResultKey(key, 'fan-out', converterB)).not.toEqual(fanOutA);
+      expect(getResultKey(key, 'custom', converterA)).not.toEqual(fanOutA);
+    });
+
+    it('should keep getMany and custom query results apart for the same filters', () => {
+      const options: QueryBuilderOptions = {
+        collectionName: 'posts',
+        baseFilters: [createEqualFilter('status', 'active')],
+      };
+      const customKey = getQueryKeyFromQuery(buildQuery(db, options), 'posts');
+
+      // Same query, so the bare keys match; the result kind tells the results apart
+      expect(customKey).toEqual(getQueryKey(options));
+      expect(getQueryFingerprint(getResultKey(customKey, 'custom'))).not.toBe(
+        getQueryFingerprint(getResultKey(getQueryKey(options), 'fan-out')),
+      );
+    });
+  });
+
+  describe('getQueryKeyFromQuery', () => {
+    it('should match the key of the options a query was built from', () => {
+      const options: QueryBuilderOptions = {
+        collectionName: 'posts',
+        baseFilters: [
+          createEqualFilter('status', 'active'),
+          createOrFilter(createInFilter('tag', ['b', 'a']), createEqualFilter('pinned', true)),
+        ],
+        dateRange: { field: 'createdAt', startDate: 1000, endDate: 5000 },
+        sort: { field: 'createdAt', order: 'asc' },
+        cursorValue: 2000,
+        limitValue: 20,
+        tombstoneField: 'deletedAt',
+      };
+
+      expect(getQueryKeyFromQuery(buildQuery(db, options), 'posts')).toEqual(getQueryKey(options));
+    });
+
+    it('should match the key of collection group options', () => {
+      const options: QueryBuilderOptions = {
+        collectionName: 'comments',
+        collectionGroup: true,
+        baseFilters: [createEqualFilter('author', 'u1')],
+      };
+
+      expect(getQueryKeyFromQuery(buildQuery(db, options), 'comments')).toEqual(getQueryKey(options));
+      expect(fingerprint(options)).toBe('collectionGroup(comments) where author == s:"u1"');
+    });
+
+    it('should tell apart queries that differ only in limit direction or source', () => {
+      const posts = collection(db, 'posts');
+      const forward = getQueryKeyFromQuery(query(posts, orderBy('score'), limit(5)), 'posts');
+      const backward = getQueryKeyFromQuery(
+        query(posts, orderBy('score'), endBefore(10), limitToLast(5)),
+        'posts',
+      );
+      const group = getQueryKeyFromQuery(
+        query(collectionGroup(db, 'posts'), where('score', '>', 1)),
+        'posts',
+      );
+
+      expect(getQueryFingerprint(backward)).toBe(
+        'posts orderBy score asc endBefore(n:10) limitToLast 5',
+      );
+      expect(getQueryFingerprint(forward)).not.toBe(getQueryFingerprint(backward));
+      expect(getQueryFingerprint(group)).toBe('collectionGroup(posts) where score > n:1');
+    });
+
+    it('should match the key of paginated query options', () => {
+      const createdAt = Timestamp.fromMillis(1500);
+      const posts = collection(db, 'posts');
+      const forward = query(
+        posts,
+        where('deletedAt', '==', null),
+        orderBy('createdAt', 'desc'),
+        orderBy(documentId(), 'desc'),
+        startAfter(createdAt, 'p1'),
+        limit(11),
+      );
+      const backward = query(
+        collectionGroup(db, 'comments'),
+        orderBy('score', 'asc'),
+        orderBy(documentId(), 'asc'),
+        endBefore(3, 'posts/p1/comments/c1'),
+        limitToLast(6),
+      );
+
+      expect(
+        getPageQueryKey({
+          collection: 'posts',
+          tombstoneField: 'deletedAt',
+          orderBy: ['createdAt'],
+          direction: 'desc',
+          cursor: { values: [createdAt], documentPath: 'posts/p1' },
+          limit: 11,
+        }),
+      ).toEqual(getQueryKeyFromQuery(forward, 'posts'));
+      expect(
+        getPageQueryKey({
+          collection: 'comments',
+          collectionGroup: true,
+          orderBy: ['score'],
+          direction: 'asc',
+          cursor: { values: [3], documentPath: 'posts/p1/comments/c1' },
+          backward: true,
+          limit: 6,
+        }),
+      ).toEqual(getQueryKeyFromQuery(backward, 'comments'));
+    });
+
+    it('should key queries without SDK internals by identity', () => {
+      const queryA = {} as any;
+      const queryB = {} as any;
+
+      expect(getQueryKeyFromQuery(queryA, 'posts')).toEqual(getQueryKeyFromQuery(queryA, 'posts'));
+      expect(getQueryKeyFromQuery(queryA, 'posts')).not.toEqual(
+        getQueryKeyFromQuery(queryB, 'posts'),
+      );
+    });
+  });
+});
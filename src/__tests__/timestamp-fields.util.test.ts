@@ -0,0 +1,60 @@
+/**
+ * Tests for server timestamp fields
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { Timestamp, serverTimestamp } from 'firebase/firestore';
+import type { DocumentData, QueryDocumentSnapshot } from 'firebase/firestore';
+import {
+  getTimestampFieldValues,
+  resolveTimestampOptions,
+  withTimestampFields,
+} from '../utils/timestamp-fields.util';
+import { getDocumentDates, timestampToISO } from '../utils/dateUtils';
+
+const converter = {
+  toFirestore: (data: DocumentData) => ({ ...data }),
+  fromFirestore: (snapshot: QueryDocumentSnapshot) => snapshot.data(),
+};
+
+describe('timestamp fields', () => {
+  it('should stamp configured fields with server timestamps', () => {
+    const options = resolveTimestampOptions({ updatedAt: 'modifiedAt' })!;
+    const wrapped = withTimestampFields(converter, options);
+
+    expect(wrapped.toFirestore({ title: 'a' })).toEqual({
+      title: 'a',
+      createdAt: serverTimestamp(),
+      modifiedAt: serverTimestamp(),
+    });
+    expect(wrapped.toFirestore({ title: 'a' }, { merge: true })).toEqual({
+      title: 'a',
+      modifiedAt: serverTimestamp(),
+    });
+    expect(getTimestampFieldValues({ createdAt: 'createdAt', updatedAt: false }, 'update')).toEqual({});
+    expect(resolveTimestampOptions(false)).toBeNull();
+  });
+
+  it('should read pending server timestamps with the configured behavior', () => {
+    const data = jest.fn(() => ({ createdAt: Timestamp.fromMillis(1000) }));
+    const snapshot = { id: 'p1', data } as unknown as QueryDocumentSnapshot;
+
+    withTimestampFields(converter, resolveTimestampOptions(true)!).fromFirestore(snapshot);
+    withTimestampFields(converter, resolveTimestampOptions({ serverTimestamps: 'previous' })!)
+      .fromFirestore(snapshot);
+
+    expect(data).toHaveBeenNthCalledWith(1, { serverTimestamps: 'estimate' });
+    expect(data).toHaveBeenNthCalledWith(2, { serverTimestamps: 'previous' });
+  });
+
+  it('should read document dates from any timestamp representation', () => {
+    expect(
+      getDocumentDates({ createdAt: { seconds: 1, nanoseconds: 500000000 }, updatedAt: serverTimestamp() }),
+    ).toEqual({ createdAt: new Date(1500), updatedAt: null });
+    expect(getDocumentDates({ modifiedAt: 2000 }, { updatedAt: 'modifiedAt' }).updatedAt).toEqual(
+      new Date(2000),
+    );
+    expect(timestampToISO(Timestamp.fromMillis(0))).toBe('1970-01-01T00:00:00.000Z');
+    expect(timestampToISO(0)).toBeNull();
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Tests for useFirestoreFetch through useDocument and useQuery
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { act } from 'react-test-renderer';
+import { useDocument } from '../presentation/hooks/useDocument';
+import { useQuery } from '../presentation/hooks/useQuery';
+import { FirebaseFirestoreQuotaError } from '../domain/errors/FirebaseFirestoreError';
+import { renderHook, flush, deferred } from './helpers/render-hook';
+import type { Deferred } from './helpers/render-hook';
+
+interface Post {
+  title: string;
+}
+
+describe('useFirestoreFetch', () => {
+  let requests: Map<string, Deferred<Post | null>>;
+  let repository: any;
+
+  beforeEach(() => {
+    requests = new Map();
+    repository = {
+      getById: jest.fn((id: string) => {
+        const request = deferred<Post | null>();
+        requests.set(id, request);
+        return request.promise;
+      }),
+    };
+  });
+
+  describe('useDocument', () => {
+    it('should report loading, then data', async () => {
+      const { result } = renderHook((id: string) => useDocument<Post>(repository, id), 'p1');
+
+      expect(result.current).toMatchObject({ isLoading: true, data: null });
+
+      requests.get('p1')!.resolve({ title: 'First' });
+      await flush();
+
+      expect(result.current).toMatchObject({ isLoading: false, data: { title: 'First' }, error: null });
+    });
+
+    it('should expose quota errors separately', async () => {
+      const { result } = renderHook((id: string) => useDocument<Post>(repository, id), 'p1');
+
+      requests.get('p1')!.reject(new FirebaseFirestoreQuotaError('Quota exceeded'));
+      await flush();
+
+      expect(result.current.isLoading).toBe(false);
+      expect(result.current.error).toBeInstanceOf(FirebaseFirestoreQuotaError);
+      expect(result.current.quotaError).toBe(result.current.error);
+    });
+
+    it('should ignore results of a previous ID', async () => {
+      const { result, rerender } = renderHook(
+        (id: string) => useDocument<Post>(repository, id),
+        'p1',
+      );
+      rerender('p2');
+
+      requests.get('p2')!.resolve({ title: 'Second' });
+      await flush();
+      requests.get('p1')!.resolve({ title: 'First' });
+      await flush();
+
+      expect(result.current.data).toEqual({ title: 'Second' });
+    });
+
+    it('should reset data when the ID is cleared', async () => {
+      const { result, rerender } = renderHook(
+        (id: string | null) => useDocument<Post>(repository, id),
+        'p1' as string | null,
+      );
+      requests.get('p1')!.resolve({ title: 'First' });
+      await flush();
+
+      rerender(null);
+
+      expect(result.current).toMatchObject({ isLoading: false, data: null, error: null });
+      expect(repository.getById).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not update state after unmount', async () => {
+      const { result, unmount } = renderHook((id: string) => useDocument<Post>(repository, id), 'p1');
+      const before = result.current;
+
+      unmount();
+      requests.get('p1')!.resolve({ title: 'First' });
+      await flush();
+
+      expect(result.current).toBe(before);
+    });
+  });
+
+  describe('useQuery', () => {
+    it('should keep data while refreshing', async () => {
+      let items = ['a'];
+      const { result } = renderHook(() => useQuery(async () => items, []), undefined);
+      await flush();
+
+      items = ['a', 'b'];
+      let refreshing!: Promise<void>;
+      act(() => {
+        refreshing = result.current.refresh();
+      });
+
+      expect(result.current).toMatchObject({ isRefreshing: true, isLoading: false, data: ['a'] });
+
+      await act(() => refreshing);
+
+      expect(result.current).toMatchObject({ isRefreshing: false, data: ['a', 'b'] });
+    });
+
+    it('should skip fetching and return no items while disabled', async () => {
+      const queryFn = jest.fn(async () => ['a']);
+      const { result } = renderHook(() => useQuery(queryFn, [], { enabled: false }), undefined);
+      await flush();
+
+      expect(queryFn).not.toHaveBeenCalled();
+      expect(result.current).toMatchObject({ isLoading: false, data: [] });
+    });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Tests for usePaginatedQuery
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { act } from 'react-test-renderer';
+import { usePaginatedQuery } from '../presentation/hooks/usePaginatedQuery';
+import type { PaginatedResult, PaginationParams } from '../types/pagination.types';
+import { renderHook, flush, deferred } from './helpers/render-hook';
+import type { Deferred } from './helpers/render-hook';
+
+function page(items: string[], nextCursor: string | null): PaginatedResult<string> {
+  return { items, nextCursor, hasMore: nextCursor !== null };
+}
+
+describe('usePaginatedQuery', () => {
+  let requests: Array<{ params: PaginationParams; response: Deferred<PaginatedResult<string>> }>;
+  let fetchPage: jest.Mock<(params: PaginationParams) => Promise<PaginatedResult<string>>>;
+
+  beforeEach(() => {
+    requests = [];
+    fetchPage = jest.fn((params: PaginationParams) => {
+      const response = deferred<PaginatedResult<string>>();
+      requests.push({ params, response });
+      return response.promise;
+    });
+  });
+
+  const render = (userId = 'u1') =>
+    renderHook((id: string) => usePaginatedQuery((params) => fetchPage(params), [id], { limit: 2 }), userId);
+
+  it('should load the first page and append the next with its cursor', async () => {
+    const { result } = render();
+    expect(result.current.isLoading).toBe(true);
+
+    requests[0].response.resolve(page(['a', 'b'], 'c1'));
+    await flush();
+    expect(result.current).toMatchObject({ items: ['a', 'b'], hasMore: true, isLoading: false });
+
+    let loading!: Promise<void>;
+    act(() => {
+      loading = result.current.loadMore();
+    });
+    expect(result.current.isLoadingMore).toBe(true);
+    requests[1].response.resolve(page(['c'], null));
+    await act(() => loading);
+
+    expect(requests[1].params).toEqual({ limit: 2, cursor: 'c1' });
+    expect(result.current).toMatchObject({ items: ['a', 'b', 'c'], hasMore: false, isLoadingMore: false });
+  });
+
+  it('should ignore loadMore while a page is loading or when there is no more', async () => {
+    const { result } = render();
+    requests[0].response.resolve(page(['a', 'b'], 'c1'));
+    await flush();
+
+    act(() => {
+      void result.current.loadMore();
+      void result.current.loadMore();
+    });
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+
+    requests[1].response.resolve(page(['c'], null));
+    await flush();
+    await act(() => result.current.loadMore());
+
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should drop a loadMore result that arrives after a refresh', async () => {
+    const { result } = render();
+    requests[0].response.resolve(page(['a', 'b'], 'c1'));
+    await flush();
+
+    act(() => {
+      void result.current.loadMore();
+    });
+    act(() => {
+      void result.current.refresh();
+    });
+    requests[2].response.resolve(page(['x', 'y'], 'c2'));
+    await flush();
+    requests[1].response.resolve(page(['c'], null));
+    await flush();
+
+    expect(result.current).toMatchObject({
+      items: ['x', 'y'],
+      hasMore: true,
+      isLoadingMore: false,
+      isRefreshing: false,
+    });
+  });
+
+  it('should reset the list when dependencies change', async () => {
+    const { result, rerender } = render();
+    requests[0].response.resolve(page(['a', 'b'], 'c1'));
+    await flush();
+
+    rerender('u2');
+    expect(result.current).toMatchObject({ items: [], isLoading: true });
+
+    requests[0].response.resolve(page(['late'], null));
+    requests[1].response.resolve(page(['z'], null));
+    await flush();
+
+    expect(fetchPage).toHaveBeenLastCalledWith({ limit: 2, cursor: undefined });
+    expect(result.current.items).toEqual(['z']);
+  });
+});
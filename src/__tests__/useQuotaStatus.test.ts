@@ -0,0 +1,30 @@
+/**
+ * Tests for useQuotaStatus
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { act } from 'react-test-renderer';
+import { useQuotaStatus } from '../presentation/hooks/useQuotaStatus';
+import { quotaMonitorService } from '../infrastructure/services/QuotaMonitorService';
+import { renderHook } from './helpers/render-hook';
+
+describe('useQuotaStatus', () => {
+  beforeEach(() => {
+    quotaMonitorService.resetMetrics();
+  });
+
+  it('should update on tracked operations until unmounted', () => {
+    const { result, unmount } = renderHook(() => useQuotaStatus(), undefined);
+    expect(result.current.metrics.readCount).toBe(0);
+
+    act(() => {
+      quotaMonitorService.incrementRead(5);
+    });
+    expect(result.current.metrics.readCount).toBe(5);
+
+    const lastStatus = result.current;
+    unmount();
+    quotaMonitorService.incrementRead(1);
+    expect(result.current).toBe(lastStatus);
+  });
+});
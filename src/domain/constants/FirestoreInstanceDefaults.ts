@@ -0,0 +1,19 @@
+/**
+ * Firestore Instance Default Constants
+ * Domain layer - Names of the default Firebase app and Firestore database
+ */
+
+/**
+ * Name of the default Firebase app
+ */
+export const DEFAULT_APP_NAME = '[DEFAULT]';
+
+/**
+ * ID of the default Firestore database of a project
+ */
+export const DEFAULT_DATABASE_ID = '(default)';
+
+/**
+ * Key of the Firestore instance of the default app and database
+ */
+export const DEFAULT_FIRESTORE_INSTANCE = `${DEFAULT_APP_NAME}/${DEFAULT_DATABASE_ID}`;
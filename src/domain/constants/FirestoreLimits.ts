@@ -0,0 +1,24 @@
+/**
+ * Firestore Limit Constants
+ * Domain layer - Hard limits enforced by Firestore
+ *
+ * https://firebase.google.com/docs/firestore/quotas#limits
+ */
+
+export const FIRESTORE_LIMITS = {
+  /**
+   * Maximum operations in a single batched write or transaction
+   */
+  MAX_BATCH_OPERATIONS: 500,
+
+  /**
+   * Maximum disjunctions of a query in disjunctive normal form
+   * Each value of an 'in' or 'array-contains-any' filter counts as one
+   */
+  MAX_DISJUNCTIONS: 30,
+
+  /**
+   * Maximum comparison values of a 'not-in' filter
+   */
+  MAX_NOT_IN_VALUES: 10,
+} as const;
@@ -0,0 +1,10 @@
+/**
+ * Network State Default Constants
+ * Domain layer - Defaults for inferring connectivity
+ */
+
+/**
+ * Time a repository write may wait for server acknowledgment before the
+ * instance is considered offline (10 seconds)
+ */
+export const DEFAULT_WRITE_ACKNOWLEDGMENT_TIMEOUT_MS = 10_000;
@@ -0,0 +1,17 @@
+/**
+ * Query Cache Default Constants
+ * Domain layer - Default policy for the query result cache
+ */
+
+import type { QueryCachePolicy } from '../entities/QueryCachePolicy';
+
+/**
+ * Default query cache policy
+ * Disabled until enabled; 30 second TTL, no stale results, 200 results
+ */
+export const DEFAULT_QUERY_CACHE_POLICY: QueryCachePolicy = {
+  enabled: false,
+  defaultTtlMs: 30_000,
+  staleWhileRevalidateMs: 0,
+  maxEntries: 200,
+};
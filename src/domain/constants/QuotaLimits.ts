@@ -36,6 +36,22 @@ export const FREE_TIER_LIMITS = {
   STORAGE_GB: 1,
 } as const;
 
+/**
+ * Aggregation query billing (count, sum, average)
+ * https://firebase.google.com/docs/firestore/pricing#aggregation_queries
+ */
+export const AGGREGATION_BILLING = {
+  /**
+   * Index entries matched per billed read
+   */
+  INDEX_ENTRIES_PER_READ: 1000,
+
+  /**
+   * Reads billed per aggregation query, even without matches
+   */
+  MIN_READS: 1,
+} as const;
+
 /**
  * Quota warning thresholds (percentage of limit)
  * Apps can use these to show warnings before hitting limits
@@ -60,6 +76,22 @@ export const QUOTA_THRESHOLDS = {
   EMERGENCY: 0.98,
 } as const;
 
+/**
+ * Daily quota reset schedule
+ * Firestore quotas reset at midnight Pacific time
+ */
+export const QUOTA_RESET = {
+  /**
+   * UTC offset in hours during standard time (PST)
+   */
+  STANDARD_OFFSET_HOURS: -8,
+
+  /**
+   * UTC offset in hours during daylight saving time (PDT)
+   */
+  DAYLIGHT_OFFSET_HOURS: -7,
+} as const;
+
 /**
  * Calculate quota usage percentage
  * @param current - Current usage count
@@ -0,0 +1,18 @@
+/**
+ * Retry Default Constants
+ * Domain layer - Default retry policy for transient Firestore errors
+ */
+
+import type { RetryPolicy } from '../entities/RetryPolicy';
+
+/**
+ * Default retry policy
+ * 3 attempts with 250ms, 500ms delays (±50% jitter), capped at 5 seconds
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 250,
+  maxDelayMs: 5_000,
+  backoffMultiplier: 2,
+  jitter: 0.5,
+};
@@ -0,0 +1,22 @@
+/**
+ * Timestamp Field Default Constants
+ * Domain layer - Default names of server-stamped document fields
+ */
+
+import type { SoftDeleteOptions, TimestampFields } from '../../types/repository.types';
+
+/**
+ * Default timestamp field names
+ * createdAt matches the default order-by field of paginated queries
+ */
+export const DEFAULT_TIMESTAMP_FIELDS: TimestampFields = {
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+};
+
+/**
+ * Default soft-delete options
+ */
+export const DEFAULT_SOFT_DELETE_OPTIONS: SoftDeleteOptions = {
+  field: 'deletedAt',
+};
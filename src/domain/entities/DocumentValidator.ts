@@ -0,0 +1,70 @@
+/**
+ * Document Validator Entity
+ * Domain entity for validating documents read from and written to Firestore
+ *
+ * Library-agnostic: wrap any schema library (zod, valibot, yup, ...)
+ * or hand-written checks in a DocumentValidator.
+ */
+
+import type { FirebaseFirestoreValidationError } from '../errors/FirebaseFirestoreError';
+
+export interface ValidationIssue {
+  /**
+   * Path of the invalid field, e.g. 'author.name' ('' for the whole document)
+   */
+  path: string;
+
+  message: string;
+
+  /**
+   * Issue code reported by the schema library, if any
+   */
+  code?: string;
+}
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: ValidationIssue[] };
+
+export interface DocumentValidator<T> {
+  /**
+   * Validate a complete document
+   * The returned data is used in place of the input (schemas may coerce or strip fields)
+   */
+  validate(data: unknown): ValidationResult<T>;
+
+  /**
+   * Validate fields of a partial update (optional)
+   * Partial updates are written unchecked if omitted
+   */
+  validatePartial?(data: unknown): ValidationResult<Partial<T>>;
+}
+
+/**
+ * What to do with invalid documents read from Firestore
+ * - skip: leave them out of results (getById returns null)
+ * - throw: reject the read with FirebaseFirestoreValidationError
+ * - report: return them unchanged and report the issues
+ */
+export type InvalidDocumentPolicy = 'skip' | 'throw' | 'report';
+
+export interface ValidationOptions<T> {
+  validator: DocumentValidator<T>;
+
+  /**
+   * Policy for invalid documents on read (default: 'throw')
+   */
+  onInvalidRead?: InvalidDocumentPolicy;
+
+  /**
+   * Validate documents before they are written (default: true)
+   * Invalid writes are always rejected
+   */
+  validateWrites?: boolean;
+
+  /**
+   * Called with every validation failure, whatever the policy
+   * (e.g. to send malformed legacy documents to error reporting)
+   */
+  onInvalid?(error: FirebaseFirestoreValidationError): void;
+}
@@ -0,0 +1,94 @@
+/**
+ * Firestore Settings Entity
+ * Domain entity for configuring Firestore initialization
+ */
+
+/**
+ * Local cache of a Firestore instance
+ * - memory: cleared when the app restarts
+ * - persistent: kept on disk, owned by a single tab (default)
+ * - persistent-multi-tab: kept on disk, shared between browser tabs (web)
+ */
+export type FirestoreCacheType = 'memory' | 'persistent' | 'persistent-multi-tab';
+
+export interface FirestoreEmulatorOptions {
+  host: string;
+  port: number;
+  /**
+   * Auth token to use for security rules (emulator only)
+   */
+  mockUserToken?: string;
+}
+
+export interface FirestoreSettings {
+  /**
+   * Local cache type (default: 'persistent')
+   */
+  cache?: FirestoreCacheType;
+
+  /**
+   * Cache size threshold in bytes for garbage collection
+   * At least 1 MB, or CACHE_SIZE_UNLIMITED (-1) to disable collection
+   */
+  cacheSizeBytes?: number;
+
+  /**
+   * Always use long-polling instead of WebChannel streaming
+   * Cannot be combined with experimentalAutoDetectLongPolling
+   */
+  experimentalForceLongPolling?: boolean;
+
+  /**
+   * Switch to long-polling when streaming is not supported (e.g. behind proxies)
+   */
+  experimentalAutoDetectLongPolling?: boolean;
+
+  /**
+   * Timeout of each long-polling request (5-30 seconds)
+   */
+  experimentalLongPollingOptions?: { timeoutSeconds?: number };
+
+  /**
+   * Skip undefined properties instead of rejecting writes containing them
+   */
+  ignoreUndefinedProperties?: boolean;
+
+  /**
+   * Connect to the Firestore emulator
+   */
+  emulator?: FirestoreEmulatorOptions;
+}
+
+/**
+ * How a Firestore instance was obtained
+ * - initialized: created with the requested settings
+ * - existing: already created elsewhere (e.g. by the Firebase SDK); requested settings were not applied, a requested emulator was connected
+ * - fallback: creating with the requested settings failed; created with default settings instead
+ * - failed: no Firestore instance (invalid settings, or the emulator could not be connected,
+ *   e.g. to an existing instance started without it)
+ */
+export type FirestoreInitializationStatus = 'initialized' | 'existing' | 'fallback' | 'failed';
+
+export interface FirestoreInitializationResult {
+  /**
+   * Firestore instance key (app name/database ID)
+   */
+  instance: string;
+  status: FirestoreInitializationStatus;
+  /**
+   * Local cache in use (null if unknown, e.g. for existing instances)
+   */
+  cache: FirestoreCacheType | null;
+  /**
+   * Emulator connected during initialization, if any
+   */
+  emulator: FirestoreEmulatorOptions | null;
+  /**
+   * Why initialization fell back or failed
+   */
+  error?: {
+    code?: string;
+    message: string;
+  };
+  timestamp: number;
+}
@@ -0,0 +1,13 @@
+/**
+ * Key-Value Storage Entity
+ * Domain port for persisting small pieces of state (AsyncStorage-compatible)
+ *
+ * Any object with the same getItem/setItem/removeItem signatures works,
+ * e.g. `@react-native-async-storage/async-storage` or MMKV wrappers.
+ */
+
+export interface KeyValueStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
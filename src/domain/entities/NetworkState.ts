@@ -0,0 +1,39 @@
+/**
+ * Network State Entity
+ * Domain entity for the connectivity and sync state of a Firestore instance
+ */
+
+/**
+ * Connectivity of a Firestore instance
+ * - online: the server responded since the network was last enabled
+ *   (acknowledged a write or sent a listener snapshot)
+ * - offline: the network is disabled, a write failed as unavailable, a
+ *   listener got a cached snapshot while writes were pending, or a write
+ *   was not acknowledged within the acknowledgment timeout
+ * - unknown: no server response yet
+ */
+export type FirestoreConnectivity = 'online' | 'offline' | 'unknown';
+
+export interface NetworkState {
+  /**
+   * Firestore instance key (app name/database ID)
+   */
+  instance: string;
+  /**
+   * False after disableNetwork, until enableNetwork
+   */
+  networkEnabled: boolean;
+  connectivity: FirestoreConnectivity;
+  /**
+   * Repository writes (and batch commits) not yet acknowledged by the server
+   */
+  pendingWrites: number;
+  /**
+   * Whether every repository write was acknowledged by the server
+   */
+  synced: boolean;
+  /**
+   * Time of the last server acknowledgment (null if none yet)
+   */
+  lastSyncedAt: number | null;
+}
@@ -0,0 +1,41 @@
+/**
+ * Query Cache Policy Entity
+ * Domain entity for caching repository query results
+ */
+
+export interface QueryCachePolicy {
+  /**
+   * Cache query results (opt-in)
+   */
+  enabled: boolean;
+
+  /**
+   * Time a result is served without querying Firestore (milliseconds)
+   */
+  defaultTtlMs: number;
+
+  /**
+   * Per collection TTL overrides, e.g. `{ settings: 600_000 }`
+   * Use 0 to never cache a collection
+   */
+  collectionTtlMs?: Record<string, number>;
+
+  /**
+   * Time after the TTL during which the stale result is still served
+   * while it is refreshed in the background (milliseconds, 0 = disabled)
+   */
+  staleWhileRevalidateMs: number;
+
+  /**
+   * Maximum cached results; least recently used results are evicted first
+   */
+  maxEntries: number;
+}
+
+export interface QueryCacheStats {
+  size: number;
+  hits: number;
+  staleHits: number;
+  misses: number;
+  evictions: number;
+}
@@ -0,0 +1,26 @@
+/**
+ * Quota Policy Entity
+ * Domain entity for priority-based blocking of operations near quota limits
+ */
+
+/**
+ * Operation priority
+ * - essential: Required for the app to work (auth, purchases, user data)
+ * - normal: Regular user-facing operations
+ * - background: Prefetching, analytics, sync jobs
+ */
+export type OperationPriority = 'essential' | 'normal' | 'background';
+
+/**
+ * Quota threshold level reached by current usage
+ */
+export type QuotaThresholdLevel = 'ok' | 'warning' | 'critical' | 'emergency';
+
+/**
+ * Minimum priority allowed at each threshold level
+ * Operations with a lower priority are blocked
+ */
+export type QuotaCircuitPolicy = Record<
+  Exclude<QuotaThresholdLevel, 'ok'>,
+  OperationPriority
+>;
@@ -5,16 +5,48 @@
 
 export type RequestType = 'read' | 'write' | 'delete' | 'listener';
 
+export type ListenerEvent = 'start' | 'stop' | 'error';
+
 export interface RequestLog {
   id: string;
   type: RequestType;
+  /**
+   * Collection path, or its registered template (e.g. 'users/{uid}/posts')
+   */
   collection: string;
+  /**
+   * Resolved collection path, if collection is a template
+   */
+  path?: string;
   documentId?: string;
+  /**
+   * Firestore instance key (app name/database ID), e.g. '[DEFAULT]/(default)'
+   */
+  instance?: string;
   timestamp: number;
   duration?: number;
   success: boolean;
   error?: string;
   cached: boolean;
+  /**
+   * Read served by an identical in-flight query (no quota used)
+   */
+  deduplicated?: boolean;
+  listenerEvent?: ListenerEvent;
+  /**
+   * Writes and deletes: 'local' when only applied to the local cache
+   * (made offline), 'server' once acknowledged by the server
+   */
+  acknowledged?: 'local' | 'server';
+  attempt?: number;
+  /**
+   * Failed attempt that was retried; the outcome of the operation is logged separately
+   */
+  retried?: boolean;
+  /**
+   * Canonical query fingerprint (queries only)
+   */
+  queryFingerprint?: string;
 }
 
 export interface RequestStats {
@@ -24,6 +56,18 @@ export interface RequestStats {
   deleteRequests: number;
   listenerRequests: number;
   cachedRequests: number;
+  /**
+   * Reads saved by query deduplication
+   */
+  deduplicatedRequests: number;
+  /**
+   * Writes logged as only acknowledged locally (not counted as requests)
+   */
+  localWriteRequests: number;
+  /**
+   * Failed attempts that were retried (not counted as requests)
+   */
+  retriedAttempts: number;
   failedRequests: number;
   averageDuration: number;
 }
@@ -0,0 +1,61 @@
+/**
+ * Retry Policy Entity
+ * Domain entity for retrying transient Firestore errors
+ */
+
+export interface RetryPolicy {
+  /**
+   * Total number of attempts including the first one
+   */
+  maxAttempts: number;
+
+  /**
+   * Delay before the first retry (milliseconds)
+   */
+  initialDelayMs: number;
+
+  /**
+   * Upper bound for any delay (milliseconds)
+   */
+  maxDelayMs: number;
+
+  /**
+   * Factor applied to the delay after each retry
+   */
+  backoffMultiplier: number;
+
+  /**
+   * Random jitter as a fraction of the delay (0 = none, 1 = full jitter)
+   */
+  jitter: number;
+
+  /**
+   * Per error code overrides, e.g. `{ 'deadline-exceeded': { maxAttempts: 5 } }`
+   * Use `false` to never retry a code
+   */
+  codeOverrides?: Record<string, Partial<Omit<RetryPolicy, 'codeOverrides'>> | false>;
+}
+
+export interface RetryAttempt {
+  /**
+   * Attempt number (1-based)
+   */
+  attempt: number;
+
+  /**
+   * Error message of the failed attempt
+   */
+  error: string;
+
+  /**
+   * Error code of the failed attempt, if any
+   */
+  code?: string;
+
+  /**
+   * Delay before the next attempt (0 if no retry followed)
+   */
+  delayMs: number;
+
+  timestamp: number;
+}
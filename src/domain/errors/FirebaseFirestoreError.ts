@@ -5,6 +5,11 @@
  */
 
 import { FirebaseError } from '@umituz/react-native-firebase';
+import type { OperationPriority, QuotaThresholdLevel } from '../entities/QuotaPolicy';
+import type { RequestType } from '../entities/RequestLog';
+import type { RetryAttempt } from '../entities/RetryPolicy';
+import type { ValidationIssue } from '../entities/DocumentValidator';
+import type { BatchWriteResult } from '../../types/batch.types';
 
 /**
  * Firestore Error
@@ -30,6 +35,34 @@ export class FirebaseFirestoreInitializationError extends FirebaseFirestoreError
   }
 }
 
+/**
+ * Firestore Query Error
+ * Thrown when a query is rejected locally because Firestore would not accept it
+ * (e.g. too many disjunctions or invalid filter combinations)
+ */
+export class FirebaseFirestoreQueryError extends FirebaseFirestoreError {
+  constructor(message: string, originalError?: unknown) {
+    super(message, originalError);
+    this.name = 'FirebaseFirestoreQueryError';
+    (this as any).code = 'invalid-argument';
+    Object.setPrototypeOf(this, FirebaseFirestoreQueryError.prototype);
+  }
+}
+
+/**
+ * Firestore Path Error
+ * Thrown when a collection or document path is invalid
+ * (e.g. missing template parameters or a wrong number of segments)
+ */
+export class FirebaseFirestorePathError extends FirebaseFirestoreError {
+  constructor(message: string, originalError?: unknown) {
+    super(message, originalError);
+    this.name = 'FirebaseFirestorePathError';
+    (this as any).code = 'invalid-argument';
+    Object.setPrototypeOf(this, FirebaseFirestorePathError.prototype);
+  }
+}
+
 /**
  * Firestore Quota Error
  * Thrown when Firebase quota limits are exceeded
@@ -50,3 +83,99 @@ export class FirebaseFirestoreQuotaError extends FirebaseFirestoreError {
   }
 }
 
+/**
+ * Firestore Quota Blocked Error
+ * Thrown when an operation is refused locally because quota usage
+ * crossed a threshold that blocks its priority
+ *
+ * The request never reaches Firestore, so no quota is spent
+ */
+export class FirebaseFirestoreQuotaBlockedError extends FirebaseFirestoreQuotaError {
+  readonly level: QuotaThresholdLevel;
+  readonly priority: OperationPriority;
+  readonly operationType: RequestType;
+
+  constructor(
+    message: string,
+    level: QuotaThresholdLevel,
+    priority: OperationPriority,
+    operationType: RequestType,
+  ) {
+    super(message);
+    this.name = 'FirebaseFirestoreQuotaBlockedError';
+    this.level = level;
+    this.priority = priority;
+    this.operationType = operationType;
+    (this as any).isQuotaBlocked = true;
+    Object.setPrototypeOf(this, FirebaseFirestoreQuotaBlockedError.prototype);
+  }
+}
+
+/**
+ * Firestore Retry Error
+ * Thrown when a retryable operation still fails after retrying
+ *
+ * Keeps the code of the last error and the history of all attempts
+ */
+export class FirebaseFirestoreRetryError extends FirebaseFirestoreError {
+  readonly attempts: RetryAttempt[];
+
+  constructor(message: string, attempts: RetryAttempt[], originalError?: unknown) {
+    super(message, originalError);
+    this.name = 'FirebaseFirestoreRetryError';
+    this.attempts = attempts;
+    const code = (originalError as { code?: unknown } | undefined)?.code;
+    if (typeof code === 'string') {
+      (this as any).code = code;
+    }
+    Object.setPrototypeOf(this, FirebaseFirestoreRetryError.prototype);
+  }
+}
+
+/**
+ * Firestore Batch Error
+ * Thrown when one or more chunks of a batch write failed
+ *
+ * The result tells which chunks were committed and which were not,
+ * so callers can retry only the missing operations
+ */
+export class FirebaseFirestoreBatchError extends FirebaseFirestoreError {
+  readonly result: BatchWriteResult;
+
+  constructor(message: string, result: BatchWriteResult, originalError?: unknown) {
+    super(message, originalError);
+    this.name = 'FirebaseFirestoreBatchError';
+    this.result = result;
+    Object.setPrototypeOf(this, FirebaseFirestoreBatchError.prototype);
+  }
+}
+
+/**
+ * Firestore Validation Error
+ * Thrown when a document fails schema validation on read or before write
+ *
+ * Carries field-level issues; invalid writes never reach Firestore
+ */
+export class FirebaseFirestoreValidationError extends FirebaseFirestoreError {
+  readonly issues: ValidationIssue[];
+  readonly collection: string;
+  readonly documentId?: string;
+  readonly operation: 'read' | 'write';
+
+  constructor(
+    message: string,
+    issues: ValidationIssue[],
+    collection: string,
+    operation: 'read' | 'write',
+    documentId?: string,
+  ) {
+    super(message);
+    this.name = 'FirebaseFirestoreValidationError';
+    this.issues = issues;
+    this.collection = collection;
+    this.operation = operation;
+    this.documentId = documentId;
+    (this as any).code = 'invalid-argument';
+    Object.setPrototypeOf(this, FirebaseFirestoreValidationError.prototype);
+  }
+}
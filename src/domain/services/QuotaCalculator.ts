@@ -4,7 +4,13 @@
  */
 
 import type { QuotaMetrics, QuotaLimits, QuotaStatus } from '../entities/QuotaMetrics';
-import { FREE_TIER_LIMITS } from '../constants/QuotaLimits';
+import type { OperationPriority, QuotaThresholdLevel } from '../entities/QuotaPolicy';
+import {
+  AGGREGATION_BILLING,
+  FREE_TIER_LIMITS,
+  QUOTA_RESET,
+  QUOTA_THRESHOLDS,
+} from '../constants/QuotaLimits';
 
 /**
  * Default quota limits (Firebase Spark Plan)
@@ -16,6 +22,37 @@ const DEFAULT_QUOTA_LIMITS: QuotaLimits = {
   dailyDeleteLimit: FREE_TIER_LIMITS.DAILY_DELETES,
 };
 
+const HOUR_MS = 60 * 60 * 1000;
+
+const PRIORITY_RANK: Record<OperationPriority, number> = {
+  background: 0,
+  normal: 1,
+  essential: 2,
+};
+
+/**
+ * Day of month of the nth Sunday (UTC calendar)
+ */
+function getNthSunday(year: number, month: number, n: number): number {
+  const firstDay = new Date(Date.UTC(year, month, 1)).getUTCDay();
+  const firstSunday = 1 + ((7 - firstDay) % 7);
+  return firstSunday + 7 * (n - 1);
+}
+
+/**
+ * Pacific UTC offset in hours at a given instant
+ * US daylight saving time: second Sunday of March 2:00 PST
+ * until first Sunday of November 2:00 PDT
+ */
+function getPacificOffsetHours(timestamp: number): number {
+  const year = new Date(timestamp).getUTCFullYear();
+  const dstStart = Date.UTC(year, 2, getNthSunday(year, 2, 2), 2 - QUOTA_RESET.STANDARD_OFFSET_HOURS);
+  const dstEnd = Date.UTC(year, 10, getNthSunday(year, 10, 1), 2 - QUOTA_RESET.DAYLIGHT_OFFSET_HOURS);
+  return timestamp >= dstStart && timestamp < dstEnd
+    ? QUOTA_RESET.DAYLIGHT_OFFSET_HOURS
+    : QUOTA_RESET.STANDARD_OFFSET_HOURS;
+}
+
 export class QuotaCalculator {
   /**
    * Calculate quota status from metrics and limits
@@ -66,5 +103,75 @@ export class QuotaCalculator {
     const status = this.calculateStatus(metrics, limits);
     return !status.isOverLimit;
   }
-}
 
+  /**
+   * Get reads billed for an aggregation query
+   * One read per batch of up to 1000 matched index entries, minimum one
+   */
+  static getAggregationReadCount(indexEntries: number): number {
+    return Math.max(
+      AGGREGATION_BILLING.MIN_READS,
+      Math.ceil(indexEntries / AGGREGATION_BILLING.INDEX_ENTRIES_PER_READ),
+    );
+  }
+
+  /**
+   * Get quota period key (Pacific calendar date, YYYY-MM-DD)
+   * Two timestamps share a quota period when their keys are equal
+   */
+  static getPeriodKey(timestamp: number): string {
+    const local = new Date(timestamp + getPacificOffsetHours(timestamp) * HOUR_MS);
+    const month = String(local.getUTCMonth() + 1).padStart(2, '0');
+    const day = String(local.getUTCDate()).padStart(2, '0');
+    return `${local.getUTCFullYear()}-${month}-${day}`;
+  }
+
+  /**
+   * Get start of the quota period containing timestamp (midnight Pacific)
+   */
+  static getPeriodStart(timestamp: number): number {
+    const local = new Date(timestamp + getPacificOffsetHours(timestamp) * HOUR_MS);
+    const localMidnight = Date.UTC(
+      local.getUTCFullYear(),
+      local.getUTCMonth(),
+      local.getUTCDate(),
+    );
+    // Midnight is always before the 2:00 DST switch, so checking 7h later
+    // (earliest possible UTC time of Pacific midnight) gives that day's offset
+    return localMidnight - getPacificOffsetHours(localMidnight + 7 * HOUR_MS) * HOUR_MS;
+  }
+
+  /**
+   * Get time of the next quota reset after timestamp (next midnight Pacific)
+   */
+  static getNextResetTime(timestamp: number): number {
+    const local = new Date(timestamp + getPacificOffsetHours(timestamp) * HOUR_MS);
+    const nextLocalMidnight = Date.UTC(
+      local.getUTCFullYear(),
+      local.getUTCMonth(),
+      local.getUTCDate() + 1,
+    );
+    return nextLocalMidnight - getPacificOffsetHours(nextLocalMidnight + 7 * HOUR_MS) * HOUR_MS;
+  }
+
+  /**
+   * Get threshold level for a usage percentage (0-100)
+   */
+  static getThresholdLevel(percentage: number): QuotaThresholdLevel {
+    const usage = percentage / 100;
+    if (usage >= QUOTA_THRESHOLDS.EMERGENCY) return 'emergency';
+    if (usage >= QUOTA_THRESHOLDS.CRITICAL) return 'critical';
+    if (usage >= QUOTA_THRESHOLDS.WARNING) return 'warning';
+    return 'ok';
+  }
+
+  /**
+   * Check if priority meets the minimum priority
+   */
+  static meetsPriority(
+    priority: OperationPriority,
+    minimumPriority: OperationPriority,
+  ): boolean {
+    return PRIORITY_RANK[priority] >= PRIORITY_RANK[minimumPriority];
+  }
+}
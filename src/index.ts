@@ -10,6 +10,7 @@
  * - domain: Errors
  * - infrastructure: Firestore client, BaseRepository, utilities
  * - utils: Date utilities, timestamp conversion
+ * - presentation: React hooks
  *
  * This package is designed to be used across hundreds of apps.
  * It provides a consistent interface for Firestore operations.
@@ -25,7 +26,13 @@
 export {
   FirebaseFirestoreError,
   FirebaseFirestoreInitializationError,
+  FirebaseFirestorePathError,
   FirebaseFirestoreQuotaError,
+  FirebaseFirestoreQuotaBlockedError,
+  FirebaseFirestoreRetryError,
+  FirebaseFirestoreBatchError,
+  FirebaseFirestoreQueryError,
+  FirebaseFirestoreValidationError,
 } from './domain/errors/FirebaseFirestoreError';
 
 // =============================================================================
@@ -37,22 +44,36 @@ export {
   getFirestore,
   isFirestoreInitialized,
   getFirestoreInitializationError,
+  getFirestoreInitializationResult,
   resetFirestoreClient,
+  setFirestoreInstance,
+  getFirestoreInstanceKeys,
   firestoreClient,
 } from './infrastructure/config/FirestoreClient';
 
-export type { Firestore } from './infrastructure/config/FirestoreClient';
+export type {
+  Firestore,
+  FirestoreInstanceOptions,
+  FirestoreInitializationOptions,
+} from './infrastructure/config/FirestoreClient';
+
+export {
+  getFirestoreInstanceKey,
+  isDefaultFirestoreInstance,
+} from './utils/firestore-instance.util';
 
 // =============================================================================
 // INFRASTRUCTURE LAYER - BaseRepository
 // =============================================================================
 
 export { BaseRepository } from './infrastructure/repositories/BaseRepository';
+export type { RetryContext } from './infrastructure/repositories/BaseRepository';
 export { BaseQueryRepository } from './infrastructure/repositories/BaseQueryRepository';
 export { BasePaginatedRepository } from './infrastructure/repositories/BasePaginatedRepository';
+export { FirestoreRepository } from './infrastructure/repositories/FirestoreRepository';
 
 // =============================================================================
-// UTILS - Date Utilities
+// UTILS - Date Utilities and Serialization
 // =============================================================================
 
 export {
@@ -60,7 +81,48 @@ export {
   timestampToISO,
   timestampToDate,
   getCurrentISOString,
+  getDocumentDates,
 } from './utils/dateUtils';
+export type { TimestampInput } from './utils/dateUtils';
+
+export {
+  resolveTimestampOptions,
+  getTimestampFieldValues,
+  withTimestampFields,
+} from './utils/timestamp-fields.util';
+export type { ResolvedTimestampOptions } from './utils/timestamp-fields.util';
+
+export {
+  resolveSoftDeleteOptions,
+  withTombstoneField,
+  isSoftDeleted,
+} from './utils/soft-delete.util';
+
+export {
+  createCollectionPath,
+  resolvePath,
+  validateCollectionPath,
+  validateDocumentPath,
+  isPathTemplate,
+  registerCollectionTemplate,
+  getCollectionTemplate,
+} from './utils/collection-path.util';
+export type { CollectionPath, PathParams } from './utils/collection-path.util';
+
+export {
+  serializeDocument,
+  deserializeDocument,
+  serializeValue,
+  deserializeValue,
+  DEFAULT_SERIALIZATION_OPTIONS,
+} from './utils/document-serializer.util';
+export type {
+  SerializedValue,
+  SerializedDocument,
+  SerializationTags,
+  SerializationOptions,
+  DeserializationOptions,
+} from './utils/document-serializer.util';
 
 // =============================================================================
 // UTILS - Query Builder
@@ -69,12 +131,46 @@ export {
 export {
   buildQuery,
   createInFilter,
+  createNotInFilter,
+  createArrayContainsAnyFilter,
   createEqualFilter,
+  createNotEqualFilter,
+  createAndFilter,
+  createOrFilter,
+  isCompositeFilter,
+  getDisjunctionCount,
+  validateQueryFilters,
+  getQueryFilters,
 } from './utils/query-builder';
 
+export {
+  planFanOutQueries,
+  mergeFanOutResults,
+  requiresFanOut,
+} from './utils/query-fan-out.util';
+
+export {
+  getQueryKey,
+  getQueryKeyFromQuery,
+  getPageQueryKey,
+  getResultKey,
+  getQueryFingerprint,
+  getAggregationKey,
+} from './utils/query-fingerprint.util';
+export type {
+  QueryKey,
+  QueryResultKind,
+  PageQueryKeyOptions,
+} from './utils/query-fingerprint.util';
+
 export type {
   QueryBuilderOptions,
   FieldFilter,
+  CompositeFilter,
+  QueryFilter,
+  FilterValue,
+  ArrayFilterOperator,
+  ValueFilterOperator,
 } from './utils/query-builder';
 
 // =============================================================================
@@ -86,13 +182,50 @@ export {
   createPaginationHelper,
 } from './utils/pagination.helper';
 
+export {
+  encodeCursor,
+  decodeCursor,
+  isCursorToken,
+  createCursorFromSnapshot,
+} from './utils/cursor.util';
+
+export type { CursorValue, DecodedCursor } from './utils/cursor.util';
+
 export type {
   PaginatedResult,
   PaginationParams,
+  PaginationDirection,
+  PaginationSource,
 } from './types/pagination.types';
 
 export { EMPTY_PAGINATED_RESULT } from './types/pagination.types';
 
+export type { RepositoryOperationOptions } from './types/operation.types';
+export type {
+  FirestoreRepositoryOptions,
+  TimestampFields,
+  TimestampOptions,
+  SoftDeleteOptions,
+} from './types/repository.types';
+
+export type {
+  BatchOperation,
+  BatchProgress,
+  BatchWriteOptions,
+  BatchChunkResult,
+  BatchWriteResult,
+} from './types/batch.types';
+
+// =============================================================================
+// UTILS - Schema Validation
+// =============================================================================
+
+export {
+  createSchemaValidator,
+  formatValidationIssues,
+} from './utils/schema-validator.util';
+export type { SafeParseSchema } from './utils/schema-validator.util';
+
 // =============================================================================
 // UTILS - Document Mapper
 // =============================================================================
@@ -112,6 +245,15 @@ export {
   getQuotaErrorMessage,
 } from './utils/quota-error-detector.util';
 
+// =============================================================================
+// UTILS - Retry
+// =============================================================================
+
+export {
+  resolveRetryPolicy,
+  getRetryDelay,
+} from './utils/retry.util';
+
 // =============================================================================
 // DOMAIN LAYER - Constants
 // =============================================================================
@@ -119,11 +261,27 @@ export {
 export {
   FREE_TIER_LIMITS,
   QUOTA_THRESHOLDS,
+  QUOTA_RESET,
+  AGGREGATION_BILLING,
   calculateQuotaUsage,
   isQuotaThresholdReached,
   getRemainingQuota,
 } from './domain/constants/QuotaLimits';
 
+export { DEFAULT_RETRY_POLICY } from './domain/constants/RetryDefaults';
+export { FIRESTORE_LIMITS } from './domain/constants/FirestoreLimits';
+export { DEFAULT_QUERY_CACHE_POLICY } from './domain/constants/QueryCacheDefaults';
+export { DEFAULT_WRITE_ACKNOWLEDGMENT_TIMEOUT_MS } from './domain/constants/NetworkStateDefaults';
+export {
+  DEFAULT_TIMESTAMP_FIELDS,
+  DEFAULT_SOFT_DELETE_OPTIONS,
+} from './domain/constants/TimestampDefaults';
+export {
+  DEFAULT_APP_NAME,
+  DEFAULT_DATABASE_ID,
+  DEFAULT_FIRESTORE_INSTANCE,
+} from './domain/constants/FirestoreInstanceDefaults';
+
 // =============================================================================
 // DOMAIN LAYER - Entities
 // =============================================================================
@@ -138,8 +296,45 @@ export type {
   RequestLog,
   RequestStats,
   RequestType,
+  ListenerEvent,
 } from './domain/entities/RequestLog';
 
+export type { KeyValueStorage } from './domain/entities/KeyValueStorage';
+
+export type {
+  OperationPriority,
+  QuotaThresholdLevel,
+  QuotaCircuitPolicy,
+} from './domain/entities/QuotaPolicy';
+
+export type { RetryPolicy, RetryAttempt } from './domain/entities/RetryPolicy';
+
+export type {
+  QueryCachePolicy,
+  QueryCacheStats,
+} from './domain/entities/QueryCachePolicy';
+
+export type {
+  DocumentValidator,
+  ValidationIssue,
+  ValidationResult,
+  InvalidDocumentPolicy,
+  ValidationOptions,
+} from './domain/entities/DocumentValidator';
+
+export type {
+  FirestoreCacheType,
+  FirestoreEmulatorOptions,
+  FirestoreSettings,
+  FirestoreInitializationStatus,
+  FirestoreInitializationResult,
+} from './domain/entities/FirestoreSettings';
+
+export type {
+  FirestoreConnectivity,
+  NetworkState,
+} from './domain/entities/NetworkState';
+
 // =============================================================================
 // DOMAIN LAYER - Services
 // =============================================================================
@@ -150,16 +345,41 @@ export { QuotaCalculator } from './domain/services/QuotaCalculator';
 // INFRASTRUCTURE LAYER - Middleware
 // =============================================================================
 
+export {
+  MiddlewarePipeline,
+  middlewarePipeline,
+} from './infrastructure/middleware/MiddlewarePipeline';
+export type {
+  OperationType,
+  OperationDescriptor,
+  OperationContext,
+  OperationMiddleware,
+} from './infrastructure/middleware/MiddlewarePipeline';
+
 export {
   QueryDeduplicationMiddleware,
   queryDeduplicationMiddleware,
 } from './infrastructure/middleware/QueryDeduplicationMiddleware';
+export type {
+  QueryDeduplicationOptions,
+  QueryDeduplicationStats,
+} from './infrastructure/middleware/QueryDeduplicationMiddleware';
 
 export {
   QuotaTrackingMiddleware,
   quotaTrackingMiddleware,
 } from './infrastructure/middleware/QuotaTrackingMiddleware';
 
+export {
+  QueryCacheMiddleware,
+  queryCacheMiddleware,
+} from './infrastructure/middleware/QueryCacheMiddleware';
+
+export {
+  NetworkStateMiddleware,
+  networkStateMiddleware,
+} from './infrastructure/middleware/NetworkStateMiddleware';
+
 // =============================================================================
 // INFRASTRUCTURE LAYER - Services
 // =============================================================================
@@ -167,13 +387,53 @@ export {
 export {
   QuotaMonitorService,
   quotaMonitorService,
+  getQuotaMonitor,
 } from './infrastructure/services/QuotaMonitorService';
 
+export type { QuotaPersistenceOptions } from './infrastructure/services/QuotaMonitorService';
+
+export {
+  QuotaCircuitBreakerService,
+  quotaCircuitBreaker,
+} from './infrastructure/services/QuotaCircuitBreakerService';
+
+export type { QuotaStatusProvider } from './infrastructure/services/QuotaCircuitBreakerService';
+
 export {
   RequestLoggerService,
   requestLoggerService,
 } from './infrastructure/services/RequestLoggerService';
 
+export {
+  NetworkStateService,
+  networkStateService,
+} from './infrastructure/services/NetworkStateService';
+
+// =============================================================================
+// INFRASTRUCTURE LAYER - Storage
+// =============================================================================
+
+export { MemoryStorage } from './infrastructure/storage/MemoryStorage';
+
+// =============================================================================
+// PRESENTATION LAYER - Hooks
+// =============================================================================
+
+export { useDocument } from './presentation/hooks/useDocument';
+export { useQuery } from './presentation/hooks/useQuery';
+export { usePaginatedQuery } from './presentation/hooks/usePaginatedQuery';
+export { useQuotaStatus } from './presentation/hooks/useQuotaStatus';
+export { useNetworkState } from './presentation/hooks/useNetworkState';
+
+export type {
+  FirestoreHookState,
+  FirestoreHookOptions,
+  UseDocumentResult,
+  UseQueryResult,
+  UsePaginatedQueryOptions,
+  UsePaginatedQueryResult,
+} from './types/hooks.types';
+
 // Re-export Firestore types for convenience
 export type { Timestamp } from 'firebase/firestore';
 
@@ -2,7 +2,7 @@
  * Firestore Client - Infrastructure Layer
  *
  * Domain-Driven Design: Infrastructure implementation of Firestore client
- * Singleton pattern for managing Firestore instance
+ * Singleton pattern for managing Firestore instances (per app and database)
  *
  * IMPORTANT: This package requires Firebase App to be initialized first.
  * Use @umituz/react-native-firebase to initialize Firebase App.
@@ -15,18 +15,38 @@
 
 import type { Firestore } from 'firebase/firestore';
 import type { FirebaseApp } from 'firebase/app';
+import { getApps } from 'firebase/app';
 import { getFirebaseApp } from '@umituz/react-native-firebase';
 import { FirebaseFirestoreInitializationError } from '../../domain/errors/FirebaseFirestoreError';
+import { DEFAULT_APP_NAME } from '../../domain/constants/FirestoreInstanceDefaults';
+import { getFirestoreInstanceKey } from '../../utils/firestore-instance.util';
+import type { FirestoreInstanceOptions } from '../../utils/firestore-instance.util';
+import type {
+  FirestoreInitializationResult,
+  FirestoreSettings,
+} from '../../domain/entities/FirestoreSettings';
+import { getErrorCode } from '../../utils/retry.util';
 import { FirebaseFirestoreInitializer } from './initializers/FirebaseFirestoreInitializer';
 
+/**
+ * Firestore instance and the settings to create it with
+ */
+export interface FirestoreInitializationOptions extends FirestoreInstanceOptions, FirestoreSettings {}
+
+interface FirestoreInstanceState {
+  firestore: Firestore | null;
+  initializationError: string | null;
+  result: FirestoreInitializationResult | null;
+}
+
 /**
  * Firestore Client Singleton
- * Manages Firestore initialization
+ * Manages Firestore instances keyed by app name and database ID
+ * Omitted options refer to the default app and database
  */
 class FirestoreClientSingleton {
   private static instance: FirestoreClientSingleton | null = null;
-  private firestore: Firestore | null = null;
-  private initializationError: string | null = null;
+  private instances = new Map<string, FirestoreInstanceState>();
 
   private constructor() {
     // Private constructor to enforce singleton pattern
@@ -45,31 +65,56 @@ class FirestoreClientSingleton {
   /**
    * Initialize Firestore
    * Requires Firebase App to be initialized first via @umituz/react-native-firebase
+   * (or, for other apps, firebase/app initializeApp with the app name)
+   * Settings only apply to the first initialization of an instance;
+   * see getInitializationResult for how the instance was obtained
    *
+   * @param options - Firestore instance (default app and database if omitted) and settings
    * @returns Firestore instance or null if initialization fails
    */
-  initialize(): Firestore | null {
-    if (this.firestore) {
-      return this.firestore;
+  initialize(options: FirestoreInitializationOptions = {}): Firestore | null {
+    const { appName, databaseId, ...settings } = options;
+    const state = this.getState(options);
+    if (state.firestore) {
+      return state.firestore;
     }
-    if (this.initializationError) {
+    if (state.initializationError) {
       return null;
     }
     try {
-      const app = getFirebaseApp(); // Get the core Firebase App
-      
+      const app = this.getApp(appName); // Get the core Firebase App
+
       // Return null if Firebase App is not available (offline mode)
       if (!app) {
         return null;
       }
-      
-      this.firestore = FirebaseFirestoreInitializer.initialize(app);
-      return this.firestore;
+
+      const { firestore, ...outcome } = FirebaseFirestoreInitializer.initialize(
+        app,
+        databaseId,
+        settings,
+      );
+      state.firestore = firestore;
+      state.initializationError = firestore ? null : outcome.error?.message ?? null;
+      state.result = {
+        instance: getFirestoreInstanceKey(options),
+        ...outcome,
+        timestamp: Date.now(),
+      };
+      return state.firestore;
     } catch (error) {
-      this.initializationError =
+      state.initializationError =
         error instanceof Error
           ? error.message
           : 'Failed to initialize Firestore client';
+      state.result = {
+        instance: getFirestoreInstanceKey(options),
+        status: 'failed',
+        cache: null,
+        emulator: null,
+        error: { code: getErrorCode(error), message: state.initializationError },
+        timestamp: Date.now(),
+      };
       return null;
     }
   }
@@ -78,16 +123,20 @@ class FirestoreClientSingleton {
    * Get Firestore instance
    * Auto-initializes if Firebase App is available
    * Returns null if config is not available (offline mode - no error)
+   *
+   * @param options - Firestore instance (default app and database if omitted)
    * @returns Firestore instance or null if not initialized
    */
-  getFirestore(): Firestore | null {
+  getFirestore(options: FirestoreInstanceOptions = {}): Firestore | null {
+    const state = this.getState(options);
+
     // Auto-initialize if not already initialized
-    if (!this.firestore && !this.initializationError) {
+    if (!state.firestore && !state.initializationError) {
       try {
         // Try to get Firebase App (will auto-initialize if config is available)
-        const app = getFirebaseApp();
+        const app = this.getApp(options.appName);
         if (app) {
-          this.initialize();
+          this.initialize({ appName: options.appName, databaseId: options.databaseId });
         }
       } catch {
         // Firebase App not available, return null (offline mode)
@@ -96,30 +145,82 @@ class FirestoreClientSingleton {
     }
 
     // Return null if not initialized (offline mode - no error)
-    return this.firestore || null;
+    return state.firestore || null;
   }
 
   /**
    * Check if Firestore is initialized
    */
-  isInitialized(): boolean {
-    return this.firestore !== null;
+  isInitialized(options: FirestoreInstanceOptions = {}): boolean {
+    return this.instances.get(getFirestoreInstanceKey(options))?.firestore != null;
   }
 
   /**
    * Get initialization error if any
    */
-  getInitializationError(): string | null {
-    return this.initializationError;
+  getInitializationError(options: FirestoreInstanceOptions = {}): string | null {
+    return this.instances.get(getFirestoreInstanceKey(options))?.initializationError ?? null;
+  }
+
+  /**
+   * Get how an instance was initialized
+   * null if it was not initialized yet or was set with setFirestore
+   */
+  getInitializationResult(
+    options: FirestoreInstanceOptions = {},
+  ): FirestoreInitializationResult | null {
+    const result = this.instances.get(getFirestoreInstanceKey(options))?.result;
+    return result ? { ...result } : null;
   }
 
   /**
-   * Reset Firestore client instance
+   * Get keys of the instances initialized or set so far
+   */
+  getInstanceKeys(): string[] {
+    return Array.from(this.instances.entries())
+      .filter(([, state]) => state.firestore !== null)
+      .map(([key]) => key);
+  }
+
+  /**
+   * Use the given Firestore instance instead of initializing one
+   * Useful for testing (e.g. with the in-memory Firestore)
+   */
+  setFirestore(firestore: Firestore, options: FirestoreInstanceOptions = {}): void {
+    this.instances.set(getFirestoreInstanceKey(options), {
+      firestore,
+      initializationError: null,
+      result: null,
+    });
+  }
+
+  /**
+   * Reset all Firestore instances
    * Useful for testing
    */
   reset(): void {
-    this.firestore = null;
-    this.initializationError = null;
+    this.instances.clear();
+  }
+
+  private getState(options: FirestoreInstanceOptions): FirestoreInstanceState {
+    const key = getFirestoreInstanceKey(options);
+    let state = this.instances.get(key);
+    if (!state) {
+      state = { firestore: null, initializationError: null, result: null };
+      this.instances.set(key, state);
+    }
+    return state;
+  }
+
+  /**
+   * Get Firebase App by name
+   * The default app comes from @umituz/react-native-firebase
+   */
+  private getApp(appName: string = DEFAULT_APP_NAME): FirebaseApp | null {
+    if (appName === DEFAULT_APP_NAME) {
+      return getFirebaseApp();
+    }
+    return getApps().find((app) => app.name === appName) ?? null;
   }
 }
 
@@ -129,6 +230,7 @@ export const firestoreClient = FirestoreClientSingleton.getInstance();
  * Initialize Firestore
  * Requires Firebase App to be initialized first via @umituz/react-native-firebase
  *
+ * @param options - Firestore instance (default app and database if omitted) and settings
  * @returns Firestore instance or null if initialization fails
  *
  * @example
@@ -141,38 +243,83 @@ export const firestoreClient = FirestoreClientSingleton.getInstance();
  *
  * // Then initialize Firestore
  * const db = initializeFirestore();
+ *
+ * // Named database of the same project
+ * const analyticsDb = initializeFirestore({ databaseId: 'analytics' });
+ *
+ * // Memory cache and the local emulator
+ * initializeFirestore({ cache: 'memory', emulator: { host: 'localhost', port: 8080 } });
  * ```
  */
-export function initializeFirestore(): Firestore | null {
-  return firestoreClient.initialize();
+export function initializeFirestore(options?: FirestoreInitializationOptions): Firestore | null {
+  return firestoreClient.initialize(options);
 }
 
 /**
  * Get Firestore instance
  * Auto-initializes if Firebase App is available
  * Returns null if config is not available (offline mode - no error)
+ *
+ * @param options - Firestore instance (default app and database if omitted)
  * @returns Firestore instance or null if not initialized
  */
-export function getFirestore(): Firestore | null {
-  return firestoreClient.getFirestore();
+export function getFirestore(options?: FirestoreInstanceOptions): Firestore | null {
+  return firestoreClient.getFirestore(options);
 }
 
 /**
  * Check if Firestore is initialized
  */
-export function isFirestoreInitialized(): boolean {
-  return firestoreClient.isInitialized();
+export function isFirestoreInitialized(options?: FirestoreInstanceOptions): boolean {
+  return firestoreClient.isInitialized(options);
 }
 
 /**
  * Get Firestore initialization error if any
+ * Use getFirestoreInitializationResult for the status and error code
  */
-export function getFirestoreInitializationError(): string | null {
-  return firestoreClient.getInitializationError();
+export function getFirestoreInitializationError(options?: FirestoreInstanceOptions): string | null {
+  return firestoreClient.getInitializationError(options);
 }
 
 /**
- * Reset Firestore client instance
+ * Get how a Firestore instance was initialized (status, cache, emulator, error)
+ *
+ * @example
+ * ```typescript
+ * const result = getFirestoreInitializationResult();
+ * if (result?.status === 'fallback') report(result.error);
+ * ```
+ */
+export function getFirestoreInitializationResult(
+  options?: FirestoreInstanceOptions,
+): FirestoreInitializationResult | null {
+  return firestoreClient.getInitializationResult(options);
+}
+
+/**
+ * Get keys of the Firestore instances in use, e.g. ['[DEFAULT]/(default)', '[DEFAULT]/analytics']
+ */
+export function getFirestoreInstanceKeys(): string[] {
+  return firestoreClient.getInstanceKeys();
+}
+
+/**
+ * Point the client at an existing Firestore instance
+ * Useful for testing with the in-memory Firestore from '@umituz/react-native-firestore/lib/testing'
+ *
+ * @param firestore - Firestore instance
+ * @param options - Instance to replace (default app and database if omitted)
+ */
+export function setFirestoreInstance(
+  firestore: Firestore,
+  options?: FirestoreInstanceOptions,
+): void {
+  firestoreClient.setFirestore(firestore, options);
+}
+
+/**
+ * Reset all Firestore instances
  * Useful for testing
  */
 export function resetFirestoreClient(): void {
@@ -180,4 +327,4 @@ export function resetFirestoreClient(): void {
 }
 
 export type { Firestore } from 'firebase/firestore';
-
+export type { FirestoreInstanceOptions } from '../../utils/firestore-instance.util';
@@ -5,12 +5,31 @@
  */
 
 import {
+  connectFirestoreEmulator,
   getFirestore,
   initializeFirestore,
+  memoryLocalCache,
+  memoryLruGarbageCollector,
   persistentLocalCache,
+  persistentMultipleTabManager,
 } from 'firebase/firestore';
-import type { Firestore } from 'firebase/firestore';
+import type { Firestore, FirestoreSettings as SdkFirestoreSettings } from 'firebase/firestore';
 import type { FirebaseApp } from 'firebase/app';
+import type {
+  FirestoreCacheType,
+  FirestoreEmulatorOptions,
+  FirestoreInitializationResult,
+  FirestoreSettings,
+} from '../../../domain/entities/FirestoreSettings';
+import { getErrorCode } from '../../../utils/retry.util';
+
+/**
+ * Outcome of initializing a Firestore instance
+ */
+export interface FirestoreInitializerOutcome
+  extends Omit<FirestoreInitializationResult, 'instance' | 'timestamp'> {
+  firestore: Firestore | null;
+}
 
 /**
  * Initializes Firestore
@@ -18,29 +37,139 @@ import type { FirebaseApp } from 'firebase/app';
  */
 export class FirebaseFirestoreInitializer {
   /**
-   * Initialize Firestore with persistent cache configuration
+   * Initialize Firestore with the given settings (persistent cache by default)
+   *
+   * - An instance already created for the app and database is reused without
+   *   applying the settings; a requested emulator is still connected, which
+   *   fails once the instance was started without it
+   * - Invalid settings fail initialization; other errors fall back to default settings
+   * - Failing to connect the emulator fails initialization, so that
+   *   a misconfigured app never talks to the production database
+   *
+   * @param app - Firebase App
+   * @param databaseId - ID of a named database (default database if omitted)
+   * @param settings - Cache, long-polling and emulator settings
    */
-  static initialize(app: FirebaseApp): Firestore {
+  static initialize(
+    app: FirebaseApp,
+    databaseId?: string,
+    settings: FirestoreSettings = {},
+  ): FirestoreInitializerOutcome {
+    const cache = settings.cache ?? 'persistent';
+    let outcome: FirestoreInitializerOutcome;
+
     try {
-      // Try to initialize with persistent cache (works on all platforms)
-      return initializeFirestore(app, {
-        localCache: persistentLocalCache(),
-      });
-    } catch (error: any) {
-      // If already initialized or cache fails, get existing instance
-      if (error.code === 'failed-precondition') {
+      outcome = {
+        firestore: initializeFirestore(app, this.toSdkSettings(settings), databaseId),
+        status: 'initialized',
+        cache,
+        emulator: null,
+      };
+    } catch (error) {
+      const code = getErrorCode(error);
+      if (code === 'invalid-argument') {
         /* eslint-disable-next-line no-console */
-        if (__DEV__)
-          console.warn(
-            'Firestore already initialized, using existing instance'
-          );
-        return getFirestore(app);
+        if (__DEV__) console.warn('[Firestore] Invalid settings:', error);
+        return { firestore: null, status: 'failed', cache: null, emulator: null, error: this.describe(error) };
       }
 
-      /* eslint-disable-next-line no-console */
-      if (__DEV__) console.warn('Firestore initialization error:', error);
-      return getFirestore(app);
+      const existing = code === 'failed-precondition';
+      if (__DEV__) {
+        /* eslint-disable no-console */
+        if (existing) {
+          console.warn('[Firestore] Already initialized, using existing instance (settings not applied)');
+        } else {
+          console.warn('[Firestore] Initialization error, using default settings:', error);
+        }
+        /* eslint-enable no-console */
+      }
+      outcome = {
+        firestore: databaseId ? getFirestore(app, databaseId) : getFirestore(app),
+        status: existing ? 'existing' : 'fallback',
+        // Firestore's default cache is in memory
+        cache: existing ? null : 'memory',
+        emulator: null,
+        error: existing ? undefined : this.describe(error),
+      };
     }
+
+    if (settings.emulator && outcome.firestore) {
+      // A no-op for instances already connected to the same emulator
+      try {
+        this.connectEmulator(outcome.firestore, settings.emulator);
+        outcome.emulator = { ...settings.emulator };
+      } catch (error) {
+        /* eslint-disable-next-line no-console */
+        if (__DEV__) console.warn('[Firestore] Emulator connection failed:', error);
+        const { host, port } = settings.emulator;
+        return {
+          firestore: null,
+          status: 'failed',
+          cache: null,
+          emulator: null,
+          error:
+            outcome.status === 'existing'
+              ? {
+                  code: getErrorCode(error),
+                  message:
+                    `Firestore instance was already started without the emulator at ${host}:${port}; ` +
+                    'connect the emulator where the instance is created',
+                }
+              : this.describe(error),
+        };
+      }
+    }
+
+    return outcome;
   }
-}
 
+  private static toSdkSettings(settings: FirestoreSettings): SdkFirestoreSettings {
+    const sdkSettings: SdkFirestoreSettings = {
+      localCache: this.createLocalCache(settings.cache ?? 'persistent', settings.cacheSizeBytes),
+    };
+    if (settings.experimentalForceLongPolling !== undefined) {
+      sdkSettings.experimentalForceLongPolling = settings.experimentalForceLongPolling;
+    }
+    if (settings.experimentalAutoDetectLongPolling !== undefined) {
+      sdkSettings.experimentalAutoDetectLongPolling = settings.experimentalAutoDetectLongPolling;
+    }
+    if (settings.experimentalLongPollingOptions !== undefined) {
+      sdkSettings.experimentalLongPollingOptions = settings.experimentalLongPollingOptions;
+    }
+    if (settings.ignoreUndefinedProperties !== undefined) {
+      sdkSettings.ignoreUndefinedProperties = settings.ignoreUndefinedProperties;
+    }
+    return sdkSettings;
+  }
+
+  private static createLocalCache(cache: FirestoreCacheType, cacheSizeBytes?: number) {
+    switch (cache) {
+      case 'memory':
+        return memoryLocalCache(
+          cacheSizeBytes !== undefined
+            ? { garbageCollector: memoryLruGarbageCollector({ cacheSizeBytes }) }
+            : undefined,
+        );
+      case 'persistent-multi-tab':
+        return persistentLocalCache({ cacheSizeBytes, tabManager: persistentMultipleTabManager() });
+      default:
+        return persistentLocalCache({ cacheSizeBytes });
+    }
+  }
+
+  private static connectEmulator(firestore: Firestore, emulator: FirestoreEmulatorOptions): void {
+    connectFirestoreEmulator(
+      firestore,
+      emulator.host,
+      emulator.port,
+      emulator.mockUserToken !== undefined ? { mockUserToken: emulator.mockUserToken } : undefined,
+    );
+  }
+
+  private static describe(error: unknown): FirestoreInitializationResult['error'] {
+    return {
+      code: getErrorCode(error),
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
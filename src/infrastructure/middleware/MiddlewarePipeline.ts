@@ -0,0 +1,238 @@
+/**
+ * Middleware Pipeline
+ * Runs repository operations through an ordered chain of middlewares
+ *
+ * Every read, write, delete, listen, transaction and batch commit of a
+ * repository passes through the pipeline. Middlewares are sorted by order
+ * (lower runs first, i.e. outermost; default 0), then by registration.
+ *
+ * For each middleware:
+ * - before runs on the way in (throw to reject the operation)
+ * - around wraps the rest of the chain (call next, or short-circuit)
+ * - after runs with the result on the way out
+ * - error runs with errors thrown by the operation or inner middlewares
+ *
+ * Built-in middlewares, registered on the global pipeline:
+ * - 'query-cache' (order 100): serves cached query results, invalidates on writes
+ * - 'query-deduplication' (order 200): shares in-flight identical queries
+ * - 'network-state' (order 250): counts writes pending server acknowledgment
+ * - 'quota-tracking' (order 300): counts quota usage and logs requests
+ *
+ * Listen operations run synchronously: promises returned by their hooks are not awaited.
+ *
+ * @example
+ * ```typescript
+ * middlewarePipeline.use({
+ *   name: 'auth',
+ *   before: (context) => {
+ *     if (context.type !== 'read' && !auth.currentUser) throw new Error('Not signed in');
+ *   },
+ * });
+ *
+ * // Per repository
+ * auditRepository.useMiddleware({ name: 'audit', after: (context) => audit(context) });
+ * settingsRepository.disableMiddleware('query-deduplication');
+ * ```
+ */
+
+import type { RequestType } from '../../domain/entities/RequestLog';
+import type { OperationPriority } from '../../domain/entities/QuotaPolicy';
+import type { RepositoryOperationOptions } from '../../types/operation.types';
+import type { QueryKey } from '../../utils/query-fingerprint.util';
+import { queryCacheMiddleware } from './QueryCacheMiddleware';
+import { queryDeduplicationMiddleware } from './QueryDeduplicationMiddleware';
+import { networkStateMiddleware } from './NetworkStateMiddleware';
+import { quotaTrackingMiddleware } from './QuotaTrackingMiddleware';
+
+export type OperationType = RequestType | 'transaction' | 'batch';
+
+/**
+ * Operation described by a repository
+ */
+export interface OperationDescriptor<T = unknown> {
+  type: OperationType;
+  collection: string;
+  documentId?: string;
+  /**
+   * Number of documents affected
+   * Pass a function to derive the count from the operation result
+   */
+  count: number | ((result: T) => number);
+  /**
+   * Whether the result is from cache
+   * Pass a function to derive the flag from the operation result
+   */
+  cached?: boolean | ((result: T) => boolean);
+  /**
+   * Canonical key of the query (query reads only)
+   */
+  queryKey?: QueryKey;
+}
+
+/**
+ * Operation passed to middleware hooks
+ */
+export interface OperationContext<T = unknown> extends OperationDescriptor<T> {
+  /**
+   * Name of the repository class running the operation
+   */
+  repository: string;
+  /**
+   * Key of the Firestore instance the operation runs on (default instance if omitted)
+   */
+  instance?: string;
+  priority: OperationPriority;
+  options: RepositoryOperationOptions;
+  /**
+   * State shared between hooks of the operation
+   */
+  state: Record<string, unknown>;
+}
+
+export interface OperationMiddleware {
+  readonly name: string;
+  /**
+   * Position in the chain, lower runs first (default 0)
+   */
+  readonly order?: number;
+  before?(context: OperationContext): void | Promise<void>;
+  around?<R>(context: OperationContext, next: () => R): R;
+  after?(context: OperationContext, result: unknown): void | Promise<void>;
+  error?(context: OperationContext, error: unknown): void | Promise<void>;
+}
+
+export class MiddlewarePipeline {
+  private middlewares: OperationMiddleware[] = [];
+  private disabled = new Set<string>();
+
+  /**
+   * @param parent - Pipeline whose middlewares are inherited (e.g. the global pipeline)
+   */
+  constructor(private readonly parent: MiddlewarePipeline | null = null) {}
+
+  /**
+   * Add middleware, replacing one with the same name
+   * An inherited middleware with the same name is overridden
+   *
+   * @returns Function removing the middleware
+   */
+  use(middleware: OperationMiddleware): () => void {
+    this.middlewares = this.middlewares.filter((m) => m.name !== middleware.name);
+    this.middlewares.push(middleware);
+    this.disabled.delete(middleware.name);
+    return () => {
+      this.middlewares = this.middlewares.filter((m) => m !== middleware);
+    };
+  }
+
+  /**
+   * Remove middleware added to this pipeline
+   */
+  remove(name: string): void {
+    this.middlewares = this.middlewares.filter((m) => m.name !== name);
+  }
+
+  /**
+   * Skip a middleware (own or inherited) in this pipeline
+   */
+  disable(name: string): void {
+    this.disabled.add(name);
+  }
+
+  /**
+   * Re-enable a disabled middleware
+   */
+  enable(name: string): void {
+    this.disabled.delete(name);
+  }
+
+  /**
+   * Get active middlewares in execution order
+   */
+  getMiddlewares(): OperationMiddleware[] {
+    const inherited = this.parent
+      ? this.parent
+          .getMiddlewares()
+          .filter((parentMiddleware) =>
+            !this.middlewares.some((m) => m.name === parentMiddleware.name),
+          )
+      : [];
+    return [...inherited, ...this.middlewares]
+      .filter((m) => !this.disabled.has(m.name))
+      .sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+  }
+
+  /**
+   * Run operation through the middleware chain
+   *
+   * @param context - Operation context
+   * @param operationFn - Function executing the operation
+   * @returns Operation result (or a result provided by a middleware)
+   */
+  execute<T>(context: OperationContext, operationFn: () => Promise<T>): Promise<T> {
+    const middlewares = this.getMiddlewares();
+
+    const run = async (index: number): Promise<T> => {
+      const middleware = middlewares[index];
+      if (!middleware) {
+        return operationFn();
+      }
+
+      await middleware.before?.(context);
+      let result: T;
+      try {
+        const next = () => run(index + 1);
+        result = await (middleware.around ? middleware.around(context, next) : next());
+      } catch (error) {
+        await middleware.error?.(context, error);
+        throw error;
+      }
+      await middleware.after?.(context, result);
+      return result;
+    };
+
+    return run(0);
+  }
+
+  /**
+   * Run synchronous operation (listen) through the middleware chain
+   * Promises returned by hooks are not awaited
+   *
+   * @param context - Operation context
+   * @param operationFn - Function executing the operation
+   * @returns Operation result
+   */
+  executeSync<T>(context: OperationContext, operationFn: () => T): T {
+    const middlewares = this.getMiddlewares();
+
+    const run = (index: number): T => {
+      const middleware = middlewares[index];
+      if (!middleware) {
+        return operationFn();
+      }
+
+      middleware.before?.(context);
+      let result: T;
+      try {
+        const next = () => run(index + 1);
+        result = middleware.around ? middleware.around(context, next) : next();
+      } catch (error) {
+        middleware.error?.(context, error);
+        throw error;
+      }
+      middleware.after?.(context, result);
+      return result;
+    };
+
+    return run(0);
+  }
+}
+
+/**
+ * Global pipeline inherited by every repository
+ */
+export const middlewarePipeline = new MiddlewarePipeline();
+middlewarePipeline.use(queryCacheMiddleware);
+middlewarePipeline.use(queryDeduplicationMiddleware);
+middlewarePipeline.use(networkStateMiddleware);
+middlewarePipeline.use(quotaTrackingMiddleware);
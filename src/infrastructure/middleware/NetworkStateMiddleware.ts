@@ -0,0 +1,62 @@
+/**
+ * Network State Middleware
+ * Tracks writes until the server acknowledges them
+ *
+ * Runs as the 'network-state' pipeline middleware (order 250): writes,
+ * deletes and batch commits count as pending in networkStateService until
+ * they settle. Writes made while the instance is offline are logged right
+ * away as acknowledged locally ('local'); the quota-tracking middleware logs
+ * them again once the server acknowledges them ('server').
+ */
+
+import { networkStateService } from '../services/NetworkStateService';
+import { requestLoggerService } from '../services/RequestLoggerService';
+import type { OperationContext, OperationMiddleware, OperationType } from './MiddlewarePipeline';
+
+const WRITE_TYPES: ReadonlySet<OperationType> = new Set(['write', 'delete', 'batch']);
+
+export class NetworkStateMiddleware implements OperationMiddleware {
+  readonly name = 'network-state';
+  readonly order = 250;
+
+  /**
+   * Pipeline hook: count the write as pending, log it if only applied locally
+   */
+  before(context: OperationContext): void {
+    if (!WRITE_TYPES.has(context.type)) {
+      return;
+    }
+    networkStateService.trackWriteStarted(context.instance);
+    if (networkStateService.getState(context.instance).connectivity === 'offline') {
+      requestLoggerService.logRequest({
+        type: context.type === 'delete' ? 'delete' : 'write',
+        collection: context.collection,
+        documentId: context.documentId,
+        instance: context.instance,
+        success: true,
+        cached: false,
+        acknowledged: 'local',
+      });
+    }
+  }
+
+  /**
+   * Pipeline hook: the server acknowledged the write
+   */
+  after(context: OperationContext): void {
+    if (WRITE_TYPES.has(context.type)) {
+      networkStateService.trackWriteSettled(context.instance);
+    }
+  }
+
+  /**
+   * Pipeline hook: the write failed
+   */
+  error(context: OperationContext, error: unknown): void {
+    if (WRITE_TYPES.has(context.type)) {
+      networkStateService.trackWriteSettled(context.instance, error);
+    }
+  }
+}
+
+export const networkStateMiddleware = new NetworkStateMiddleware();
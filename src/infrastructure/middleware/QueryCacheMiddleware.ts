@@ -0,0 +1,268 @@
+/**
+ * Query Cache Middleware
+ * Serves repeated queries from a TTL result cache (opt-in)
+ *
+ * - Results are keyed by the query fingerprint shared with deduplication
+ * - Fresh results are served until the collection TTL expires
+ * - Stale results can be served while a background refresh runs
+ * - Writes and transactions through a repository invalidate results of that collection
+ *   and of collection group queries over its collection ID
+ *   (in the same Firestore instance)
+ * - Least recently used results are evicted beyond maxEntries
+ *
+ * Cache hits are logged as cached reads and do not count against quota.
+ * Runs as the 'query-cache' pipeline middleware (order 100).
+ */
+
+import type { QueryCachePolicy, QueryCacheStats } from '../../domain/entities/QueryCachePolicy';
+import { DEFAULT_QUERY_CACHE_POLICY } from '../../domain/constants/QueryCacheDefaults';
+import { quotaTrackingMiddleware } from './QuotaTrackingMiddleware';
+import { getQueryFingerprint } from '../../utils/query-fingerprint.util';
+import type { QueryKey } from '../../utils/query-fingerprint.util';
+import { isDefaultFirestoreInstance } from '../../utils/firestore-instance.util';
+import type { OperationContext, OperationMiddleware } from './MiddlewarePipeline';
+
+interface CacheEntry {
+  collection: string;
+  /**
+   * Generation key: the collection, or the collection group,
+   * prefixed with the instance key for other than the default instance
+   */
+  scope: string;
+  value: unknown;
+  storedAt: number;
+  ttlMs: number;
+  revalidating: boolean;
+}
+
+export class QueryCacheMiddleware implements OperationMiddleware {
+  readonly name = 'query-cache';
+  readonly order = 100;
+  // Map keeps insertion order; entries are re-inserted on access for LRU
+  private entries = new Map<string, CacheEntry>();
+  private generations = new Map<string, number>();
+  private policy: QueryCachePolicy = { ...DEFAULT_QUERY_CACHE_POLICY };
+  private hits = 0;
+  private staleHits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(policy: Partial<QueryCachePolicy> = {}) {
+    this.setPolicy(policy);
+  }
+
+  /**
+   * Update cache policy
+   * Shrinking maxEntries evicts least recently used results
+   */
+  setPolicy(policy: Partial<QueryCachePolicy>): void {
+    this.policy = { ...this.policy, ...policy };
+    if (!this.policy.enabled) {
+      this.entries.clear();
+    }
+    this.evictOverflow();
+  }
+
+  getPolicy(): QueryCachePolicy {
+    return { ...this.policy };
+  }
+
+  /**
+   * Get TTL for a collection (0 if results are not cached)
+   */
+  getTtl(collection: string): number {
+    if (!this.policy.enabled) {
+      return 0;
+    }
+    return this.policy.collectionTtlMs?.[collection] ?? this.policy.defaultTtlMs;
+  }
+
+  /**
+   * Serve query from cache or run it and cache the result
+   *
+   * @param queryKey - Query key
+   * @param queryFn - Function to execute the query on a miss or refresh
+   * @returns Cached or fresh result
+   */
+  async execute<T>(queryKey: QueryKey, queryFn: () => Promise<T>): Promise<T> {
+    const { collection } = queryKey;
+    const scope = getCacheScope(queryKey);
+    const ttlMs = this.getTtl(collection);
+    if (ttlMs <= 0) {
+      return queryFn();
+    }
+
+    const key = getQueryFingerprint(queryKey);
+    const entry = this.entries.get(key);
+    if (entry) {
+      const age = Date.now() - entry.storedAt;
+      if (age <= entry.ttlMs) {
+        this.hits++;
+        this.touch(key, entry);
+        quotaTrackingMiddleware.trackCacheHit(collection, key, queryKey.instance);
+        return entry.value as T;
+      }
+      if (age <= entry.ttlMs + this.policy.staleWhileRevalidateMs) {
+        this.staleHits++;
+        this.touch(key, entry);
+        quotaTrackingMiddleware.trackCacheHit(collection, key, queryKey.instance);
+        this.revalidate(key, entry, queryFn);
+        return entry.value as T;
+      }
+      this.entries.delete(key);
+    }
+
+    this.misses++;
+    const generation = this.getGeneration(scope);
+    const value = await queryFn();
+    this.store(key, collection, scope, value, generation);
+    return value;
+  }
+
+  /**
+   * Pipeline hook: serve query reads from the cache
+   * Skipped when the operation is run with cache: false
+   */
+  around<R>(context: OperationContext, next: () => R): R {
+    if (context.type !== 'read' || !context.queryKey || context.options.cache === false) {
+      return next();
+    }
+    return this.execute(context.queryKey, next as unknown as () => Promise<unknown>) as unknown as R;
+  }
+
+  /**
+   * Pipeline hook: invalidate the collection after writes, deletes and transactions
+   */
+  after(context: OperationContext): void {
+    if (context.type === 'write' || context.type === 'delete' || context.type === 'transaction') {
+      this.invalidateCollection(context.collection, context.instance);
+    }
+  }
+
+  /**
+   * Drop cached results of a collection and of collection group
+   * queries over its collection ID
+   * Queries already in flight will not cache their (possibly outdated) results
+   *
+   * @param collection - Collection path
+   * @param instance - Firestore instance key (default instance if omitted)
+   */
+  invalidateCollection(collection: string, instance?: string): void {
+    const scope = toInstanceScope(collection, instance);
+    const group = toInstanceScope(
+      toGroupScope(collection.slice(collection.lastIndexOf('/') + 1)),
+      instance,
+    );
+    for (const key of [scope, group]) {
+      this.generations.set(key, this.getGeneration(key) + 1);
+    }
+    for (const [key, entry] of this.entries.entries()) {
+      if (entry.scope === scope || entry.scope === group) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Drop all cached results
+   */
+  clear(): void {
+    this.entries.clear();
+    this.generations.clear();
+  }
+
+  /**
+   * Get cache statistics
+   */
+  getStats(): QueryCacheStats {
+    return {
+      size: this.entries.size,
+      hits: this.hits,
+      staleHits: this.staleHits,
+      misses: this.misses,
+      evictions: this.evictions,
+    };
+  }
+
+  /**
+   * Reset cache statistics
+   */
+  resetStats(): void {
+    this.hits = 0;
+    this.staleHits = 0;
+    this.misses = 0;
+    this.evictions = 0;
+  }
+
+  private getGeneration(scope: string): number {
+    return this.generations.get(scope) ?? 0;
+  }
+
+  private touch(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+  }
+
+  private store(
+    key: string,
+    collection: string,
+    scope: string,
+    value: unknown,
+    generation: number,
+  ): void {
+    const ttlMs = this.getTtl(collection);
+    if (ttlMs <= 0 || generation !== this.getGeneration(scope)) {
+      return;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, {
+      collection,
+      scope,
+      value,
+      storedAt: Date.now(),
+      ttlMs,
+      revalidating: false,
+    });
+    this.evictOverflow();
+  }
+
+  private revalidate<T>(key: string, entry: CacheEntry, queryFn: () => Promise<T>): void {
+    if (entry.revalidating) {
+      return;
+    }
+    entry.revalidating = true;
+    const generation = this.getGeneration(entry.scope);
+    queryFn()
+      .then((value) => this.store(key, entry.collection, entry.scope, value, generation))
+      .catch((error) => {
+        entry.revalidating = false;
+        /* eslint-disable-next-line no-console */
+        if (__DEV__) console.warn('[QueryCache] Background refresh failed:', error);
+      });
+  }
+
+  private evictOverflow(): void {
+    while (this.entries.size > Math.max(0, this.policy.maxEntries)) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+      this.evictions++;
+    }
+  }
+}
+
+function toGroupScope(collectionId: string): string {
+  return `collectionGroup(${collectionId})`;
+}
+
+function toInstanceScope(scope: string, instance?: string): string {
+  return isDefaultFirestoreInstance(instance) ? scope : `${instance}:${scope}`;
+}
+
+function getCacheScope(queryKey: QueryKey): string {
+  return toInstanceScope(
+    queryKey.collectionGroup ? toGroupScope(queryKey.collectionGroup) : queryKey.collection,
+    queryKey.instance,
+  );
+}
+
+export const queryCacheMiddleware = new QueryCacheMiddleware();
@@ -1,66 +1,125 @@
 /**
  * Query Deduplication Middleware
  * Prevents duplicate Firestore queries within a short time window
+ *
+ * Identical queries (same fingerprint) started while one is in flight share its
+ * result. The cleanup timer only runs while queries are pending, so an idle
+ * middleware does not keep Node or Jest processes alive.
+ * Runs as the 'query-deduplication' pipeline middleware (order 200).
  */
 
+import { getQueryFingerprint } from '../../utils/query-fingerprint.util';
+import type { QueryKey } from '../../utils/query-fingerprint.util';
+import { quotaTrackingMiddleware } from './QuotaTrackingMiddleware';
+import type { OperationContext, OperationMiddleware } from './MiddlewarePipeline';
+
 interface PendingQuery {
   promise: Promise<unknown>;
   timestamp: number;
 }
 
-interface QueryKey {
-  collection: string;
-  filters: string;
-  limit?: number;
-  orderBy?: string;
+export interface QueryDeduplicationOptions {
+  /**
+   * How long an in-flight query is shared with identical queries (ms)
+   */
+  windowMs: number;
+  /**
+   * Interval of the cleanup of expired pending queries (ms)
+   */
+  cleanupIntervalMs: number;
 }
 
-export class QueryDeduplicationMiddleware {
+export interface QueryDeduplicationStats {
+  /**
+   * Queries served by an identical in-flight query
+   */
+  hits: number;
+  /**
+   * Queries executed
+   */
+  misses: number;
+  /**
+   * Queries currently in flight
+   */
+  inFlight: number;
+}
+
+const DEFAULT_OPTIONS: QueryDeduplicationOptions = {
+  windowMs: 1000, // 1 second
+  cleanupIntervalMs: 5000, // 5 seconds
+};
+
+export class QueryDeduplicationMiddleware implements OperationMiddleware {
+  readonly name = 'query-deduplication';
+  readonly order = 200;
   private pendingQueries = new Map<string, PendingQuery>();
-  private readonly DEDUPLICATION_WINDOW_MS = 1000; // 1 second
-  private readonly CLEANUP_INTERVAL_MS = 5000; // 5 seconds
-  private cleanupTimer: NodeJS.Timeout | null = null;
+  private options: QueryDeduplicationOptions;
+  private cleanupTimer: ReturnType<typeof setInterval> | null = null;
+  private hits = 0;
+  private misses = 0;
 
-  constructor() {
-    this.startCleanupTimer();
+  constructor(options: Partial<QueryDeduplicationOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Update window and cleanup interval
+   * A running cleanup timer is restarted with the new interval
+   */
+  setOptions(options: Partial<QueryDeduplicationOptions>): void {
+    this.options = { ...this.options, ...options };
+    if (this.cleanupTimer) {
+      this.stopCleanupTimer();
+      this.startCleanupTimer();
+    }
+  }
+
+  getOptions(): QueryDeduplicationOptions {
+    return { ...this.options };
   }
 
   /**
    * Start cleanup timer to prevent memory leaks
+   * Started lazily with the first pending query
    */
   private startCleanupTimer(): void {
     if (this.cleanupTimer) {
-      clearInterval(this.cleanupTimer);
+      return;
     }
-    
+
     this.cleanupTimer = setInterval(() => {
       this.cleanupExpiredQueries();
-    }, this.CLEANUP_INTERVAL_MS);
+    }, this.options.cleanupIntervalMs);
+  }
+
+  private stopCleanupTimer(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
   }
 
   /**
    * Clean up expired queries to prevent memory leaks
+   * Stops the timer once nothing is pending
    */
   private cleanupExpiredQueries(): void {
     const now = Date.now();
     for (const [key, query] of this.pendingQueries.entries()) {
-      if (now - query.timestamp > this.DEDUPLICATION_WINDOW_MS) {
+      if (now - query.timestamp > this.options.windowMs) {
         this.pendingQueries.delete(key);
       }
     }
+    if (this.pendingQueries.size === 0) {
+      this.stopCleanupTimer();
+    }
   }
 
   /**
    * Generate query key from query parameters
    */
   private generateQueryKey(key: QueryKey): string {
-    const parts = [
-      key.collection,
-      key.filters,
-      key.limit?.toString() || '',
-      key.orderBy || '',
-    ];
-    return parts.join('|');
+    return getQueryFingerprint(key);
   }
 
   /**
@@ -71,7 +130,7 @@ export class QueryDeduplicationMiddleware {
     if (!pending) return false;
 
     const age = Date.now() - pending.timestamp;
-    if (age > this.DEDUPLICATION_WINDOW_MS) {
+    if (age > this.options.windowMs) {
       this.pendingQueries.delete(key);
       return false;
     }
@@ -95,14 +154,33 @@ export class QueryDeduplicationMiddleware {
       promise,
       timestamp: Date.now(),
     });
+    this.startCleanupTimer();
 
-    promise.finally(() => {
-      this.pendingQueries.delete(key);
-    });
+    const remove = () => {
+      // A newer query may have replaced this one after the window expired
+      if (this.pendingQueries.get(key)?.promise === promise) {
+        this.pendingQueries.delete(key);
+      }
+      if (this.pendingQueries.size === 0) {
+        this.stopCleanupTimer();
+      }
+    };
+    promise.then(remove, remove);
+  }
+
+  /**
+   * Pipeline hook: share in-flight identical query reads
+   */
+  around<R>(context: OperationContext, next: () => R): R {
+    if (context.type !== 'read' || !context.queryKey) {
+      return next();
+    }
+    return this.deduplicate(context.queryKey, next as unknown as () => Promise<unknown>) as unknown as R;
   }
 
   /**
    * Deduplicate a query
+   * Queries served by an in-flight query are logged as deduplicated reads
    */
   async deduplicate<T>(
     queryKey: QueryKey,
@@ -113,10 +191,13 @@ export class QueryDeduplicationMiddleware {
     if (this.isQueryPending(key)) {
       const pendingPromise = this.getPendingQuery(key);
       if (pendingPromise) {
+        this.hits++;
+        quotaTrackingMiddleware.trackDeduplicatedRead(queryKey.collection, key, queryKey.instance);
         return pendingPromise as Promise<T>;
       }
     }
 
+    this.misses++;
     const promise = queryFn();
     this.addPendingQuery(key, promise);
 
@@ -128,16 +209,14 @@ export class QueryDeduplicationMiddleware {
    */
   clear(): void {
     this.pendingQueries.clear();
+    this.stopCleanupTimer();
   }
 
   /**
    * Destroy middleware and cleanup resources
    */
   destroy(): void {
-    if (this.cleanupTimer) {
-      clearInterval(this.cleanupTimer);
-      this.cleanupTimer = null;
-    }
+    this.stopCleanupTimer();
     this.pendingQueries.clear();
   }
 
@@ -147,7 +226,32 @@ export class QueryDeduplicationMiddleware {
   getPendingCount(): number {
     return this.pendingQueries.size;
   }
+
+  /**
+   * Get deduplication statistics
+   */
+  getStats(): QueryDeduplicationStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      inFlight: this.pendingQueries.size,
+    };
+  }
+
+  /**
+   * Reset deduplication statistics
+   */
+  resetStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  /**
+   * Whether the cleanup timer is running
+   */
+  isCleanupTimerActive(): boolean {
+    return this.cleanupTimer !== null;
+  }
 }
 
 export const queryDeduplicationMiddleware = new QueryDeduplicationMiddleware();
-
@@ -1,31 +1,128 @@
 /**
  * Quota Tracking Middleware
  * Tracks Firestore operations for quota monitoring
+ *
+ * Runs as the 'quota-tracking' pipeline middleware (order 300): reads, writes
+ * and deletes are counted and logged with timing. Transactions and batches
+ * are counted per collection by the repository; failed transactions are logged here.
+ * Usage is counted by the quota monitor of the operation's Firestore instance.
  */
 
-import { quotaMonitorService } from '../services/QuotaMonitorService';
+import { getQuotaMonitor } from '../services/QuotaMonitorService';
 import { requestLoggerService } from '../services/RequestLoggerService';
-import type { RequestType } from '../../domain/entities/RequestLog';
+import type { RequestType, ListenerEvent } from '../../domain/entities/RequestLog';
+import { getQueryFingerprint } from '../../utils/query-fingerprint.util';
+import type { OperationContext, OperationMiddleware } from './MiddlewarePipeline';
 
-interface TrackedOperation {
+export interface TrackedOperation<T = unknown> {
   type: RequestType;
   collection: string;
   documentId?: string;
-  count: number;
-  cached?: boolean;
+  /**
+   * Number of documents affected
+   * Pass a function to derive the count from the operation result
+   */
+  count: number | ((result: T) => number);
+  /**
+   * Whether the result is from cache
+   * Pass a function to derive the flag from the operation result
+   */
+  cached?: boolean | ((result: T) => boolean);
+  /**
+   * Canonical fingerprint of the query (reads only)
+   */
+  queryFingerprint?: string;
+  /**
+   * Firestore instance key (default instance if omitted)
+   */
+  instance?: string;
 }
 
-export class QuotaTrackingMiddleware {
+export class QuotaTrackingMiddleware implements OperationMiddleware {
+  readonly name = 'quota-tracking';
+  readonly order = 300;
+
+  /**
+   * Pipeline hook: track reads, writes and deletes
+   */
+  around<R>(context: OperationContext, next: () => R): R {
+    const { type } = context;
+    if (type !== 'read' && type !== 'write' && type !== 'delete') {
+      return next();
+    }
+    return this.trackOperation(
+      {
+        type,
+        collection: context.collection,
+        documentId: context.documentId,
+        count: context.count,
+        cached: context.cached,
+        queryFingerprint: context.queryKey ? getQueryFingerprint(context.queryKey) : undefined,
+        instance: context.instance,
+      },
+      next as unknown as () => Promise<unknown>,
+    ) as unknown as R;
+  }
+
+  /**
+   * Pipeline hook: log failed transactions
+   */
+  error(context: OperationContext, error: unknown): void {
+    if (context.type === 'transaction') {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.trackError('write', context.collection, errorMessage, undefined, context.instance);
+    }
+  }
+
   /**
    * Track a read operation
    */
-  trackRead(collection: string, count: number = 1, cached: boolean = false): void {
-    quotaMonitorService.incrementRead(count);
+  trackRead(
+    collection: string,
+    count: number = 1,
+    cached: boolean = false,
+    queryFingerprint?: string,
+    instance?: string,
+  ): void {
+    getQuotaMonitor(instance).incrementRead(count);
     requestLoggerService.logRequest({
       type: 'read',
       collection,
+      instance,
       success: true,
       cached,
+      queryFingerprint,
+    });
+  }
+
+  /**
+   * Track a read served from the query result cache
+   * Logged as cached; quota reads are not incremented
+   */
+  trackCacheHit(collection: string, queryFingerprint?: string, instance?: string): void {
+    requestLoggerService.logRequest({
+      type: 'read',
+      collection,
+      instance,
+      success: true,
+      cached: true,
+      queryFingerprint,
+    });
+  }
+
+  /**
+   * Track a read served by an identical in-flight query
+   * Logged as deduplicated; quota reads are not incremented
+   */
+  trackDeduplicatedRead(collection: string, queryFingerprint?: string, instance?: string): void {
+    requestLoggerService.logRequest({
+      type: 'read',
+      collection,
+      instance,
+      success: true,
+      cached: false,
+      deduplicated: true,
+      queryFingerprint,
     });
   }
 
@@ -36,14 +133,17 @@ export class QuotaTrackingMiddleware {
     collection: string,
     documentId?: string,
     count: number = 1,
+    instance?: string,
   ): void {
-    quotaMonitorService.incrementWrite(count);
+    getQuotaMonitor(instance).incrementWrite(count);
     requestLoggerService.logRequest({
       type: 'write',
       collection,
       documentId,
+      instance,
       success: true,
       cached: false,
+      acknowledged: 'server',
     });
   }
 
@@ -54,27 +154,39 @@ export class QuotaTrackingMiddleware {
     collection: string,
     documentId?: string,
     count: number = 1,
+    instance?: string,
   ): void {
-    quotaMonitorService.incrementDelete(count);
+    getQuotaMonitor(instance).incrementDelete(count);
     requestLoggerService.logRequest({
       type: 'delete',
       collection,
       documentId,
+      instance,
       success: true,
       cached: false,
+      acknowledged: 'server',
     });
   }
 
   /**
-   * Track a listener operation
+   * Track a listener lifecycle event
    */
-  trackListener(collection: string, documentId?: string): void {
+  trackListener(
+    collection: string,
+    documentId?: string,
+    event: ListenerEvent = 'start',
+    error?: string,
+    instance?: string,
+  ): void {
     requestLoggerService.logRequest({
       type: 'listener',
       collection,
       documentId,
-      success: true,
+      instance,
+      success: event !== 'error',
+      error,
       cached: false,
+      listenerEvent: event,
     });
   }
 
@@ -86,11 +198,13 @@ export class QuotaTrackingMiddleware {
     collection: string,
     error: string,
     documentId?: string,
+    instance?: string,
   ): void {
     requestLoggerService.logRequest({
       type,
       collection,
       documentId,
+      instance,
       success: false,
       error,
       cached: false,
@@ -101,43 +215,58 @@ export class QuotaTrackingMiddleware {
    * Track operation with timing
    */
   async trackOperation<T>(
-    operation: TrackedOperation,
+    operation: TrackedOperation<T>,
     operationFn: () => Promise<T>,
   ): Promise<T> {
     const startTime = Date.now();
+    const monitor = getQuotaMonitor(operation.instance);
 
     try {
       const result = await operationFn();
       const duration = Date.now() - startTime;
+      const count =
+        typeof operation.count === 'function'
+          ? operation.count(result)
+          : operation.count;
+      const cached =
+        typeof operation.cached === 'function'
+          ? operation.cached(result)
+          : operation.cached || false;
 
       if (operation.type === 'read') {
-        quotaMonitorService.incrementRead(operation.count);
+        monitor.incrementRead(count);
         requestLoggerService.logRequest({
           type: 'read',
           collection: operation.collection,
           documentId: operation.documentId,
+          instance: operation.instance,
           success: true,
-          cached: operation.cached || false,
+          cached,
           duration,
+          queryFingerprint: operation.queryFingerprint,
         });
       } else if (operation.type === 'write') {
-        quotaMonitorService.incrementWrite(operation.count);
+        monitor.incrementWrite(count);
         requestLoggerService.logRequest({
           type: 'write',
           collection: operation.collection,
           documentId: operation.documentId,
+          instance: operation.instance,
           success: true,
           cached: false,
+          acknowledged: 'server',
           duration,
         });
       } else if (operation.type === 'delete') {
-        quotaMonitorService.incrementDelete(operation.count);
+        monitor.incrementDelete(count);
         requestLoggerService.logRequest({
           type: 'delete',
           collection: operation.collection,
           documentId: operation.documentId,
+          instance: operation.instance,
           success: true,
           cached: false,
+          acknowledged: 'server',
           duration,
         });
       }
@@ -150,10 +279,12 @@ export class QuotaTrackingMiddleware {
         type: operation.type,
         collection: operation.collection,
         documentId: operation.documentId,
+        instance: operation.instance,
         success: false,
         error: errorMessage,
         cached: false,
         duration,
+        queryFingerprint: operation.queryFingerprint,
       });
 
       throw error;
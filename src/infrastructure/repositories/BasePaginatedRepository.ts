@@ -5,10 +5,36 @@
  * Extends BaseQueryRepository with pagination-specific functionality.
  */
 
-import type { QueryDocumentSnapshot, DocumentData } from "firebase/firestore";
-import { collection, query, orderBy, limit, startAfter, getDoc, doc, getDocs } from "firebase/firestore";
+import type { QueryDocumentSnapshot, DocumentData, QueryConstraint } from "firebase/firestore";
+import {
+  collection,
+  collectionGroup,
+  query,
+  orderBy,
+  limit,
+  limitToLast,
+  startAfter,
+  endBefore,
+  getDoc,
+  doc,
+  getDocs,
+  documentId,
+  where,
+} from "firebase/firestore";
 import { PaginationHelper } from "../../utils/pagination.helper";
-import type { PaginatedResult, PaginationParams } from "../../types/pagination.types";
+import { decodeCursor, createCursorFromSnapshot } from "../../utils/cursor.util";
+import {
+  getPageQueryKey,
+  getResultKey,
+  type PageQueryKeyOptions,
+} from "../../utils/query-fingerprint.util";
+import type { FilterValue } from "../../utils/query-builder";
+import type {
+  PaginatedResult,
+  PaginationParams,
+  PaginationSource,
+} from "../../types/pagination.types";
+import type { RepositoryOperationOptions } from "../../types/operation.types";
 import { BaseQueryRepository } from "./BaseQueryRepository";
 
 export abstract class BasePaginatedRepository extends BaseQueryRepository {
@@ -16,46 +42,119 @@ export abstract class BasePaginatedRepository extends BaseQueryRepository {
    * Execute paginated query with cursor support
    *
    * Generic helper for cursor-based pagination queries.
-   * Automatically handles cursor document fetching and result building.
+   * Results are ordered by the given fields plus document ID as a tiebreaker.
+   * Cursor tokens continue from stored values without reading the cursor document;
+   * plain document ID cursors are still supported (one extra tracked read).
+   * With direction 'backward' the page before the cursor is fetched
+   * (endBefore + limitToLast); documents stay in query order.
+   * Soft-deleted documents are excluded in soft-delete mode.
+   * Collection group queries are ordered by document path; their legacy
+   * cursors must be document paths.
    *
-   * @param collectionName - Firestore collection name
+   * @param source - Collection path, or { collectionGroup: id } for a collection group query
    * @param params - Pagination parameters
-   * @param orderByField - Field to order by (default: "createdAt")
+   * @param orderByField - Field or fields to order by (default: "createdAt")
    * @param orderDirection - Sort direction (default: "desc")
-   * @returns QueryDocumentSnapshot array (limit + 1 for hasMore detection)
+   * @param options - Operation options
+   * @returns QueryDocumentSnapshot array (limit + 1 for hasMore/hasPrevious detection)
    */
   protected async executePaginatedQuery(
-    collectionName: string,
+    source: PaginationSource,
     params?: PaginationParams,
-    orderByField: string = "createdAt",
+    orderByField: string | string[] = "createdAt",
     orderDirection: "asc" | "desc" = "desc",
+    options: RepositoryOperationOptions = {},
   ): Promise<QueryDocumentSnapshot<DocumentData>[]> {
     const db = this.getDbOrThrow();
     const helper = new PaginationHelper();
     const pageLimit = helper.getLimit(params);
     const fetchLimit = helper.getFetchLimit(pageLimit);
+    const orderByFields = Array.isArray(orderByField) ? orderByField : [orderByField];
 
-    const collectionRef = collection(db, collectionName);
-    let q = query(
-      collectionRef,
-      orderBy(orderByField, orderDirection),
-      limit(fetchLimit),
-    );
+    const group = typeof source === "string" ? null : source.collectionGroup;
+    const collectionName = group ?? (source as string);
+    const collectionRef = group ? collectionGroup(db, group) : collection(db, collectionName);
+    const tombstoneField = this.getTombstoneField(options);
+    const baseConstraints: QueryConstraint[] = [
+      ...(tombstoneField ? [where(tombstoneField, "==", null)] : []),
+      ...orderByFields.map((field) => orderBy(field, orderDirection)),
+      orderBy(documentId(), orderDirection),
+    ];
+    // Backward pages take the last items before the cursor, still in query order
+    const backward = helper.isBackward(params);
+    const limitConstraint = backward ? limitToLast(fetchLimit) : limit(fetchLimit);
+    const cursorConstraint = backward ? endBefore : startAfter;
+    let q = query(collectionRef, ...baseConstraints, limitConstraint);
+    let cursorKey: PageQueryKeyOptions["cursor"];
 
     if (helper.hasCursor(params)) {
-      const cursorDoc = await getDoc(doc(db, collectionName, params!.cursor!));
-      if (cursorDoc.exists()) {
+      const cursor = decodeCursor(params!.cursor);
+      if (cursor && cursor.values.length === orderByFields.length) {
+        const cursorId = group ? cursor.documentPath ?? cursor.documentId : cursor.documentId;
         q = query(
           collectionRef,
-          orderBy(orderByField, orderDirection),
-          startAfter(cursorDoc),
-          limit(fetchLimit),
+          ...baseConstraints,
+          cursorConstraint(...cursor.values, cursorId),
+          limitConstraint,
+        );
+        cursorKey = {
+          values: cursor.values,
+          documentPath: group ? cursorId : `${collectionName}/${cursorId}`,
+        };
+      } else {
+        // Legacy document ID cursor
+        const cursorDoc = await this.executeOperation(
+          {
+            type: "read",
+            collection: collectionName,
+            documentId: params!.cursor!,
+            count: 1,
+            cached: (result) => result.metadata.fromCache,
+          },
+          () =>
+            getDoc(group ? doc(db, params!.cursor!) : doc(db, collectionName, params!.cursor!)),
+          options,
         );
+        if (cursorDoc.exists()) {
+          q = query(
+            collectionRef,
+            ...baseConstraints,
+            cursorConstraint(cursorDoc),
+            limitConstraint,
+          );
+          cursorKey = {
+            values: orderByFields.map((field) => cursorDoc.get(field) as FilterValue),
+            documentPath: cursorDoc.ref.path,
+          };
+        }
       }
     }
 
-    const snapshot = await getDocs(q);
-    this.trackRead(collectionName, snapshot.docs.length, snapshot.metadata.fromCache);
+    const pageQuery = q;
+    const snapshot = await this.executeOperation(
+      {
+        type: "read",
+        collection: collectionName,
+        // Empty results are billed as one read
+        count: (result) => Math.max(1, result.docs.length),
+        cached: (result) => result.metadata.fromCache,
+        queryKey: getResultKey(
+          getPageQueryKey({
+            collection: collectionName,
+            collectionGroup: group !== null,
+            tombstoneField,
+            orderBy: orderByFields,
+            direction: orderDirection,
+            cursor: cursorKey,
+            backward,
+            limit: fetchLimit,
+          }),
+          "page",
+        ),
+      },
+      () => getDocs(pageQuery),
+      options,
+    );
     return snapshot.docs;
   }
 
@@ -64,27 +163,44 @@ export abstract class BasePaginatedRepository extends BaseQueryRepository {
    *
    * Helper to convert raw Firestore documents to paginated result.
    * Works with any document type and cursor extraction logic.
+   * Without getCursor, nextCursor/prevCursor are opaque tokens built from the
+   * order-by values of the last/first document (no extra read on the next page).
+   * Documents skipped by extractData (null) still count for hasMore/hasPrevious
+   * and cursors, so the next page continues after them.
    *
    * @param docs - Firestore document snapshots
    * @param params - Pagination parameters
    * @param extractData - Function to extract data from document
-   * @param getCursor - Function to extract cursor from data
+   * @param getCursor - Function to extract cursor from data (optional)
+   * @param orderByField - Field or fields the query is ordered by (default: "createdAt")
    * @returns Paginated result
    */
   protected buildPaginatedResult<T>(
     docs: QueryDocumentSnapshot<DocumentData>[],
     params: PaginationParams | undefined,
     extractData: (doc: QueryDocumentSnapshot<DocumentData>) => T | null,
-    getCursor: (item: T) => string,
+    getCursor?: (item: T) => string,
+    orderByField: string | string[] = "createdAt",
   ): PaginatedResult<T> {
-    const items: T[] = [];
-    for (const doc of docs) {
-      const data = extractData(doc);
-      if (data) items.push(data);
-    }
+    const orderByFields = Array.isArray(orderByField) ? orderByField : [orderByField];
+    const entries = docs.map((doc) => ({ item: extractData(doc), doc }));
 
-    const helper = new PaginationHelper<T>();
+    const helper = new PaginationHelper<{ item: T | null; doc: QueryDocumentSnapshot<DocumentData> }>();
     const pageLimit = helper.getLimit(params);
-    return helper.buildResult(items, pageLimit, getCursor);
+    const result = helper.buildResult(
+      entries,
+      pageLimit,
+      (entry) =>
+        getCursor && entry.item
+          ? getCursor(entry.item)
+          : createCursorFromSnapshot(entry.doc, orderByFields),
+      params,
+    );
+
+    const items: T[] = [];
+    for (const entry of result.items) {
+      if (entry.item) items.push(entry.item);
+    }
+    return { ...result, items };
   }
-}
\ No newline at end of file
+}
@@ -5,21 +5,200 @@
  * Extends BaseRepository with query-specific functionality.
  */
 
-import type { Firestore, Query, QueryDocumentSnapshot, DocumentData } from "firebase/firestore";
+import type {
+  AggregateSpec,
+  AggregateSpecData,
+  Firestore,
+  Query,
+  QueryDocumentSnapshot,
+  DocumentData,
+  DocumentReference,
+  DocumentSnapshot,
+  FirestoreDataConverter,
+  QuerySnapshot,
+  Transaction,
+  Unsubscribe,
+} from "firebase/firestore";
+import {
+  onSnapshot,
+  writeBatch,
+  doc,
+  getDocs,
+  runTransaction,
+  count,
+  getAggregateFromServer,
+} from "firebase/firestore";
 import { quotaTrackingMiddleware } from "../middleware/QuotaTrackingMiddleware";
-import { queryDeduplicationMiddleware } from "../middleware/QueryDeduplicationMiddleware";
+import { queryCacheMiddleware } from "../middleware/QueryCacheMiddleware";
+import { MiddlewarePipeline, middlewarePipeline } from "../middleware/MiddlewarePipeline";
+import type {
+  OperationContext,
+  OperationDescriptor,
+  OperationMiddleware,
+} from "../middleware/MiddlewarePipeline";
+import { quotaCircuitBreaker } from "../services/QuotaCircuitBreakerService";
+import { networkStateService } from "../services/NetworkStateService";
 import type { PaginationParams } from "../../types/pagination.types";
+import type { RepositoryOperationOptions } from "../../types/operation.types";
+import type { SoftDeleteOptions } from "../../types/repository.types";
+import type { OperationPriority } from "../../domain/entities/QuotaPolicy";
+import type { RetryPolicy } from "../../domain/entities/RetryPolicy";
+import type { RequestType } from "../../domain/entities/RequestLog";
+import {
+  FirebaseFirestoreQuotaError,
+  FirebaseFirestoreBatchError,
+} from "../../domain/errors/FirebaseFirestoreError";
+import { FIRESTORE_LIMITS } from "../../domain/constants/FirestoreLimits";
+import { chunkArray, runWithConcurrency } from "../../utils/batch.helper";
+import type {
+  BatchOperation,
+  BatchWriteOptions,
+  BatchWriteResult,
+  BatchChunkResult,
+} from "../../types/batch.types";
+import { getQuotaErrorMessage } from "../../utils/quota-error-detector.util";
+import { buildQuery } from "../../utils/query-builder";
+import type { QueryBuilderOptions } from "../../utils/query-builder";
+import { planFanOutQueries, mergeFanOutResults } from "../../utils/query-fan-out.util";
+import {
+  getAggregationKey,
+  getQueryKey,
+  getQueryKeyFromQuery,
+  getResultKey,
+} from "../../utils/query-fingerprint.util";
+import { QuotaCalculator } from "../../domain/services/QuotaCalculator";
+import { isDefaultFirestoreInstance } from "../../utils/firestore-instance.util";
 import { BaseRepository } from "./BaseRepository";
 
+/**
+ * Alias of the count() aggregation used for billing
+ */
+const INDEX_ENTRIES_ALIAS = "__indexEntries";
+
 export abstract class BaseQueryRepository extends BaseRepository {
+  private activeListeners = new Set<Unsubscribe>();
+  /**
+   * Writes in flight per document path; they resolve once the server
+   * acknowledges them, so these documents have pending writes
+   */
+  private pendingWrites = new Map<string, number>();
+
+  /**
+   * Middleware chain of this repository, inheriting the global pipeline
+   */
+  private readonly pipeline = new MiddlewarePipeline(middlewarePipeline);
+
+  /**
+   * Priority used when an operation does not specify one
+   * Override in subclasses, e.g. 'background' for analytics repositories
+   */
+  protected defaultPriority: OperationPriority = "normal";
+
+  /**
+   * Retry policy used when an operation does not specify one
+   * null disables retries (default)
+   */
+  protected retryPolicy: Partial<RetryPolicy> | null = null;
+
+  /**
+   * Soft-delete mode: queries of the repository exclude documents
+   * whose tombstone field is set (unless run with includeDeleted)
+   * null disables soft delete (default)
+   */
+  protected softDelete: SoftDeleteOptions | null = null;
+
+  /**
+   * Get tombstone field to exclude from queries, if any
+   *
+   * @param options - Operation options
+   * @returns Tombstone field, or undefined if deleted documents are included
+   */
+  protected getTombstoneField(options: RepositoryOperationOptions = {}): string | undefined {
+    return this.softDelete && !options.includeDeleted ? this.softDelete.field : undefined;
+  }
+
   /**
-   * Execute query with deduplication and quota tracking
-   * Prevents duplicate queries and tracks quota usage
+   * Throw if the quota circuit breaker blocks the operation
+   *
+   * @param type - Operation type
+   * @param collection - Collection name
+   * @param priority - Operation priority (defaults to defaultPriority)
+   * @throws FirebaseFirestoreQuotaBlockedError
+   */
+  protected assertQuotaAllows(
+    type: RequestType,
+    collection: string,
+    priority: OperationPriority = this.defaultPriority,
+  ): void {
+    quotaCircuitBreaker.assertAllowed(type, collection, priority, this.getInstanceKey());
+  }
+
+  /**
+   * Add middleware for operations of this repository
+   * Replaces a global middleware with the same name
+   *
+   * @param middleware - Operation middleware
+   * @returns Function removing the middleware
+   */
+  useMiddleware(middleware: OperationMiddleware): () => void {
+    return this.pipeline.use(middleware);
+  }
+
+  /**
+   * Skip a middleware (e.g. 'query-deduplication') for this repository
+   *
+   * @param name - Middleware name
+   */
+  disableMiddleware(name: string): void {
+    this.pipeline.disable(name);
+  }
+
+  /**
+   * Re-enable a middleware disabled for this repository
+   *
+   * @param name - Middleware name
+   */
+  enableMiddleware(name: string): void {
+    this.pipeline.enable(name);
+  }
+
+  /**
+   * Create middleware context for an operation
+   * Query keys of other than the default instance carry the instance key
+   *
+   * @param operation - Operation descriptor
+   * @param options - Operation options
+   */
+  protected createOperationContext<T>(
+    operation: OperationDescriptor<T>,
+    options: RepositoryOperationOptions = {},
+  ): OperationContext {
+    const instance = this.getInstanceKey();
+    return {
+      ...operation,
+      queryKey:
+        operation.queryKey && !isDefaultFirestoreInstance(instance)
+          ? { ...operation.queryKey, instance }
+          : operation.queryKey,
+      repository: this.constructor.name,
+      instance,
+      priority: options.priority ?? this.defaultPriority,
+      options,
+      state: {},
+    } as OperationContext;
+  }
+
+  /**
+   * Execute query through the middleware pipeline
+   * (caching, deduplication and quota tracking by default).
+   * Queries are keyed by their canonical fingerprint and converter; the result
+   * is only shared with other executeQuery calls, not with fan-out or page reads.
    *
    * @param collection - Collection name
    * @param query - Firestore query
    * @param queryFn - Function to execute the query
    * @param cached - Whether the result is from cache
+   * @param options - Operation options
    * @returns Query result
    */
   protected async executeQuery<T>(
@@ -27,40 +206,259 @@ export abstract class BaseQueryRepository extends BaseRepository {
     query: Query,
     queryFn: () => Promise<T>,
     cached: boolean = false,
+    options: RepositoryOperationOptions = {},
   ): Promise<T> {
-    const queryKey = {
-      collection,
-      filters: query.toString(),
-      limit: undefined,
-      orderBy: undefined,
-    };
+    const context = this.createOperationContext(
+      {
+        type: "read",
+        collection,
+        count: 1,
+        cached,
+        queryKey: getResultKey(getQueryKeyFromQuery(query, collection), "custom", query.converter),
+      },
+      options,
+    );
+
+    return this.pipeline.execute(context, () => {
+      this.assertQuotaAllows("read", collection, context.priority);
+      return queryFn();
+    });
+  }
 
-    return queryDeduplicationMiddleware.deduplicate(queryKey, async () => {
-      return quotaTrackingMiddleware.trackOperation(
-        {
-          type: 'read',
-          collection,
-          count: 1,
-          cached,
-        },
-        queryFn,
+  /**
+   * Execute operation through the middleware pipeline
+   * Quota errors are converted to FirebaseFirestoreQuotaError,
+   * successful and failed operations are logged with timing,
+   * transient errors are retried when a retry policy applies
+   *
+   * @param operation - Operation descriptor
+   * @param operationFn - Function to execute the operation
+   * @param options - Operation options
+   * @returns Operation result
+   */
+  protected async executeOperation<T>(
+    operation: OperationDescriptor<T> & { type: RequestType },
+    operationFn: () => Promise<T>,
+    options: RepositoryOperationOptions = {},
+  ): Promise<T> {
+    const retry = options.retry ?? this.retryPolicy ?? false;
+    const context = this.createOperationContext(operation, options);
+    const pendingPaths =
+      (operation.type === "write" || operation.type === "delete") && operation.documentId
+        ? [`${operation.collection}/${operation.documentId}`]
+        : [];
+
+    return this.trackPendingWrites(pendingPaths, () =>
+      this.pipeline.execute(context, () => {
+        this.assertQuotaAllows(operation.type, operation.collection, context.priority);
+        if (retry === false) {
+          return this.executeWithQuotaHandling(operationFn);
+        }
+        return this.executeWithRetry(
+          operationFn,
+          {
+            type: operation.type,
+            collection: operation.collection,
+            documentId: operation.documentId,
+          },
+          retry === true ? {} : retry,
+        );
+      }),
+    );
+  }
+
+  /**
+   * Run a Firestore transaction through the middleware pipeline
+   * Document reads are tracked as they happen (retried attempts are billed too),
+   * writes and deletes per collection once the transaction commits.
+   *
+   * @param collection - Collection the transaction is logged under
+   * @param updateFunction - Transaction body (may run more than once)
+   * @param options - Operation options
+   * @returns Result of the transaction body
+   */
+  protected async executeTransaction<R>(
+    collection: string,
+    updateFunction: (transaction: Transaction) => Promise<R>,
+    options: RepositoryOperationOptions = {},
+  ): Promise<R> {
+    const context = this.createOperationContext(
+      { type: "transaction", collection, count: 0 },
+      options,
+    );
+    const writes = new Map<string, number>();
+    const deletes = new Map<string, number>();
+
+    return this.pipeline.execute(context, async () => {
+      this.assertQuotaAllows("write", collection, context.priority);
+      const db = this.getDbOrThrow();
+      const result = await this.executeWithQuotaHandling(() =>
+        runTransaction(db, (transaction) => {
+          // Only the writes of the committed attempt count
+          writes.clear();
+          deletes.clear();
+          return updateFunction(this.createTrackedTransaction(transaction, writes, deletes));
+        }),
       );
+      writes.forEach((count, path) => this.trackWrite(path, undefined, count));
+      deletes.forEach((count, path) => this.trackDelete(path, undefined, count));
+      return result;
     });
   }
 
+  /**
+   * Wrap transaction to count reads, writes and deletes per collection
+   */
+  private createTrackedTransaction(
+    transaction: Transaction,
+    writes: Map<string, number>,
+    deletes: Map<string, number>,
+  ): Transaction {
+    const record = (counts: Map<string, number>, ref: DocumentReference<unknown, DocumentData>) => {
+      counts.set(ref.parent.path, (counts.get(ref.parent.path) ?? 0) + 1);
+    };
+    const delegate = transaction as unknown as Record<string, (...args: unknown[]) => unknown>;
+
+    const tracked = {
+      get: async (ref: DocumentReference<unknown, DocumentData>) => {
+        const snapshot = await transaction.get(ref);
+        this.trackRead(ref.parent.path, 1, false);
+        return snapshot;
+      },
+      set: (ref: DocumentReference<unknown, DocumentData>, ...args: unknown[]) => {
+        record(writes, ref);
+        delegate.set.call(transaction, ref, ...args);
+        return tracked;
+      },
+      update: (ref: DocumentReference<unknown, DocumentData>, ...args: unknown[]) => {
+        record(writes, ref);
+        delegate.update.call(transaction, ref, ...args);
+        return tracked;
+      },
+      delete: (ref: DocumentReference<unknown, DocumentData>) => {
+        record(deletes, ref);
+        transaction.delete(ref);
+        return tracked;
+      },
+    };
+    return tracked as unknown as Transaction;
+  }
+
+  /**
+   * Execute query built from options, fanning out if it exceeds Firestore limits
+   * Oversized 'in' / 'array-contains-any' filters and OR groups are split
+   * into parallel queries; results are de-duplicated by document path and
+   * sorted and limited on the client. Reads are tracked per executed query.
+   * The whole fan-out is cached and deduplicated as one query per converter.
+   * Soft-deleted documents are excluded in soft-delete mode.
+   *
+   * @param queryOptions - Query builder options
+   * @param converter - Data converter applied to every query (optional)
+   * @param options - Operation options
+   * @returns Matching documents
+   */
+  protected async executeFanOutQuery<T = DocumentData>(
+    queryOptions: QueryBuilderOptions,
+    converter?: FirestoreDataConverter<T, DocumentData>,
+    options: RepositoryOperationOptions = {},
+  ): Promise<QueryDocumentSnapshot<T>[]> {
+    queryOptions = { ...queryOptions, tombstoneField: this.getTombstoneField(options) };
+    const plans = planFanOutQueries(queryOptions);
+    const result = await this.executeOperation(
+      {
+        type: "read",
+        collection: queryOptions.collectionName,
+        count: (snapshots) =>
+          snapshots
+            .filter((snapshot) => !snapshot.metadata.fromCache)
+            // Empty results are still billed as one read per query
+            .reduce((sum, snapshot) => sum + Math.max(1, snapshot.docs.length), 0),
+        cached: (snapshots) => snapshots.every((snapshot) => snapshot.metadata.fromCache),
+        queryKey: getResultKey(getQueryKey(queryOptions), "fan-out", converter),
+      },
+      () => {
+        const db = this.getDbOrThrow();
+        return Promise.all(
+          plans.map((plan) => {
+            const q = buildQuery(db, plan);
+            return getDocs(converter ? q.withConverter(converter) : (q as Query<T>));
+          }),
+        );
+      },
+      options,
+    );
+
+    if (result.length === 1) {
+      return result[0].docs;
+    }
+    return mergeFanOutResults(
+      result.map((snapshot) => snapshot.docs),
+      queryOptions,
+    );
+  }
+
+  /**
+   * Execute aggregation query (count, sum, average) built from options
+   * Billed like Firestore bills aggregations: one read per batch of up to
+   * 1000 matched index entries, minimum one read. Matches are counted with
+   * an extra count() aggregation, so the spec may hold at most 4 aggregations.
+   * Cached and deduplicated like ordinary queries.
+   * Filters beyond Firestore's disjunction limit are rejected (results of a
+   * fan-out cannot be combined). Soft-deleted documents are excluded in soft-delete mode.
+   *
+   * @param queryOptions - Query builder options
+   * @param spec - Aggregations by alias, e.g. { total: sum('amount') }
+   * @param options - Operation options
+   * @returns Aggregation results by alias
+   */
+  protected async executeAggregateQuery<S extends AggregateSpec>(
+    queryOptions: QueryBuilderOptions,
+    spec: S,
+    options: RepositoryOperationOptions = {},
+  ): Promise<AggregateSpecData<S>> {
+    queryOptions = { ...queryOptions, tombstoneField: this.getTombstoneField(options) };
+    const snapshot = await this.executeOperation(
+      {
+        type: "read",
+        collection: queryOptions.collectionName,
+        count: (result) =>
+          QuotaCalculator.getAggregationReadCount(result.data()[INDEX_ENTRIES_ALIAS] as number),
+        cached: false,
+        queryKey: { ...getQueryKey(queryOptions), aggregation: getAggregationKey(spec) },
+      },
+      () =>
+        getAggregateFromServer(buildQuery(this.getDbOrThrow(), queryOptions), {
+          ...spec,
+          [INDEX_ENTRIES_ALIAS]: count(),
+        }),
+      options,
+    );
+
+    const { [INDEX_ENTRIES_ALIAS]: _indexEntries, ...data } = snapshot.data();
+    return data as AggregateSpecData<S>;
+  }
+
   /**
    * Track read operation
    *
    * @param collection - Collection name
    * @param count - Number of documents read
    * @param cached - Whether the result is from cache
+   * @param queryFingerprint - Canonical query fingerprint (optional)
    */
   protected trackRead(
     collection: string,
     count: number = 1,
     cached: boolean = false,
+    queryFingerprint?: string,
   ): void {
-    quotaTrackingMiddleware.trackRead(collection, count, cached);
+    quotaTrackingMiddleware.trackRead(
+      collection,
+      count,
+      cached,
+      queryFingerprint,
+      this.getInstanceKey(),
+    );
   }
 
   /**
@@ -75,7 +473,8 @@ export abstract class BaseQueryRepository extends BaseRepository {
     documentId?: string,
     count: number = 1,
   ): void {
-    quotaTrackingMiddleware.trackWrite(collection, documentId, count);
+    quotaTrackingMiddleware.trackWrite(collection, documentId, count, this.getInstanceKey());
+    queryCacheMiddleware.invalidateCollection(collection, this.getInstanceKey());
   }
 
   /**
@@ -90,6 +489,357 @@ export abstract class BaseQueryRepository extends BaseRepository {
     documentId?: string,
     count: number = 1,
   ): void {
-    quotaTrackingMiddleware.trackDelete(collection, documentId, count);
+    quotaTrackingMiddleware.trackDelete(collection, documentId, count, this.getInstanceKey());
+    queryCacheMiddleware.invalidateCollection(collection, this.getInstanceKey());
+  }
+
+  /**
+   * Write an unbounded list of operations in Firestore-legal batches
+   * Operations are split into chunks of at most 500, committed with bounded
+   * concurrency, and tracked per committed chunk. The quota circuit breaker is
+   * checked for every collection written or deleted from before the first commit.
+   *
+   * @param operations - Set, update and delete operations
+   * @param options - Batch options
+   * @returns Result with committed chunk details
+   * @throws FirebaseFirestoreBatchError if any chunk failed (carries the result)
+   */
+  protected async executeBatchWrite(
+    operations: BatchOperation[],
+    options: BatchWriteOptions = {},
+  ): Promise<BatchWriteResult> {
+    const chunkSize = Math.min(
+      options.chunkSize ?? FIRESTORE_LIMITS.MAX_BATCH_OPERATIONS,
+      FIRESTORE_LIMITS.MAX_BATCH_OPERATIONS,
+    );
+    const chunks = chunkArray(operations, chunkSize);
+    const chunkResults: BatchChunkResult[] = chunks.map((chunk, index) => ({
+      index,
+      startIndex: index * chunkSize,
+      operationCount: chunk.length,
+      status: "skipped",
+    }));
+
+    const buildResult = (): BatchWriteResult => ({
+      totalOperations: operations.length,
+      committedOperations: chunkResults
+        .filter((chunk) => chunk.status === "committed")
+        .reduce((sum, chunk) => sum + chunk.operationCount, 0),
+      chunks: chunkResults,
+      committedChunks: chunkResults.filter((c) => c.status === "committed").map((c) => c.index),
+      failedChunks: chunkResults.filter((c) => c.status === "failed").map((c) => c.index),
+      skippedChunks: chunkResults.filter((c) => c.status === "skipped").map((c) => c.index),
+    });
+
+    if (operations.length === 0) {
+      return buildResult();
+    }
+
+    const db = this.getDbOrThrow();
+    // Check every collection the batch writes to before committing any chunk
+    const checked = new Set<string>();
+    for (const operation of operations) {
+      const type = operation.type === "delete" ? "delete" : "write";
+      const key = `${type}:${operation.collection}`;
+      if (checked.has(key)) continue;
+      checked.add(key);
+      this.assertQuotaAllows(type, operation.collection, options.priority);
+    }
+
+    const retry = options.retry ?? this.retryPolicy ?? false;
+    let completedChunks = 0;
+
+    const tasks = chunks.map((chunk, index) => async (): Promise<boolean> => {
+      const chunkResult = chunkResults[index];
+      const commit = () => {
+        const batch = writeBatch(db);
+        for (const operation of chunk) {
+          const ref = doc(db, operation.collection, operation.id);
+          if (operation.type === "set") {
+            batch.set(ref, operation.data, { merge: operation.merge ?? false });
+          } else if (operation.type === "update") {
+            batch.update(ref, operation.data);
+          } else {
+            batch.delete(ref);
+          }
+        }
+        return batch.commit();
+      };
+
+      const context = this.createOperationContext(
+        { type: "batch", collection: chunk[0].collection, count: chunk.length },
+        options,
+      );
+
+      let shouldContinue = true;
+      try {
+        await this.trackPendingWrites(
+          chunk.map((operation) => `${operation.collection}/${operation.id}`),
+          () =>
+            this.pipeline.execute(context, () =>
+              retry === false
+                ? this.executeWithQuotaHandling(commit)
+                : this.executeWithRetry(
+                    commit,
+                    { type: "write", collection: chunk[0].collection },
+                    retry === true ? {} : retry,
+                  ),
+            ),
+        );
+        chunkResult.status = "committed";
+        this.trackBatchChunk(chunk);
+      } catch (error) {
+        chunkResult.status = "failed";
+        chunkResult.error = error instanceof Error ? error : new Error(String(error));
+        quotaTrackingMiddleware.trackError(
+          "write",
+          chunk[0].collection,
+          chunkResult.error.message,
+          undefined,
+          this.getInstanceKey(),
+        );
+        // Remaining chunks would fail as well once quota is exhausted
+        shouldContinue = !options.stopOnError && !this.isQuotaError(error);
+      }
+
+      completedChunks++;
+      options.onProgress?.({
+        completedChunks,
+        totalChunks: chunks.length,
+        committedOperations: buildResult().committedOperations,
+        totalOperations: operations.length,
+        failedChunks: chunkResults.filter((c) => c.status === "failed").length,
+      });
+      return shouldContinue;
+    });
+
+    await runWithConcurrency(tasks, options.concurrency ?? 1);
+
+    const result = buildResult();
+    if (result.failedChunks.length > 0) {
+      const firstFailure = chunkResults.find((c) => c.status === "failed");
+      throw new FirebaseFirestoreBatchError(
+        `Batch write failed: ${result.failedChunks.length} of ${chunks.length} chunks failed, ` +
+          `${result.committedOperations} of ${operations.length} operations committed`,
+        result,
+        firstFailure?.error,
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Track committed batch chunk per collection
+   */
+  private trackBatchChunk(chunk: BatchOperation[]): void {
+    const writes = new Map<string, number>();
+    const deletes = new Map<string, number>();
+    for (const operation of chunk) {
+      const counts = operation.type === "delete" ? deletes : writes;
+      counts.set(operation.collection, (counts.get(operation.collection) ?? 0) + 1);
+    }
+    writes.forEach((count, collection) => this.trackWrite(collection, undefined, count));
+    deletes.forEach((count, collection) => this.trackDelete(collection, undefined, count));
+  }
+
+  /**
+   * Subscribe to a document with quota tracking
+   * Each server snapshot counts as one read, cached and local write snapshots are free.
+   * The listener is unsubscribed automatically when the repository is destroyed.
+   *
+   * @param ref - Document reference
+   * @param onNext - Called with every snapshot
+   * @param onError - Called when the listener fails (quota errors are converted)
+   * @param options - Operation options
+   * @returns Unsubscribe function
+   */
+  protected subscribeToDocument<T = DocumentData>(
+    ref: DocumentReference<T>,
+    onNext: (snapshot: DocumentSnapshot<T>) => void,
+    onError?: (error: Error) => void,
+    options: RepositoryOperationOptions = {},
+  ): Unsubscribe {
+    const collection = ref.parent.path;
+    const context = this.createOperationContext(
+      { type: "listener", collection, documentId: ref.id, count: 0 },
+      options,
+    );
+    return this.pipeline.executeSync(context, () => {
+      this.assertQuotaAllows("listener", collection, context.priority);
+      return this.registerListener(
+        collection,
+        ref.id,
+        (handleError) =>
+          onSnapshot(
+            ref,
+            (snapshot) => {
+              if (!snapshot.metadata.fromCache && !snapshot.metadata.hasPendingWrites) {
+                this.trackRead(collection, 1, false);
+              }
+              networkStateService.trackSnapshot(this.getInstanceKey(), snapshot.metadata);
+              onNext(snapshot);
+            },
+            handleError,
+          ),
+        onError,
+      );
+    });
+  }
+
+  /**
+   * Subscribe to a query with quota tracking
+   * Each server snapshot counts its changed documents as reads (the first one
+   * at least 1, like an empty query), cached and local write snapshots are free.
+   * The listener is unsubscribed automatically when the repository is destroyed.
+   *
+   * @param collection - Collection name
+   * @param query - Firestore query
+   * @param onNext - Called with every snapshot
+   * @param onError - Called when the listener fails (quota errors are converted)
+   * @param options - Operation options
+   * @returns Unsubscribe function
+   */
+  protected subscribeToQuery<T = DocumentData>(
+    collection: string,
+    query: Query<T>,
+    onNext: (snapshot: QuerySnapshot<T>) => void,
+    onError?: (error: Error) => void,
+    options: RepositoryOperationOptions = {},
+  ): Unsubscribe {
+    const context = this.createOperationContext(
+      { type: "listener", collection, count: 0 },
+      options,
+    );
+    return this.pipeline.executeSync(context, () => {
+      this.assertQuotaAllows("listener", collection, context.priority);
+      let firstServerSnapshot = true;
+      return this.registerListener(
+        collection,
+        undefined,
+        (handleError) =>
+          onSnapshot(
+            query,
+            (snapshot) => {
+              if (!snapshot.metadata.fromCache && !snapshot.metadata.hasPendingWrites) {
+                const changedCount = snapshot.docChanges().length;
+                const readCount = firstServerSnapshot ? Math.max(1, changedCount) : changedCount;
+                firstServerSnapshot = false;
+                if (readCount > 0) {
+                  this.trackRead(collection, readCount, false);
+                }
+              }
+              networkStateService.trackSnapshot(this.getInstanceKey(), snapshot.metadata);
+              onNext(snapshot);
+            },
+            handleError,
+          ),
+        onError,
+      );
+    });
+  }
+
+  /**
+   * Get number of documents with writes through this repository
+   * not yet acknowledged by the server (hasPendingWrites)
+   */
+  getPendingWriteCount(): number {
+    return this.pendingWrites.size;
+  }
+
+  /**
+   * Count documents as pending until the write settles
+   */
+  private async trackPendingWrites<T>(paths: string[], writeFn: () => Promise<T>): Promise<T> {
+    for (const path of paths) {
+      this.pendingWrites.set(path, (this.pendingWrites.get(path) ?? 0) + 1);
+    }
+    try {
+      return await writeFn();
+    } finally {
+      for (const path of paths) {
+        const remaining = (this.pendingWrites.get(path) ?? 1) - 1;
+        if (remaining > 0) {
+          this.pendingWrites.set(path, remaining);
+        } else {
+          this.pendingWrites.delete(path);
+        }
+      }
+    }
+  }
+
+  /**
+   * Get number of active listeners
+   */
+  protected getActiveListenerCount(): number {
+    return this.activeListeners.size;
+  }
+
+  /**
+   * Register listener and log its lifecycle
+   */
+  private registerListener(
+    collection: string,
+    documentId: string | undefined,
+    subscribe: (handleError: (error: unknown) => void) => Unsubscribe,
+    onError?: (error: Error) => void,
+  ): Unsubscribe {
+    let active = true;
+    let unsubscribeFn: Unsubscribe | null = null;
+
+    const unsubscribe: Unsubscribe = () => {
+      if (!active) return;
+      active = false;
+      this.activeListeners.delete(unsubscribe);
+      unsubscribeFn?.();
+      quotaTrackingMiddleware.trackListener(
+        collection,
+        documentId,
+        'stop',
+        undefined,
+        this.getInstanceKey(),
+      );
+    };
+
+    const handleError = (error: unknown) => {
+      if (!active) return;
+      // Firestore terminates the listener after an error
+      active = false;
+      this.activeListeners.delete(unsubscribe);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      quotaTrackingMiddleware.trackListener(
+        collection,
+        documentId,
+        'error',
+        errorMessage,
+        this.getInstanceKey(),
+      );
+      const finalError = this.isQuotaError(error)
+        ? new FirebaseFirestoreQuotaError(getQuotaErrorMessage(), error)
+        : error instanceof Error
+          ? error
+          : new Error(errorMessage);
+      onError?.(finalError);
+    };
+
+    this.activeListeners.add(unsubscribe);
+    quotaTrackingMiddleware.trackListener(
+      collection,
+      documentId,
+      'start',
+      undefined,
+      this.getInstanceKey(),
+    );
+    unsubscribeFn = subscribe(handleError);
+    return unsubscribe;
+  }
+
+  /**
+   * Destroy repository, unsubscribing all active listeners
+   */
+  override destroy(): void {
+    for (const unsubscribe of Array.from(this.activeListeners)) {
+      unsubscribe();
+    }
+    super.destroy();
   }
-}
\ No newline at end of file
+}
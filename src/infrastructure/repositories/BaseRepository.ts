@@ -16,15 +16,50 @@
 
 import type { Firestore } from "firebase/firestore";
 import { getFirestore } from "../config/FirestoreClient";
+import {
+  getFirestoreInstanceKey,
+  isDefaultFirestoreInstance,
+} from "../../utils/firestore-instance.util";
+import type { FirestoreInstanceOptions } from "../../utils/firestore-instance.util";
 import {
   isQuotaError as checkQuotaError,
   getQuotaErrorMessage,
 } from "../../utils/quota-error-detector.util";
-import { FirebaseFirestoreQuotaError } from "../../domain/errors/FirebaseFirestoreError";
+import {
+  FirebaseFirestoreQuotaError,
+  FirebaseFirestoreRetryError,
+} from "../../domain/errors/FirebaseFirestoreError";
+import type { RetryAttempt, RetryPolicy } from "../../domain/entities/RetryPolicy";
+import type { RequestType } from "../../domain/entities/RequestLog";
+import { getErrorCode, getRetryDelay, resolveRetryPolicy, sleep } from "../../utils/retry.util";
+import { requestLoggerService } from "../services/RequestLoggerService";
+
+/**
+ * Operation described in retry attempt logs
+ */
+export interface RetryContext {
+  type: RequestType;
+  collection: string;
+  documentId?: string;
+}
 
 export class BaseRepository {
   private isDestroyed = false;
 
+  /**
+   * Firestore instance (app and database) the repository works on
+   * Defaults to the default app and database
+   */
+  protected firestoreInstance: FirestoreInstanceOptions = {};
+
+  /**
+   * Get key of the repository's Firestore instance, e.g. '[DEFAULT]/(default)'
+   * Quota metrics and request logs are kept per instance key
+   */
+  protected getInstanceKey(): string {
+    return getFirestoreInstanceKey(this.firestoreInstance);
+  }
+
   /**
    * Get Firestore database instance
    * Returns null if Firestore is not initialized (offline mode)
@@ -39,7 +74,7 @@ export class BaseRepository {
       }
       return null;
     }
-    return getFirestore();
+    return getFirestore(this.firestoreInstance);
   }
 
   /**
@@ -51,9 +86,14 @@ export class BaseRepository {
    * @throws Error if Firestore is not initialized
    */
   protected getDbOrThrow(): Firestore {
-    const db = getFirestore();
+    const db = getFirestore(this.firestoreInstance);
     if (!db) {
-      throw new Error("Firestore is not initialized. Please initialize Firebase App first.");
+      const instance = this.getInstanceKey();
+      throw new Error(
+        isDefaultFirestoreInstance(instance)
+          ? "Firestore is not initialized. Please initialize Firebase App first."
+          : `Firestore instance "${instance}" is not initialized. Please initialize its Firebase App first.`,
+      );
     }
     return db;
   }
@@ -66,7 +106,7 @@ export class BaseRepository {
    */
   protected isDbInitialized(): boolean {
     try {
-      const db = getFirestore();
+      const db = getFirestore(this.firestoreInstance);
       return db !== null;
     } catch {
       return false;
@@ -117,6 +157,76 @@ export class BaseRepository {
     }
   }
 
+  /**
+   * Wrap Firestore operation with retries and quota error handling
+   * Retries transient errors (unavailable, deadline-exceeded, failed-precondition,
+   * timeouts) with exponential backoff. Quota errors are never retried.
+   * Failed attempts that are retried are logged with their attempt number
+   * (as retried); the final outcome is logged by the quota tracking middleware.
+   *
+   * @param operation - Firestore operation to execute
+   * @param context - Operation description for logs
+   * @param policy - Retry policy overrides
+   * @returns Result of the operation
+   * @throws FirebaseFirestoreQuotaError if quota error occurs
+   * @throws FirebaseFirestoreRetryError if the operation failed after retrying
+   */
+  protected async executeWithRetry<T>(
+    operation: () => Promise<T>,
+    context: RetryContext,
+    policy: Partial<RetryPolicy> = {},
+  ): Promise<T> {
+    const attempts: RetryAttempt[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+      const startTime = Date.now();
+      try {
+        return await this.executeWithQuotaHandling(operation);
+      } catch (error) {
+        const effectivePolicy = resolveRetryPolicy(error, policy);
+        const willRetry =
+          effectivePolicy !== null && attempt < effectivePolicy.maxAttempts;
+        const delayMs = willRetry ? getRetryDelay(attempt, effectivePolicy!) : 0;
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+
+        attempts.push({
+          attempt,
+          error: errorMessage,
+          code: getErrorCode(error),
+          delayMs,
+          timestamp: startTime,
+        });
+
+        if (willRetry) {
+          requestLoggerService.logRequest({
+            type: context.type,
+            collection: context.collection,
+            documentId: context.documentId,
+            instance: this.getInstanceKey(),
+            success: false,
+            error: errorMessage,
+            cached: false,
+            duration: Date.now() - startTime,
+            attempt,
+            retried: true,
+          });
+          await sleep(delayMs);
+          continue;
+        }
+
+        if (attempt === 1 || this.isQuotaError(error)) {
+          throw error;
+        }
+
+        throw new FirebaseFirestoreRetryError(
+          `Firestore ${context.type} on "${context.collection}" failed after ${attempt} attempts: ${errorMessage}`,
+          attempts,
+          error,
+        );
+      }
+    }
+  }
+
   /**
    * Destroy repository and cleanup resources
    */
@@ -0,0 +1,909 @@
+/**
+ * Firestore Repository - Typed CRUD Operations
+ *
+ * Generic repository for a single collection with a typed data converter.
+ * Every operation applies quota error handling, quota tracking and
+ * request logging automatically. Documents are validated on read and
+ * before write when a validator is configured, and stamped with server
+ * createdAt/updatedAt timestamps when timestamps are enabled. In soft-delete
+ * mode deletes set a tombstone field and reads skip tombstoned documents.
+ *
+ * @example
+ * ```typescript
+ * import { FirestoreRepository } from '@umituz/react-native-firestore';
+ *
+ * const postRepository = new FirestoreRepository<Post>('posts', postConverter);
+ * const post = await postRepository.getById('abc');
+ * const id = await postRepository.create({ title: 'Hello', createdAt: now });
+ * const published = await postRepository.count({ baseFilters: [createEqualFilter('status', 'published')] });
+ *
+ * // Subcollection of a parent document
+ * const userPosts = new FirestoreRepository<Post>('users/{uid}/posts', postConverter, {
+ *   pathParams: { uid },
+ * });
+ * ```
+ */
+
+import type {
+  AggregateSpec,
+  AggregateSpecData,
+  CollectionReference,
+  DocumentReference,
+  DocumentSnapshot,
+  DocumentData,
+  FieldValue,
+  FirestoreDataConverter,
+  Unsubscribe,
+  UpdateData,
+} from "firebase/firestore";
+import {
+  collection,
+  doc,
+  getDoc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  count,
+  sum,
+  average,
+  query,
+  where,
+  limit,
+  orderBy,
+  startAfter,
+  documentId,
+  getDocs,
+  serverTimestamp,
+  Timestamp,
+} from "firebase/firestore";
+import { buildQuery } from "../../utils/query-builder";
+import type { QueryBuilderOptions } from "../../utils/query-builder";
+import type { PaginatedResult, PaginationParams } from "../../types/pagination.types";
+import type { RepositoryOperationOptions } from "../../types/operation.types";
+import type { BatchWriteOptions } from "../../types/batch.types";
+import type {
+  FirestoreRepositoryOptions,
+  SoftDeleteOptions,
+} from "../../types/repository.types";
+import type {
+  ValidationIssue,
+  ValidationOptions,
+  ValidationResult,
+} from "../../domain/entities/DocumentValidator";
+import {
+  FirebaseFirestoreError,
+  FirebaseFirestoreValidationError,
+} from "../../domain/errors/FirebaseFirestoreError";
+import { FIRESTORE_LIMITS } from "../../domain/constants/FirestoreLimits";
+import { getPageQueryKey, getQueryKey, getResultKey } from "../../utils/query-fingerprint.util";
+import {
+  isPathTemplate,
+  registerCollectionTemplate,
+  resolvePath,
+  validateCollectionPath,
+} from "../../utils/collection-path.util";
+import type { CollectionPath } from "../../utils/collection-path.util";
+import { formatValidationIssues } from "../../utils/schema-validator.util";
+import {
+  getTimestampFieldValues,
+  resolveTimestampOptions,
+  withTimestampFields,
+} from "../../utils/timestamp-fields.util";
+import type { ResolvedTimestampOptions } from "../../utils/timestamp-fields.util";
+import {
+  isSoftDeleted,
+  resolveSoftDeleteOptions,
+  withTombstoneField,
+} from "../../utils/soft-delete.util";
+import { BasePaginatedRepository } from "./BasePaginatedRepository";
+
+export class FirestoreRepository<T> extends BasePaginatedRepository {
+  /**
+   * Resolved collection path, e.g. 'users/abc/posts'
+   */
+  protected readonly collectionName: string;
+  /**
+   * Collection path template, e.g. 'users/{uid}/posts' (same as collectionName for plain paths)
+   */
+  protected readonly collectionTemplate: string;
+  protected readonly validation: ValidationOptions<T> | null;
+  protected readonly timestamps: ResolvedTimestampOptions | null;
+  private readonly dataConverter: FirestoreDataConverter<T, DocumentData>;
+
+  /**
+   * @param collectionPath - Collection path or template (e.g. 'posts', 'users/{uid}/posts')
+   * @param converter - Converter between app model and Firestore data
+   * @param options - Repository options (path parameters, Firestore instance, validation, timestamps, soft delete)
+   * @throws FirebaseFirestorePathError if the path is not a collection or a parameter is missing
+   */
+  constructor(
+    collectionPath: string | CollectionPath,
+    protected readonly converter: FirestoreDataConverter<T, DocumentData>,
+    options: FirestoreRepositoryOptions<T> = {},
+  ) {
+    super();
+    this.collectionTemplate =
+      typeof collectionPath === "string" ? collectionPath : collectionPath.template;
+    this.collectionName = validateCollectionPath(
+      isPathTemplate(this.collectionTemplate)
+        ? resolvePath(this.collectionTemplate, options.pathParams ?? {})
+        : this.collectionTemplate,
+    );
+    registerCollectionTemplate(this.collectionTemplate);
+    this.firestoreInstance = options.instance ?? {};
+    this.validation = options.validation ?? null;
+    this.timestamps = resolveTimestampOptions(options.timestamps);
+    this.softDelete = resolveSoftDeleteOptions(options.softDelete);
+
+    let dataConverter = converter;
+    if (this.timestamps) {
+      dataConverter = withTimestampFields(dataConverter, this.timestamps);
+    }
+    if (this.softDelete) {
+      dataConverter = withTombstoneField(dataConverter, this.softDelete.field);
+    }
+    this.dataConverter = dataConverter;
+  }
+
+  /**
+   * Get typed collection reference
+   * Sets through it stamp timestamp fields, if enabled
+   */
+  protected getCollectionRef(): CollectionReference<T, DocumentData> {
+    return collection(this.getDbOrThrow(), this.collectionName).withConverter(
+      this.dataConverter,
+    );
+  }
+
+  /**
+   * Get typed document reference
+   * Sets through it stamp timestamp fields, if enabled
+   *
+   * @param id - Document ID
+   */
+  protected getDocRef(id: string): DocumentReference<T, DocumentData> {
+    return doc(this.getDbOrThrow(), this.collectionName, id).withConverter(
+      this.dataConverter,
+    );
+  }
+
+  /**
+   * Get serverTimestamp() values of enabled timestamp fields
+   * Add them to writes that bypass the converter (e.g. transaction.update)
+   *
+   * @param operation - Kind of write
+   * @returns Fields to write (empty if timestamps are disabled)
+   */
+  protected getTimestampFields(operation: "create" | "update"): DocumentData {
+    return this.timestamps ? getTimestampFieldValues(this.timestamps, operation) : {};
+  }
+
+  /**
+   * Get document by ID
+   *
+   * @param id - Document ID
+   * @param options - Operation options
+   * @returns Document data or null if it does not exist (or is soft-deleted)
+   */
+  async getById(
+    id: string,
+    options?: RepositoryOperationOptions,
+  ): Promise<T | null> {
+    const snapshot = await this.executeOperation(
+      {
+        type: "read",
+        collection: this.collectionName,
+        documentId: id,
+        count: 1,
+        cached: (result) => result.metadata.fromCache,
+      },
+      () => getDoc(this.getDocRef(id)),
+      options,
+    );
+    if (!snapshot.exists() || this.isHiddenTombstone(snapshot, options)) {
+      return null;
+    }
+    return this.validateRead(id, snapshot.data());
+  }
+
+  /**
+   * Get documents matching query options
+   * Filters beyond Firestore's disjunction limit are fanned out into parallel queries
+   *
+   * @param queryOptions - Query builder options (collection name is implied)
+   * @param options - Operation options
+   * @returns Matching documents
+   */
+  async getMany(
+    queryOptions: Omit<QueryBuilderOptions, "collectionName"> = {},
+    options?: RepositoryOperationOptions,
+  ): Promise<T[]> {
+    const docs = await this.executeFanOutQuery(
+      { ...queryOptions, collectionName: this.collectionName },
+      this.dataConverter,
+      options,
+    );
+    const items: T[] = [];
+    for (const docSnap of docs) {
+      const item = this.validateRead(docSnap.id, docSnap.data());
+      if (item !== null) {
+        items.push(item);
+      }
+    }
+    return items;
+  }
+
+  /**
+   * Get a page of documents ordered by the given fields
+   * Cursors are opaque tokens (see executePaginatedQuery)
+   *
+   * @param params - Pagination parameters
+   * @param orderByField - Field or fields to order by (default: "createdAt")
+   * @param orderDirection - Sort direction (default: "desc")
+   * @param options - Operation options
+   * @returns Page of valid documents
+   */
+  async getPage(
+    params?: PaginationParams,
+    orderByField: string | string[] = "createdAt",
+    orderDirection: "asc" | "desc" = "desc",
+    options?: RepositoryOperationOptions,
+  ): Promise<PaginatedResult<T>> {
+    const docs = await this.executePaginatedQuery(
+      this.collectionName,
+      params,
+      orderByField,
+      orderDirection,
+      options,
+    );
+    return this.buildPaginatedResult(
+      docs,
+      params,
+      (docSnap) => this.validateRead(docSnap.id, this.dataConverter.fromFirestore(docSnap)),
+      undefined,
+      orderByField,
+    );
+  }
+
+  /**
+   * Listen to a document
+   * Validation errors of the 'throw' read policy go to onError; the listener stays active.
+   *
+   * @param id - Document ID
+   * @param onNext - Called with the document, or null if it does not exist (or is soft-deleted or skipped)
+   * @param onError - Called when the listener fails or a snapshot is invalid
+   * @param options - Operation options
+   * @returns Unsubscribe function
+   */
+  subscribe(
+    id: string,
+    onNext: (item: T | null) => void,
+    onError?: (error: Error) => void,
+    options?: RepositoryOperationOptions,
+  ): Unsubscribe {
+    return this.subscribeToDocument(
+      this.getDocRef(id),
+      (snapshot) => {
+        let item: T | null;
+        try {
+          item = snapshot.exists() && !this.isHiddenTombstone(snapshot, options)
+            ? this.validateRead(id, snapshot.data())
+            : null;
+        } catch (error) {
+          onError?.(error as Error);
+          return;
+        }
+        onNext(item);
+      },
+      onError,
+      options,
+    );
+  }
+
+  /**
+   * Listen to documents matching query options
+   * Listeners are not fanned out: filters must be within Firestore's limits.
+   * Validation errors of the 'throw' read policy go to onError; the listener stays active.
+   *
+   * @param queryOptions - Query builder options (collection name is implied)
+   * @param onNext - Called with the valid matching documents
+   * @param onError - Called when the listener fails or a snapshot is invalid
+   * @param options - Operation options
+   * @returns Unsubscribe function
+   * @throws FirebaseFirestoreQueryError if the filters exceed Firestore limits
+   */
+  subscribeToMany(
+    queryOptions: Omit<QueryBuilderOptions, "collectionName">,
+    onNext: (items: T[]) => void,
+    onError?: (error: Error) => void,
+    options?: RepositoryOperationOptions,
+  ): Unsubscribe {
+    const q = buildQuery(this.getDbOrThrow(), {
+      ...queryOptions,
+      collectionName: this.collectionName,
+      tombstoneField: this.getTombstoneField(options),
+    }).withConverter(this.dataConverter);
+    return this.subscribeToQuery(
+      this.collectionName,
+      q,
+      (snapshot) => {
+        const items: T[] = [];
+        try {
+          for (const docSnap of snapshot.docs) {
+            const item = this.validateRead(docSnap.id, docSnap.data());
+            if (item !== null) {
+              items.push(item);
+            }
+          }
+        } catch (error) {
+          onError?.(error as Error);
+          return;
+        }
+        onNext(items);
+      },
+      onError,
+      options,
+    );
+  }
+
+  /**
+   * Count documents matching query options without reading them
+   * Billed one read per 1000 matches (minimum one)
+   *
+   * @param queryOptions - Query builder options (collection name is implied)
+   * @param options - Operation options
+   * @returns Number of matching documents
+   */
+  async count(
+    queryOptions: Omit<QueryBuilderOptions, "collectionName"> = {},
+    options?: RepositoryOperationOptions,
+  ): Promise<number> {
+    const data = await this.aggregate({ count: count() }, queryOptions, options);
+    return data.count;
+  }
+
+  /**
+   * Sum a numeric field over documents matching query options
+   * Non-numeric values are ignored
+   *
+   * @param field - Field to sum
+   * @param queryOptions - Query builder options (collection name is implied)
+   * @param options - Operation options
+   * @returns Sum (0 if nothing matches)
+   */
+  async sum(
+    field: string,
+    queryOptions: Omit<QueryBuilderOptions, "collectionName"> = {},
+    options?: RepositoryOperationOptions,
+  ): Promise<number> {
+    const data = await this.aggregate({ sum: sum(field) }, queryOptions, options);
+    return data.sum;
+  }
+
+  /**
+   * Average a numeric field over documents matching query options
+   * Non-numeric values are ignored
+   *
+   * @param field - Field to average
+   * @param queryOptions - Query builder options (collection name is implied)
+   * @param options - Operation options
+   * @returns Average, or null if no numeric values match
+   */
+  async average(
+    field: string,
+    queryOptions: Omit<QueryBuilderOptions, "collectionName"> = {},
+    options?: RepositoryOperationOptions,
+  ): Promise<number | null> {
+    const data = await this.aggregate({ average: average(field) }, queryOptions, options);
+    return data.average;
+  }
+
+  /**
+   * Run several aggregations in one query (at most 4)
+   *
+   * @param spec - Aggregations by alias, e.g. { total: sum('amount'), posts: count() }
+   * @param queryOptions - Query builder options (collection name is implied)
+   * @param options - Operation options
+   * @returns Aggregation results by alias
+   */
+  async aggregate<S extends AggregateSpec>(
+    spec: S,
+    queryOptions: Omit<QueryBuilderOptions, "collectionName"> = {},
+    options?: RepositoryOperationOptions,
+  ): Promise<AggregateSpecData<S>> {
+    return this.executeAggregateQuery(
+      { ...queryOptions, collectionName: this.collectionName },
+      spec,
+      options,
+    );
+  }
+
+  /**
+   * Create document with auto-generated ID
+   *
+   * @param data - Document data
+   * @param options - Operation options
+   * @returns Created document ID
+   */
+  async create(
+    data: T,
+    options?: RepositoryOperationOptions,
+  ): Promise<string> {
+    const validData = this.validateWrite(data);
+    // Generate the ID up front so the write is tracked per document
+    const ref = doc(this.getCollectionRef());
+    await this.executeOperation(
+      {
+        type: "write",
+        collection: this.collectionName,
+        documentId: ref.id,
+        count: 1,
+      },
+      () => setDoc(ref, validData),
+      options,
+    );
+    return ref.id;
+  }
+
+  /**
+   * Create or overwrite document with given ID
+   * Overwriting resets createdAt if timestamps are enabled (use upsert to keep it)
+   *
+   * @param id - Document ID
+   * @param data - Document data
+   * @param options - Operation options
+   */
+  async set(
+    id: string,
+    data: T,
+    options?: RepositoryOperationOptions,
+  ): Promise<void> {
+    const validData = this.validateWrite(data, id);
+    await this.executeOperation(
+      {
+        type: "write",
+        collection: this.collectionName,
+        documentId: id,
+        count: 1,
+      },
+      () => setDoc(this.getDocRef(id), validData),
+      options,
+    );
+  }
+
+  /**
+   * Update fields of an existing document
+   * Fails if the document does not exist
+   *
+   * @param id - Document ID
+   * @param data - Fields to update
+   * @param options - Operation options
+   */
+  async update(
+    id: string,
+    data: Partial<T>,
+    options?: RepositoryOperationOptions,
+  ): Promise<void> {
+    const validData = this.validatePartialWrite(data, id);
+    await this.executeOperation(
+      {
+        type: "write",
+        collection: this.collectionName,
+        documentId: id,
+        count: 1,
+      },
+      () =>
+        updateDoc(this.getDocRef(id), {
+          ...validData,
+          ...this.getTimestampFields("update"),
+        } as UpdateData<DocumentData>),
+      options,
+    );
+  }
+
+  /**
+   * Merge fields into document, creating it if it does not exist
+   * Stamps updatedAt if timestamps are enabled. With a createdAt field or in
+   * soft-delete mode the document is read in a transaction first: a new document
+   * gets createdAt and the null tombstone like a create, an existing one without
+   * the tombstone field gets it. Soft-deleted documents stay deleted.
+   *
+   * That read is billed and tracked like any other document read, and
+   * transactions need the server: while offline this upsert rejects with
+   * 'unavailable' instead of being applied locally. Use set or update for
+   * writes that must work offline.
+   *
+   * @param id - Document ID
+   * @param data - Fields to merge
+   * @param options - Operation options
+   */
+  async upsert(
+    id: string,
+    data: Partial<T>,
+    options?: RepositoryOperationOptions,
+  ): Promise<void> {
+    const validData = this.validatePartialWrite(data, id);
+    if (this.timestamps?.createdAt || this.softDelete) {
+      // A merge cannot tell whether it creates the document
+      const tombstoneField = this.softDelete?.field;
+      await this.executeTransaction(
+        this.collectionName,
+        async (transaction) => {
+          const ref = this.getDocRef(id);
+          const snapshot = await transaction.get(ref);
+          if (!snapshot.exists()) {
+            // Full set stamps createdAt and the tombstone
+            transaction.set(ref, validData as T);
+          } else if (tombstoneField && snapshot.get(tombstoneField) === undefined) {
+            transaction.set(
+              doc(this.getDbOrThrow(), this.collectionName, id),
+              { ...this.dataConverter.toFirestore(validData, { merge: true }), [tombstoneField]: null },
+              { merge: true },
+            );
+          } else {
+            transaction.set(ref, validData, { merge: true });
+          }
+        },
+        options,
+      );
+      return;
+    }
+    await this.executeOperation(
+      {
+        type: "write",
+        collection: this.collectionName,
+        documentId: id,
+        count: 1,
+      },
+      () => setDoc(this.getDocRef(id), validData, { merge: true }),
+      options,
+    );
+  }
+
+  /**
+   * Delete document
+   * In soft-delete mode the tombstone field is set instead (tracked as a write)
+   *
+   * @param id - Document ID
+   * @param options - Operation options
+   */
+  async delete(
+    id: string,
+    options?: RepositoryOperationOptions,
+  ): Promise<void> {
+    if (this.softDelete) {
+      await this.writeTombstone(id, serverTimestamp(), options);
+      return;
+    }
+    await this.hardDelete(id, options);
+  }
+
+  /**
+   * Permanently delete document, also in soft-delete mode
+   *
+   * @param id - Document ID
+   * @param options - Operation options
+   */
+  async hardDelete(
+    id: string,
+    options?: RepositoryOperationOptions,
+  ): Promise<void> {
+    await this.executeOperation(
+      {
+        type: "delete",
+        collection: this.collectionName,
+        documentId: id,
+        count: 1,
+      },
+      () => deleteDoc(this.getDocRef(id)),
+      options,
+    );
+  }
+
+  /**
+   * Restore soft-deleted document
+   *
+   * @param id - Document ID
+   * @param options - Operation options
+   * @throws FirebaseFirestoreError if soft delete is not enabled
+   */
+  async restore(
+    id: string,
+    options?: RepositoryOperationOptions,
+  ): Promise<void> {
+    await this.writeTombstone(id, null, options);
+  }
+
+  /**
+   * Write the null tombstone to documents that lack the tombstone field
+   * Queries in soft-delete mode only return documents with the field, so run
+   * this once after enabling soft delete on a collection with existing documents
+   * (or after other clients wrote without it). Reads the whole collection in pages
+   * of up to 500 documents; reads and batched updates are quota-tracked.
+   *
+   * @param options - Batch options
+   * @returns Number of updated documents
+   * @throws FirebaseFirestoreError if soft delete is not enabled
+   * @throws FirebaseFirestoreBatchError if a batch failed
+   */
+  async backfillTombstones(options: BatchWriteOptions = {}): Promise<number> {
+    const field = this.requireSoftDelete().field;
+    const pageSize = FIRESTORE_LIMITS.MAX_BATCH_OPERATIONS;
+    let lastId: string | null = null;
+    let updated = 0;
+
+    for (;;) {
+      const constraints = [
+        orderBy(documentId()),
+        ...(lastId !== null ? [startAfter(lastId)] : []),
+        limit(pageSize),
+      ];
+      const pageQuery = query(collection(this.getDbOrThrow(), this.collectionName), ...constraints);
+      const snapshot = await this.executeOperation(
+        {
+          type: "read",
+          collection: this.collectionName,
+          // Empty results are still billed as one read
+          count: (result) => Math.max(1, result.docs.length),
+          cached: (result) => result.metadata.fromCache,
+          queryKey: getResultKey(
+            getPageQueryKey({
+              collection: this.collectionName,
+              orderBy: [],
+              direction: "asc",
+              cursor:
+                lastId !== null
+                  ? { values: [], documentPath: `${this.collectionName}/${lastId}` }
+                  : undefined,
+              limit: pageSize,
+            }),
+            "page",
+          ),
+        },
+        () => getDocs(pageQuery),
+        { ...options, cache: false },
+      );
+
+      const missing = snapshot.docs.filter((docSnap) => docSnap.get(field) === undefined);
+      if (missing.length > 0) {
+        await this.executeBatchWrite(
+          missing.map((docSnap) => ({
+            type: "update" as const,
+            collection: this.collectionName,
+            id: docSnap.id,
+            data: { [field]: null },
+          })),
+          options,
+        );
+        updated += missing.length;
+      }
+      if (snapshot.docs.length < pageSize) {
+        break;
+      }
+      lastId = snapshot.docs[snapshot.docs.length - 1].id;
+    }
+    return updated;
+  }
+
+  /**
+   * Permanently delete documents soft-deleted before a point in time
+   * Runs in pages of up to 500 documents; reads and batched deletes are quota-tracked.
+   *
+   * @param olderThan - Purge documents deleted at or before this time (Date or epoch milliseconds)
+   * @param options - Batch options
+   * @returns Number of purged documents
+   * @throws FirebaseFirestoreError if soft delete is not enabled
+   * @throws FirebaseFirestoreBatchError if a batch failed
+   */
+  async purgeDeleted(
+    olderThan: Date | number,
+    options: BatchWriteOptions = {},
+  ): Promise<number> {
+    const field = this.requireSoftDelete().field;
+    const cutoff = Timestamp.fromMillis(olderThan instanceof Date ? olderThan.getTime() : olderThan);
+    const pageSize = FIRESTORE_LIMITS.MAX_BATCH_OPERATIONS;
+    let purged = 0;
+
+    for (;;) {
+      const trashQuery = query(
+        collection(this.getDbOrThrow(), this.collectionName),
+        where(field, "<=", cutoff),
+        limit(pageSize),
+      );
+      const snapshot = await this.executeOperation(
+        {
+          type: "read",
+          collection: this.collectionName,
+          // Empty results are still billed as one read
+          count: (result) => Math.max(1, result.docs.length),
+          cached: (result) => result.metadata.fromCache,
+          queryKey: getResultKey(
+            getQueryKey({
+              collectionName: this.collectionName,
+              baseFilters: [{ field, operator: "<=", value: cutoff }],
+              limitValue: pageSize,
+            }),
+            "page",
+          ),
+        },
+        () => getDocs(trashQuery),
+        { ...options, cache: false },
+      );
+      if (snapshot.docs.length === 0) {
+        break;
+      }
+
+      await this.executeBatchWrite(
+        snapshot.docs.map((docSnap) => ({
+          type: "delete" as const,
+          collection: this.collectionName,
+          id: docSnap.id,
+        })),
+        options,
+      );
+      purged += snapshot.docs.length;
+      if (snapshot.docs.length < pageSize) {
+        break;
+      }
+    }
+    return purged;
+  }
+
+  /**
+   * Check if document exists
+   * Soft-deleted documents do not exist unless includeDeleted is set
+   *
+   * @param id - Document ID
+   * @param options - Operation options
+   * @returns true if document exists
+   */
+  async exists(
+    id: string,
+    options?: RepositoryOperationOptions,
+  ): Promise<boolean> {
+    const snapshot = await this.executeOperation(
+      {
+        type: "read",
+        collection: this.collectionName,
+        documentId: id,
+        count: 1,
+        cached: (result) => result.metadata.fromCache,
+      },
+      () => getDoc(this.getDocRef(id)),
+      options,
+    );
+    return snapshot.exists() && !this.isHiddenTombstone(snapshot, options);
+  }
+
+  /**
+   * Check if document is soft-deleted and hidden from the read
+   */
+  private isHiddenTombstone(
+    snapshot: DocumentSnapshot<T, DocumentData>,
+    options?: RepositoryOperationOptions,
+  ): boolean {
+    const tombstoneField = this.getTombstoneField(options);
+    return !!tombstoneField && isSoftDeleted(snapshot, tombstoneField);
+  }
+
+  private requireSoftDelete(): SoftDeleteOptions {
+    if (!this.softDelete) {
+      throw new FirebaseFirestoreError(`Soft delete is not enabled for ${this.collectionName}`);
+    }
+    return this.softDelete;
+  }
+
+  /**
+   * Set (delete) or clear (restore) the tombstone field
+   */
+  private async writeTombstone(
+    id: string,
+    value: FieldValue | null,
+    options?: RepositoryOperationOptions,
+  ): Promise<void> {
+    const { field } = this.requireSoftDelete();
+    await this.executeOperation(
+      {
+        type: "write",
+        collection: this.collectionName,
+        documentId: id,
+        count: 1,
+      },
+      () =>
+        updateDoc(this.getDocRef(id), {
+          [field]: value,
+          ...this.getTimestampFields("update"),
+        }),
+      options,
+    );
+  }
+
+  /**
+   * Validate document read from Firestore
+   * Invalid documents are skipped (null), rejected or returned unchanged
+   * depending on the repository's read policy
+   *
+   * @param id - Document ID
+   * @param data - Document data
+   * @returns Validated data, or null if the document is skipped
+   * @throws FirebaseFirestoreValidationError with the 'throw' policy
+   */
+  protected validateRead(id: string, data: T): T | null {
+    if (!this.validation) {
+      return data;
+    }
+    const result = this.validation.validator.validate(data);
+    if (result.success) {
+      return result.data;
+    }
+
+    const error = this.createValidationError(result.issues, "read", id);
+    this.validation.onInvalid?.(error);
+    const policy = this.validation.onInvalidRead ?? "throw";
+    if (policy === "throw") {
+      throw error;
+    }
+    if (__DEV__) {
+      const action = policy === "skip" ? "Skipped" : "Read";
+      /* eslint-disable-next-line no-console */
+      console.warn(`[FirestoreRepository] ${action} invalid document ${this.collectionName}/${id}:`, error.issues);
+    }
+    return policy === "skip" ? null : data;
+  }
+
+  /**
+   * Validate complete document before it is written
+   *
+   * @param data - Document data
+   * @param id - Document ID (unknown for created documents)
+   * @returns Validated data
+   * @throws FirebaseFirestoreValidationError if the document is invalid
+   */
+  protected validateWrite(data: T, id?: string): T {
+    if (!this.validation || this.validation.validateWrites === false) {
+      return data;
+    }
+    return this.assertValidWrite(this.validation.validator.validate(data), id);
+  }
+
+  /**
+   * Validate fields of a partial update before they are written
+   * Written unchecked if the validator cannot validate partial documents
+   *
+   * @param data - Fields to write
+   * @param id - Document ID
+   * @returns Validated fields
+   * @throws FirebaseFirestoreValidationError if a field is invalid
+   */
+  protected validatePartialWrite(data: Partial<T>, id: string): Partial<T> {
+    const validatePartial = this.validation?.validator.validatePartial;
+    if (!this.validation || this.validation.validateWrites === false || !validatePartial) {
+      return data;
+    }
+    return this.assertValidWrite(validatePartial.call(this.validation.validator, data), id);
+  }
+
+  private assertValidWrite<D>(result: ValidationResult<D>, id?: string): D {
+    if (result.success) {
+      return result.data;
+    }
+    const error = this.createValidationError(result.issues, "write", id);
+    this.validation?.onInvalid?.(error);
+    throw error;
+  }
+
+  private createValidationError(
+    issues: ValidationIssue[],
+    operation: "read" | "write",
+    id?: string,
+  ): FirebaseFirestoreValidationError {
+    const path = id ? `${this.collectionName}/${id}` : this.collectionName;
+    return new FirebaseFirestoreValidationError(
+      `Invalid document ${path}: ${formatValidationIssues(issues)}`,
+      issues,
+      this.collectionName,
+      operation,
+      id,
+    );
+  }
+}
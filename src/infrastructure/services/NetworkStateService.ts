@@ -0,0 +1,253 @@
+/**
+ * Network State Service
+ * Infrastructure service for controlling the network and observing sync state
+ *
+ * Firestore applies writes locally right away; their promises resolve only
+ * once the server acknowledges them, which never happens while offline.
+ * The service counts unacknowledged repository writes per Firestore instance
+ * (fed by the 'network-state' pipeline middleware) and infers connectivity
+ * from server responses, so "saved" indicators can tell local from synced.
+ * A lost connection is not reported by the SDK; the instance is marked
+ * offline when a listener gets a cached snapshot while writes are pending,
+ * or when a write is not acknowledged within the acknowledgment timeout.
+ *
+ * @example
+ * ```typescript
+ * networkStateService.addListener((state) => {
+ *   setSaveLabel(state.synced ? 'Saved' : state.connectivity === 'offline' ? 'Saved offline' : 'Saving…');
+ * });
+ *
+ * await networkStateService.disableNetwork();
+ * await networkStateService.enableNetwork();
+ * await networkStateService.waitForPendingWrites();
+ * ```
+ */
+
+import {
+  enableNetwork,
+  disableNetwork,
+  waitForPendingWrites,
+} from 'firebase/firestore';
+import type { Firestore } from 'firebase/firestore';
+import type { NetworkState } from '../../domain/entities/NetworkState';
+import { FirebaseFirestoreInitializationError } from '../../domain/errors/FirebaseFirestoreError';
+import { getFirestore } from '../config/FirestoreClient';
+import { getFirestoreInstanceKey } from '../../utils/firestore-instance.util';
+import type { FirestoreInstanceOptions } from '../../utils/firestore-instance.util';
+import { DEFAULT_FIRESTORE_INSTANCE } from '../../domain/constants/FirestoreInstanceDefaults';
+import { DEFAULT_WRITE_ACKNOWLEDGMENT_TIMEOUT_MS } from '../../domain/constants/NetworkStateDefaults';
+import { getErrorCode } from '../../utils/retry.util';
+
+export class NetworkStateService {
+  private states = new Map<string, NetworkState>();
+  private listeners: Set<(state: NetworkState) => void> = new Set();
+  private acknowledgmentTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private acknowledgmentTimeoutMs = DEFAULT_WRITE_ACKNOWLEDGMENT_TIMEOUT_MS;
+
+  /**
+   * Get network state of a Firestore instance
+   *
+   * @param instance - Instance key (default instance if omitted)
+   */
+  getState(instance: string = DEFAULT_FIRESTORE_INSTANCE): NetworkState {
+    return { ...this.getOrCreateState(instance) };
+  }
+
+  /**
+   * Enable network access after disableNetwork
+   * Writes made offline are sent to the server
+   *
+   * @param options - Firestore instance (default app and database if omitted)
+   */
+  async enableNetwork(options: FirestoreInstanceOptions = {}): Promise<void> {
+    await enableNetwork(this.getDbOrThrow(options));
+    this.update(getFirestoreInstanceKey(options), { networkEnabled: true, connectivity: 'unknown' });
+  }
+
+  /**
+   * Disable network access
+   * Reads are served from the local cache, writes are applied locally and
+   * stay pending until the network is enabled again
+   *
+   * @param options - Firestore instance (default app and database if omitted)
+   */
+  async disableNetwork(options: FirestoreInstanceOptions = {}): Promise<void> {
+    await disableNetwork(this.getDbOrThrow(options));
+    this.update(getFirestoreInstanceKey(options), { networkEnabled: false, connectivity: 'offline' });
+  }
+
+  /**
+   * Wait until all writes made so far are acknowledged by the server
+   * Does not resolve while the network is disabled
+   *
+   * @param options - Firestore instance (default app and database if omitted)
+   */
+  async waitForPendingWrites(options: FirestoreInstanceOptions = {}): Promise<void> {
+    await waitForPendingWrites(this.getDbOrThrow(options));
+    this.update(getFirestoreInstanceKey(options), {
+      connectivity: 'online',
+      lastSyncedAt: Date.now(),
+    });
+  }
+
+  /**
+   * Set how long a write may wait for server acknowledgment before the
+   * instance is marked offline (0 disables the timeout)
+   *
+   * @param timeoutMs - Timeout in milliseconds
+   */
+  setWriteAcknowledgmentTimeout(timeoutMs: number): void {
+    this.acknowledgmentTimeoutMs = Math.max(0, timeoutMs);
+    this.acknowledgmentTimers.forEach((timer) => clearTimeout(timer));
+    this.acknowledgmentTimers.clear();
+    this.states.forEach((state) => {
+      if (state.pendingWrites > 0) this.scheduleAcknowledgmentTimeout(state.instance);
+    });
+  }
+
+  /**
+   * Record a write waiting for server acknowledgment
+   *
+   * @param instance - Instance key (default instance if omitted)
+   */
+  trackWriteStarted(instance: string = DEFAULT_FIRESTORE_INSTANCE): void {
+    const state = this.getOrCreateState(instance);
+    this.update(instance, { pendingWrites: state.pendingWrites + 1 });
+    if (!this.acknowledgmentTimers.has(instance)) this.scheduleAcknowledgmentTimeout(instance);
+  }
+
+  /**
+   * Record a write that was acknowledged (or failed)
+   *
+   * @param instance - Instance key (default instance if omitted)
+   * @param error - Error the write failed with, if any
+   */
+  trackWriteSettled(instance: string = DEFAULT_FIRESTORE_INSTANCE, error?: unknown): void {
+    const state = this.getOrCreateState(instance);
+    const pendingWrites = Math.max(0, state.pendingWrites - 1);
+    const changes: Partial<NetworkState> = { pendingWrites };
+    if (error === undefined) {
+      changes.lastSyncedAt = Date.now();
+      if (state.networkEnabled) changes.connectivity = 'online';
+    } else if (getErrorCode(error) === 'unavailable') {
+      changes.connectivity = 'offline';
+    }
+    this.update(instance, changes);
+    this.clearAcknowledgmentTimeout(instance);
+    if (pendingWrites > 0) this.scheduleAcknowledgmentTimeout(instance);
+  }
+
+  /**
+   * Record a listener snapshot; server snapshots mean the instance is online,
+   * cached snapshots while writes are pending mean it is offline
+   *
+   * @param instance - Instance key (default instance if omitted)
+   * @param metadata - Snapshot metadata
+   */
+  trackSnapshot(instance: string | undefined, metadata: { fromCache: boolean }): void {
+    const state = this.getOrCreateState(instance ?? DEFAULT_FIRESTORE_INSTANCE);
+    if (!metadata.fromCache && state.networkEnabled && state.connectivity !== 'online') {
+      this.update(state.instance, { connectivity: 'online' });
+    } else if (metadata.fromCache && state.pendingWrites > 0 && state.connectivity !== 'offline') {
+      this.update(state.instance, { connectivity: 'offline' });
+    }
+  }
+
+  /**
+   * Add state change listener
+   *
+   * @param listener - Called with the state of the instance that changed
+   * @param instance - Only changes of this instance key (all if omitted)
+   */
+  addListener(listener: (state: NetworkState) => void, instance?: string): () => void {
+    const filtered = (state: NetworkState) => {
+      if (instance === undefined || state.instance === instance) listener(state);
+    };
+    this.listeners.add(filtered);
+    return () => {
+      this.listeners.delete(filtered);
+    };
+  }
+
+  /**
+   * Forget the state of all instances
+   * Useful for testing
+   */
+  reset(): void {
+    this.acknowledgmentTimers.forEach((timer) => clearTimeout(timer));
+    this.acknowledgmentTimers.clear();
+    this.states.clear();
+  }
+
+  private scheduleAcknowledgmentTimeout(instance: string): void {
+    if (this.acknowledgmentTimeoutMs === 0) return;
+    const timer = setTimeout(() => {
+      this.acknowledgmentTimers.delete(instance);
+      const state = this.getOrCreateState(instance);
+      if (state.pendingWrites > 0 && state.connectivity !== 'offline') {
+        this.update(instance, { connectivity: 'offline' });
+      }
+    }, this.acknowledgmentTimeoutMs);
+    this.acknowledgmentTimers.set(instance, timer);
+  }
+
+  private clearAcknowledgmentTimeout(instance: string): void {
+    const timer = this.acknowledgmentTimers.get(instance);
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      this.acknowledgmentTimers.delete(instance);
+    }
+  }
+
+  private getDbOrThrow(options: FirestoreInstanceOptions): Firestore {
+    const db = getFirestore(options);
+    if (!db) {
+      throw new FirebaseFirestoreInitializationError(
+        `Firestore instance "${getFirestoreInstanceKey(options)}" is not initialized.`,
+      );
+    }
+    return db;
+  }
+
+  private getOrCreateState(instance: string): NetworkState {
+    let state = this.states.get(instance);
+    if (!state) {
+      state = {
+        instance,
+        networkEnabled: true,
+        connectivity: 'unknown',
+        pendingWrites: 0,
+        synced: true,
+        lastSyncedAt: null,
+      };
+      this.states.set(instance, state);
+    }
+    return state;
+  }
+
+  private update(instance: string, changes: Partial<NetworkState>): void {
+    const state = { ...this.getOrCreateState(instance), ...changes };
+    state.synced = state.pendingWrites === 0;
+    this.states.set(instance, state);
+    this.notifyListeners(state);
+  }
+
+  /**
+   * Notify all listeners
+   */
+  private notifyListeners(state: NetworkState): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener({ ...state });
+      } catch (error) {
+        /* eslint-disable-next-line no-console */
+        if (__DEV__) {
+          /* eslint-disable-next-line no-console */
+          console.error('[NetworkState] Listener error:', error);
+        }
+      }
+    });
+  }
+}
+
+export const networkStateService = new NetworkStateService();
@@ -0,0 +1,144 @@
+/**
+ * Quota Circuit Breaker Service
+ * Infrastructure service for blocking low-priority operations near quota limits
+ *
+ * Each operation type is checked against its own usage:
+ * reads (and listeners) against reads, writes against writes, deletes against deletes.
+ * Operations are checked against the usage of their Firestore instance.
+ */
+
+import type { QuotaStatus } from '../../domain/entities/QuotaMetrics';
+import type {
+  OperationPriority,
+  QuotaCircuitPolicy,
+  QuotaThresholdLevel,
+} from '../../domain/entities/QuotaPolicy';
+import type { RequestType } from '../../domain/entities/RequestLog';
+import { QuotaCalculator } from '../../domain/services/QuotaCalculator';
+import { FirebaseFirestoreQuotaBlockedError } from '../../domain/errors/FirebaseFirestoreError';
+import { getQuotaMonitor } from './QuotaMonitorService';
+
+/**
+ * Source of quota status of a Firestore instance
+ */
+export type QuotaStatusProvider = (instance?: string) => QuotaStatus;
+
+const defaultStatusProvider: QuotaStatusProvider = (instance) =>
+  getQuotaMonitor(instance).getStatus();
+
+/**
+ * Default policy
+ * - warning: background operations are blocked
+ * - critical: only essential operations are allowed
+ * - emergency: only essential operations are allowed
+ */
+const DEFAULT_POLICY: QuotaCircuitPolicy = {
+  warning: 'normal',
+  critical: 'essential',
+  emergency: 'essential',
+};
+
+export class QuotaCircuitBreakerService {
+  private policy: QuotaCircuitPolicy = { ...DEFAULT_POLICY };
+  private enabled = true;
+
+  /**
+   * @param statusProvider - Source of quota status (defaults to the quota monitor of the instance)
+   */
+  constructor(private statusProvider: QuotaStatusProvider = defaultStatusProvider) {}
+
+  /**
+   * Set minimum priority per threshold level
+   */
+  setPolicy(policy: Partial<QuotaCircuitPolicy>): void {
+    this.policy = { ...this.policy, ...policy };
+  }
+
+  /**
+   * Get current policy
+   */
+  getPolicy(): QuotaCircuitPolicy {
+    return { ...this.policy };
+  }
+
+  /**
+   * Enable or disable blocking
+   */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  /**
+   * Replace quota status source
+   * Useful for testing with fake metrics
+   */
+  setStatusProvider(statusProvider: QuotaStatusProvider): void {
+    this.statusProvider = statusProvider;
+  }
+
+  /**
+   * Reset policy, enabled flag and status source to defaults
+   */
+  reset(): void {
+    this.policy = { ...DEFAULT_POLICY };
+    this.enabled = true;
+    this.statusProvider = defaultStatusProvider;
+  }
+
+  /**
+   * Get threshold level reached for an operation type
+   *
+   * @param type - Operation type
+   * @param instance - Firestore instance key (default instance if omitted)
+   */
+  getLevel(type: RequestType, instance?: string): QuotaThresholdLevel {
+    const status = this.statusProvider(instance);
+    switch (type) {
+      case 'write':
+        return QuotaCalculator.getThresholdLevel(status.writePercentage);
+      case 'delete':
+        return QuotaCalculator.getThresholdLevel(status.deletePercentage);
+      default:
+        return QuotaCalculator.getThresholdLevel(status.readPercentage);
+    }
+  }
+
+  /**
+   * Check if operation is allowed
+   */
+  isAllowed(
+    type: RequestType,
+    priority: OperationPriority = 'normal',
+    instance?: string,
+  ): boolean {
+    if (!this.enabled) return true;
+    const level = this.getLevel(type, instance);
+    if (level === 'ok') return true;
+    return QuotaCalculator.meetsPriority(priority, this.policy[level]);
+  }
+
+  /**
+   * Throw if operation is not allowed
+   *
+   * @throws FirebaseFirestoreQuotaBlockedError
+   */
+  assertAllowed(
+    type: RequestType,
+    collection: string,
+    priority: OperationPriority = 'normal',
+    instance?: string,
+  ): void {
+    if (this.isAllowed(type, priority, instance)) return;
+
+    const level = this.getLevel(type, instance);
+    throw new FirebaseFirestoreQuotaBlockedError(
+      `Firestore ${type} on "${collection}" blocked: quota usage reached ${level} level, ` +
+        `${priority} operations are paused until the daily reset.`,
+      level,
+      priority,
+      type,
+    );
+  }
+}
+
+export const quotaCircuitBreaker = new QuotaCircuitBreakerService();
@@ -1,22 +1,75 @@
 /**
  * Quota Monitor Service
  * Infrastructure service for monitoring Firestore quota usage
+ *
+ * Metrics roll over automatically at the daily quota reset (midnight Pacific).
+ * Previous days are kept in a short history. Configure a persistent
+ * KeyValueStorage (e.g. AsyncStorage) to keep metrics across app restarts.
+ *
+ * Each Firestore instance (app and database) has its own monitor:
+ * quotaMonitorService tracks the default instance, getQuotaMonitor() the others.
  */
 
 import type { QuotaMetrics, QuotaLimits, QuotaStatus } from '../../domain/entities/QuotaMetrics';
+import type { KeyValueStorage } from '../../domain/entities/KeyValueStorage';
 import { QuotaCalculator } from '../../domain/services/QuotaCalculator';
+import { MemoryStorage } from '../storage/MemoryStorage';
+import { isDefaultFirestoreInstance } from '../../utils/firestore-instance.util';
+
+export interface QuotaPersistenceOptions {
+  /**
+   * Storage key for persisted metrics
+   * @default '@umituz/react-native-firestore/quota-metrics'
+   * (suffixed with the instance key for other Firestore instances)
+   */
+  storageKey?: string;
+
+  /**
+   * Number of previous days to keep in history
+   * @default 7
+   */
+  historyDays?: number;
+}
+
+interface PersistedQuotaState {
+  version: 1;
+  metrics: QuotaMetrics;
+  history: QuotaMetrics[];
+}
+
+/**
+ * Metrics of a storage location that are already included in the current metrics
+ */
+interface MergedQuotaState {
+  storage: KeyValueStorage;
+  storageKey: string;
+  metrics: QuotaMetrics;
+}
+
+const DEFAULT_STORAGE_KEY = '@umituz/react-native-firestore/quota-metrics';
+const DEFAULT_HISTORY_DAYS = 7;
 
 export class QuotaMonitorService {
-  private metrics: QuotaMetrics = {
-    readCount: 0,
-    writeCount: 0,
-    deleteCount: 0,
-    timestamp: Date.now(),
-  };
+  private metrics: QuotaMetrics = this.createEmptyMetrics();
+  private history: QuotaMetrics[] = [];
 
   private limits: QuotaLimits = QuotaCalculator.getDefaultLimits();
   private listeners: Set<(status: QuotaStatus) => void> = new Set();
 
+  private storage: KeyValueStorage = new MemoryStorage();
+  private storageKey: string;
+  private historyDays = DEFAULT_HISTORY_DAYS;
+  private persistPromise: Promise<void> | null = null;
+  private persistQueued = false;
+  private merged: MergedQuotaState | null = null;
+
+  /**
+   * @param defaultStorageKey - Storage key used when setStorage is not given one
+   */
+  constructor(private readonly defaultStorageKey: string = DEFAULT_STORAGE_KEY) {
+    this.storageKey = defaultStorageKey;
+  }
+
   /**
    * Set quota limits
    */
@@ -24,55 +77,106 @@ export class QuotaMonitorService {
     this.limits = { ...this.limits, ...limits };
   }
 
+  /**
+   * Set storage adapter and restore persisted metrics
+   * Operations tracked before restoring are merged into the restored day;
+   * setting the same storage again does not count its metrics twice
+   *
+   * @param storage - AsyncStorage-compatible storage
+   * @param options - Persistence options
+   */
+  async setStorage(
+    storage: KeyValueStorage,
+    options: QuotaPersistenceOptions = {},
+  ): Promise<void> {
+    this.storage = storage;
+    this.storageKey = options.storageKey ?? this.defaultStorageKey;
+    this.historyDays = options.historyDays ?? DEFAULT_HISTORY_DAYS;
+
+    await this.restore();
+  }
+
   /**
    * Increment read count
    */
   incrementRead(count: number = 1): void {
+    this.rolloverIfNeeded();
     this.metrics.readCount += count;
-    this.notifyListeners();
+    this.handleChange();
   }
 
   /**
    * Increment write count
    */
   incrementWrite(count: number = 1): void {
+    this.rolloverIfNeeded();
     this.metrics.writeCount += count;
-    this.notifyListeners();
+    this.handleChange();
   }
 
   /**
    * Increment delete count
    */
   incrementDelete(count: number = 1): void {
+    this.rolloverIfNeeded();
     this.metrics.deleteCount += count;
-    this.notifyListeners();
+    this.handleChange();
   }
 
   /**
    * Get current metrics
    */
   getMetrics(): QuotaMetrics {
+    this.rolloverIfNeeded();
     return { ...this.metrics };
   }
 
+  /**
+   * Get metrics of previous days (most recent first)
+   */
+  getHistory(): QuotaMetrics[] {
+    this.rolloverIfNeeded();
+    return this.history.map((entry) => ({ ...entry }));
+  }
+
+  /**
+   * Get time of the next daily quota reset
+   */
+  getNextResetTime(): number {
+    return QuotaCalculator.getNextResetTime(Date.now());
+  }
+
   /**
    * Get current status
    */
   getStatus(): QuotaStatus {
-    return QuotaCalculator.calculateStatus(this.metrics, this.limits);
+    this.rolloverIfNeeded();
+    return QuotaCalculator.calculateStatus({ ...this.metrics }, this.limits);
   }
 
   /**
    * Reset metrics
    */
   resetMetrics(): void {
-    this.metrics = {
-      readCount: 0,
-      writeCount: 0,
-      deleteCount: 0,
-      timestamp: Date.now(),
-    };
-    this.notifyListeners();
+    this.metrics = this.createEmptyMetrics();
+    this.handleChange();
+  }
+
+  /**
+   * Reset metrics and history
+   */
+  clearHistory(): void {
+    this.history = [];
+    this.resetMetrics();
+  }
+
+  /**
+   * Wait until pending metrics are written to storage
+   */
+  async flush(): Promise<void> {
+    while (this.persistPromise) {
+      await this.persistPromise;
+    }
   }
 
   /**
@@ -85,11 +189,151 @@ export class QuotaMonitorService {
     };
   }
 
+  /**
+   * Create empty metrics for the current quota period
+   */
+  private createEmptyMetrics(timestamp: number = Date.now()): QuotaMetrics {
+    return {
+      readCount: 0,
+      writeCount: 0,
+      deleteCount: 0,
+      timestamp: QuotaCalculator.getPeriodStart(timestamp),
+    };
+  }
+
+  /**
+   * Move current metrics to history when the quota period has ended
+   */
+  private rolloverIfNeeded(): void {
+    const now = Date.now();
+    if (
+      QuotaCalculator.getPeriodKey(this.metrics.timestamp) ===
+      QuotaCalculator.getPeriodKey(now)
+    ) {
+      return;
+    }
+
+    this.addToHistory(this.metrics);
+    this.metrics = this.createEmptyMetrics(now);
+    this.schedulePersist();
+    this.notifyListeners();
+  }
+
+  /**
+   * Add metrics to history, keeping only the configured number of days
+   */
+  private addToHistory(metrics: QuotaMetrics): void {
+    const key = QuotaCalculator.getPeriodKey(metrics.timestamp);
+    this.history = [
+      { ...metrics },
+      ...this.history.filter(
+        (entry) => QuotaCalculator.getPeriodKey(entry.timestamp) !== key,
+      ),
+    ]
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, this.historyDays);
+  }
+
+  /**
+   * Restore persisted metrics from storage
+   */
+  private async restore(): Promise<void> {
+    let state: PersistedQuotaState | null = null;
+    try {
+      const raw = await this.storage.getItem(this.storageKey);
+      state = raw ? (JSON.parse(raw) as PersistedQuotaState) : null;
+    } catch (error) {
+      /* eslint-disable-next-line no-console */
+      if (__DEV__) console.warn('[QuotaMonitor] Failed to restore metrics:', error);
+    }
+
+    if (state?.metrics) {
+      for (const entry of state.history ?? []) {
+        this.addToHistory(entry);
+      }
+
+      const sameDay =
+        QuotaCalculator.getPeriodKey(state.metrics.timestamp) ===
+        QuotaCalculator.getPeriodKey(this.metrics.timestamp);
+
+      if (sameDay) {
+        // Only add what was persisted since this service last restored or saved there
+        const known = this.getMergedMetrics(state.metrics.timestamp);
+        this.metrics = {
+          readCount: this.metrics.readCount + Math.max(0, state.metrics.readCount - known.readCount),
+          writeCount:
+            this.metrics.writeCount + Math.max(0, state.metrics.writeCount - known.writeCount),
+          deleteCount:
+            this.metrics.deleteCount + Math.max(0, state.metrics.deleteCount - known.deleteCount),
+          timestamp: this.metrics.timestamp,
+        };
+      } else {
+        this.addToHistory(state.metrics);
+      }
+    }
+
+    this.rolloverIfNeeded();
+    this.handleChange();
+    await this.flush();
+  }
+
+  /**
+   * Metrics of the current storage location already included in the current metrics
+   */
+  private getMergedMetrics(timestamp: number): QuotaMetrics {
+    const merged = this.merged;
+    const samePeriod =
+      merged !== null &&
+      merged.storage === this.storage &&
+      merged.storageKey === this.storageKey &&
+      QuotaCalculator.getPeriodKey(merged.metrics.timestamp) === QuotaCalculator.getPeriodKey(timestamp);
+    return samePeriod ? merged.metrics : this.createEmptyMetrics(timestamp);
+  }
+
+  /**
+   * Persist and notify after metrics change
+   */
+  private handleChange(): void {
+    this.schedulePersist();
+    this.notifyListeners();
+  }
+
+  /**
+   * Persist metrics, coalescing writes while a save is in flight
+   */
+  private schedulePersist(): void {
+    if (this.persistPromise) {
+      this.persistQueued = true;
+      return;
+    }
+
+    const state: PersistedQuotaState = {
+      version: 1,
+      metrics: { ...this.metrics },
+      history: this.history,
+    };
+    this.merged = { storage: this.storage, storageKey: this.storageKey, metrics: state.metrics };
+
+    this.persistPromise = this.storage
+      .setItem(this.storageKey, JSON.stringify(state))
+      .catch((error) => {
+        /* eslint-disable-next-line no-console */
+        if (__DEV__) console.warn('[QuotaMonitor] Failed to persist metrics:', error);
+      })
+      .finally(() => {
+        this.persistPromise = null;
+        if (this.persistQueued) {
+          this.persistQueued = false;
+          this.schedulePersist();
+        }
+      });
+  }
+
   /**
    * Notify all listeners
    */
   private notifyListeners(): void {
-    const status = this.getStatus();
+    const status = QuotaCalculator.calculateStatus({ ...this.metrics }, this.limits);
     this.listeners.forEach((listener) => {
       try {
         listener(status);
@@ -106,3 +350,23 @@ export class QuotaMonitorService {
 
 export const quotaMonitorService = new QuotaMonitorService();
 
+const instanceMonitors = new Map<string, QuotaMonitorService>();
+
+/**
+ * Get quota monitor of a Firestore instance
+ * Limits, storage and listeners are configured per monitor
+ *
+ * @param instance - Instance key (default instance if omitted)
+ * @returns quotaMonitorService for the default instance, a dedicated monitor otherwise
+ */
+export function getQuotaMonitor(instance?: string): QuotaMonitorService {
+  if (instance === undefined || isDefaultFirestoreInstance(instance)) {
+    return quotaMonitorService;
+  }
+  let monitor = instanceMonitors.get(instance);
+  if (!monitor) {
+    monitor = new QuotaMonitorService(`${DEFAULT_STORAGE_KEY}/${instance}`);
+    instanceMonitors.set(instance, monitor);
+  }
+  return monitor;
+}
@@ -1,9 +1,15 @@
 /**
  * Request Logger Service
  * Infrastructure service for logging Firestore requests
+ *
+ * Requests of all Firestore instances share one log; every entry carries
+ * its instance key, and logs and statistics can be read per instance.
  */
 
 import type { RequestLog, RequestStats, RequestType } from '../../domain/entities/RequestLog';
+import { getCollectionTemplate } from '../../utils/collection-path.util';
+import { isDefaultFirestoreInstance } from '../../utils/firestore-instance.util';
+import { DEFAULT_FIRESTORE_INSTANCE } from '../../domain/constants/FirestoreInstanceDefaults';
 
 export class RequestLoggerService {
   private logs: RequestLog[] = [];
@@ -12,10 +18,16 @@ export class RequestLoggerService {
 
   /**
    * Log a request
+   * Collection paths matching a registered template are logged under the template
+   * Requests without an instance are logged under the default instance
    */
   logRequest(log: Omit<RequestLog, 'id' | 'timestamp'>): void {
+    const template = getCollectionTemplate(log.collection);
     const fullLog: RequestLog = {
       ...log,
+      collection: template,
+      path: template !== log.collection ? log.collection : log.path,
+      instance: log.instance ?? DEFAULT_FIRESTORE_INSTANCE,
       id: this.generateId(),
       timestamp: Date.now(),
     };
@@ -28,12 +40,23 @@ export class RequestLoggerService {
 
     // Log Firestore operations in development mode
     if (__DEV__) {
-      const prefix = fullLog.cached ? '[Firestore Cache]' : '[Firestore]';
-      const operation = fullLog.type.toUpperCase();
+      const prefix = fullLog.cached
+        ? '[Firestore Cache]'
+        : fullLog.deduplicated
+          ? '[Firestore Dedup]'
+          : fullLog.acknowledged === 'local'
+            ? '[Firestore Local]'
+            : '[Firestore]';
+      const operation = fullLog.listenerEvent
+        ? `${fullLog.type.toUpperCase()} ${fullLog.listenerEvent.toUpperCase()}`
+        : fullLog.type.toUpperCase();
       const status = fullLog.success ? '✓' : '✗';
+      const collectionPath = isDefaultFirestoreInstance(fullLog.instance)
+        ? fullLog.path ?? fullLog.collection
+        : `${fullLog.instance}:${fullLog.path ?? fullLog.collection}`;
       const details = fullLog.documentId
-        ? `${fullLog.collection}/${fullLog.documentId}`
-        : fullLog.collection;
+        ? `${collectionPath}/${fullLog.documentId}`
+        : fullLog.queryFingerprint ?? collectionPath;
 
       if (fullLog.success) {
         // eslint-disable-next-line no-console
@@ -49,9 +72,11 @@ export class RequestLoggerService {
 
   /**
    * Get all logs
+   *
+   * @param instance - Only logs of this Firestore instance key (all if omitted)
    */
-  getLogs(): RequestLog[] {
-    return [...this.logs];
+  getLogs(instance?: string): RequestLog[] {
+    return this.filterByInstance(instance);
   }
 
   /**
@@ -63,17 +88,26 @@ export class RequestLoggerService {
 
   /**
    * Get request statistics
+   * Writes only acknowledged locally are counted in localWriteRequests,
+   * retried attempts in retriedAttempts
+   *
+   * @param instance - Only requests of this Firestore instance key (all if omitted)
    */
-  getStats(): RequestStats {
-    const totalRequests = this.logs.length;
-    const readRequests = this.logs.filter((l) => l.type === 'read').length;
-    const writeRequests = this.logs.filter((l) => l.type === 'write').length;
-    const deleteRequests = this.logs.filter((l) => l.type === 'delete').length;
-    const listenerRequests = this.logs.filter((l) => l.type === 'listener').length;
-    const cachedRequests = this.logs.filter((l) => l.cached).length;
-    const failedRequests = this.logs.filter((l) => !l.success).length;
-
-    const durations = this.logs
+  getStats(instance?: string): RequestStats {
+    const allLogs = this.filterByInstance(instance);
+    const logs = allLogs.filter((l) => l.acknowledged !== 'local' && !l.retried);
+    const localWriteRequests = allLogs.filter((l) => l.acknowledged === 'local').length;
+    const retriedAttempts = allLogs.filter((l) => l.retried).length;
+    const totalRequests = logs.length;
+    const readRequests = logs.filter((l) => l.type === 'read').length;
+    const writeRequests = logs.filter((l) => l.type === 'write').length;
+    const deleteRequests = logs.filter((l) => l.type === 'delete').length;
+    const listenerRequests = logs.filter((l) => l.type === 'listener').length;
+    const cachedRequests = logs.filter((l) => l.cached).length;
+    const deduplicatedRequests = logs.filter((l) => l.deduplicated).length;
+    const failedRequests = logs.filter((l) => !l.success).length;
+
+    const durations = logs
       .filter((l) => l.duration !== undefined)
       .map((l) => l.duration!);
     const averageDuration =
@@ -88,6 +122,9 @@ export class RequestLoggerService {
       deleteRequests,
       listenerRequests,
       cachedRequests,
+      deduplicatedRequests,
+      localWriteRequests,
+      retriedAttempts,
       failedRequests,
       averageDuration,
     };
@@ -110,6 +147,12 @@ export class RequestLoggerService {
     };
   }
 
+  private filterByInstance(instance?: string): RequestLog[] {
+    return instance === undefined
+      ? [...this.logs]
+      : this.logs.filter((log) => log.instance === instance);
+  }
+
   /**
    * Generate unique ID
    */
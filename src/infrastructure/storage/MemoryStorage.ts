@@ -0,0 +1,32 @@
+/**
+ * Memory Storage
+ * In-memory KeyValueStorage implementation
+ *
+ * Default storage when no persistent adapter is configured.
+ * Values are lost when the app restarts.
+ */
+
+import type { KeyValueStorage } from '../../domain/entities/KeyValueStorage';
+
+export class MemoryStorage implements KeyValueStorage {
+  private items = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.has(key) ? this.items.get(key)! : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+
+  /**
+   * Remove all items
+   */
+  clear(): void {
+    this.items.clear();
+  }
+}
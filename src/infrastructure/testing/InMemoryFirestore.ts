@@ -0,0 +1,360 @@
+/**
+ * In-Memory Firestore - Document Store
+ *
+ * Holds documents by path, applies writes atomically and notifies
+ * snapshot listeners. Used through the functions of inMemoryFirestoreModule,
+ * which replace 'firebase/firestore' in tests.
+ *
+ * The network can be disabled to simulate offline use: writes still apply
+ * locally right away, but are only acknowledged once it is enabled again.
+ *
+ * @example
+ * ```typescript
+ * const db = createInMemoryFirestore();
+ * db.seed({ 'posts/p1': { title: 'Hello' } });
+ * setFirestoreInstance(db.asFirestore());
+ * ```
+ */
+
+import type { DocumentData, Firestore } from "firebase/firestore";
+import {
+  FieldValue,
+  Timestamp,
+  InMemoryFirestoreError,
+  cloneValue,
+  getFieldValue,
+  isPlainObject,
+  toFieldSegments,
+  valuesEqual,
+} from "./InMemoryValues";
+import type { FieldPath } from "./InMemoryValues";
+
+const AUTO_ID_CHARS = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+const AUTO_ID_LENGTH = 20;
+
+export type InMemoryWrite =
+  | { type: "set"; path: string; data: DocumentData; merge: boolean }
+  | { type: "update"; path: string; fields: [string | FieldPath, unknown][] }
+  | { type: "delete"; path: string };
+
+/**
+ * Registered snapshot listener, refreshed after every commit
+ */
+export interface InMemoryListener {
+  refresh(): void;
+}
+
+interface PendingWrite {
+  paths: string[];
+  acknowledged: Promise<void>;
+  acknowledge: () => void;
+}
+
+export class InMemoryFirestore {
+  readonly type = "firestore";
+  private documents = new Map<string, DocumentData>();
+  private listeners = new Set<InMemoryListener>();
+  private networkEnabled = true;
+  private pendingWrites: PendingWrite[] = [];
+
+  /**
+   * Use as the Firestore instance of FirestoreClient
+   */
+  asFirestore(): Firestore {
+    return this as unknown as Firestore;
+  }
+
+  /**
+   * Add documents by path, replacing existing ones
+   *
+   * @param documents - Document data keyed by document path
+   */
+  seed(documents: Record<string, DocumentData>): void {
+    this.commit(
+      Object.entries(documents).map(([path, data]) => ({ type: "set", path, data, merge: false })),
+    );
+  }
+
+  /**
+   * Get a copy of stored document data
+   *
+   * @param path - Document path
+   * @returns Document data or undefined if the document does not exist
+   */
+  getDocumentData(path: string): DocumentData | undefined {
+    const data = this.documents.get(path);
+    return data ? (cloneValue(data) as DocumentData) : undefined;
+  }
+
+  /**
+   * Get paths of stored documents
+   *
+   * @param collectionPath - Only documents directly in this collection (optional)
+   * @returns Sorted document paths
+   */
+  getDocumentPaths(collectionPath?: string): string[] {
+    const paths = Array.from(this.documents.keys());
+    return (collectionPath
+      ? paths.filter((path) => getParentPath(path) === collectionPath)
+      : paths
+    ).sort();
+  }
+
+  /**
+   * Remove all documents and listeners, enable the network
+   */
+  reset(): void {
+    this.documents.clear();
+    this.listeners.clear();
+    this.setNetworkEnabled(true);
+  }
+
+  /**
+   * Whether writes reach the (simulated) server
+   */
+  isNetworkEnabled(): boolean {
+    return this.networkEnabled;
+  }
+
+  /**
+   * Enable or disable the network (enableNetwork / disableNetwork)
+   * Enabling acknowledges all pending writes
+   */
+  setNetworkEnabled(enabled: boolean): void {
+    this.networkEnabled = enabled;
+    if (enabled) {
+      const pending = this.pendingWrites;
+      this.pendingWrites = [];
+      pending.forEach((write) => write.acknowledge());
+    }
+  }
+
+  /**
+   * Wait for the server to acknowledge committed writes
+   * Resolves right away while the network is enabled
+   *
+   * @param paths - Paths of the written documents
+   */
+  acknowledge(paths: string[]): Promise<void> {
+    if (this.networkEnabled) {
+      return Promise.resolve();
+    }
+    let acknowledge: () => void = () => undefined;
+    const acknowledged = new Promise<void>((resolve) => {
+      acknowledge = resolve;
+    });
+    this.pendingWrites.push({ paths, acknowledged, acknowledge });
+    return acknowledged;
+  }
+
+  /**
+   * Check if a document (or any document) has writes not yet acknowledged
+   *
+   * @param path - Document path (optional)
+   */
+  hasPendingWrites(path?: string): boolean {
+    return this.pendingWrites.some((write) => path === undefined || write.paths.includes(path));
+  }
+
+  /**
+   * Wait until all writes pending so far are acknowledged
+   */
+  async waitForPendingWrites(): Promise<void> {
+    await Promise.all(this.pendingWrites.map((write) => write.acknowledged));
+  }
+
+  /**
+   * Generate a random document ID
+   */
+  generateId(): string {
+    let id = "";
+    for (let i = 0; i < AUTO_ID_LENGTH; i++) {
+      id += AUTO_ID_CHARS[Math.floor(Math.random() * AUTO_ID_CHARS.length)];
+    }
+    return id;
+  }
+
+  /**
+   * Read stored document data (not copied, do not mutate)
+   */
+  readDocument(path: string): DocumentData | undefined {
+    return this.documents.get(path);
+  }
+
+  /**
+   * List stored documents of a collection or collection group
+   *
+   * @param collectionPath - Collection path, or collection ID for groups
+   * @param collectionGroup - Match every collection with this ID
+   */
+  listDocuments(
+    collectionPath: string,
+    collectionGroup: boolean,
+  ): [string, DocumentData][] {
+    return Array.from(this.documents.entries()).filter(([path]) => {
+      const parentPath = getParentPath(path);
+      return collectionGroup
+        ? parentPath.split("/").pop() === collectionPath
+        : parentPath === collectionPath;
+    });
+  }
+
+  /**
+   * Apply writes atomically and notify listeners
+   * Nothing is written if any write fails
+   *
+   * @param writes - Writes in order
+   * @throws InMemoryFirestoreError (e.g. 'not-found' when updating a missing document)
+   */
+  commit(writes: InMemoryWrite[]): void {
+    const staged = new Map(this.documents);
+    const now = Timestamp.now();
+
+    for (const write of writes) {
+      const existing = staged.get(write.path);
+      if (write.type === "delete") {
+        staged.delete(write.path);
+      } else if (write.type === "set") {
+        staged.set(
+          write.path,
+          write.merge
+            ? mergeData(existing ?? {}, write.data, now)
+            : mergeData({}, write.data, now),
+        );
+      } else {
+        if (!existing) {
+          throw new InMemoryFirestoreError(
+            "not-found",
+            `No document to update: ${write.path}`,
+          );
+        }
+        staged.set(write.path, updateData(existing, write.fields, now));
+      }
+    }
+
+    this.documents = staged;
+    this.listeners.forEach((listener) => listener.refresh());
+  }
+
+  addListener(listener: InMemoryListener): void {
+    this.listeners.add(listener);
+  }
+
+  removeListener(listener: InMemoryListener): void {
+    this.listeners.delete(listener);
+  }
+
+  /**
+   * Number of active snapshot listeners
+   */
+  getListenerCount(): number {
+    return this.listeners.size;
+  }
+}
+
+/**
+ * Create an empty in-memory Firestore
+ */
+export function createInMemoryFirestore(): InMemoryFirestore {
+  return new InMemoryFirestore();
+}
+
+/**
+ * Parent collection path of a document path
+ */
+export function getParentPath(path: string): string {
+  return path.slice(0, Math.max(0, path.lastIndexOf("/")));
+}
+
+/**
+ * Resolve a FieldValue sentinel against the current field value
+ *
+ * @returns New value, or undefined to delete the field
+ */
+function resolveFieldValue(value: FieldValue, current: unknown, now: Timestamp): unknown {
+  switch (value.kind) {
+    case "serverTimestamp":
+      return now;
+    case "delete":
+      return undefined;
+    case "increment":
+      return (typeof current === "number" ? current : 0) + (value.operand as number);
+    case "arrayUnion": {
+      const result = Array.isArray(current) ? [...current] : [];
+      for (const element of value.operand as unknown[]) {
+        if (!result.some((item) => valuesEqual(item, element))) {
+          result.push(cloneValue(element));
+        }
+      }
+      return result;
+    }
+    case "arrayRemove": {
+      const removed = value.operand as unknown[];
+      return (Array.isArray(current) ? current : []).filter(
+        (item) => !removed.some((element) => valuesEqual(item, element)),
+      );
+    }
+  }
+}
+
+/**
+ * Copy value into stored form, resolving nested sentinels
+ */
+function toStoredValue(value: unknown, current: unknown, now: Timestamp): unknown {
+  if (value instanceof FieldValue) {
+    return resolveFieldValue(value, current, now);
+  }
+  if (isPlainObject(value)) {
+    return mergeData({}, value, now);
+  }
+  return cloneValue(value);
+}
+
+/**
+ * Deep-merge data into a copy of target (set with merge)
+ */
+function mergeData(target: DocumentData, data: DocumentData, now: Timestamp): DocumentData {
+  const result: DocumentData = { ...target };
+  for (const [key, value] of Object.entries(data)) {
+    const next =
+      isPlainObject(value) && isPlainObject(result[key])
+        ? mergeData(result[key], value, now)
+        : toStoredValue(value, result[key], now);
+    if (next === undefined) {
+      delete result[key];
+    } else {
+      result[key] = next;
+    }
+  }
+  return result;
+}
+
+/**
+ * Set field paths on a copy of data (update)
+ * Each path replaces the value at that path
+ */
+function updateData(
+  data: DocumentData,
+  fields: [string | FieldPath, unknown][],
+  now: Timestamp,
+): DocumentData {
+  const result = cloneValue(data) as DocumentData;
+  for (const [field, value] of fields) {
+    const segments = toFieldSegments(field);
+    let parent: Record<string, unknown> = result;
+    for (const segment of segments.slice(0, -1)) {
+      if (!isPlainObject(parent[segment])) {
+        parent[segment] = {};
+      }
+      parent = parent[segment] as Record<string, unknown>;
+    }
+    const last = segments[segments.length - 1];
+    const next = toStoredValue(value, getFieldValue(result, field), now);
+    if (next === undefined) {
+      delete parent[last];
+    } else {
+      parent[last] = next;
+    }
+  }
+  return result;
+}
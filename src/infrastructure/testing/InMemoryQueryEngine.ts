@@ -0,0 +1,240 @@
+/**
+ * In-Memory Firestore - Query Engine
+ *
+ * Evaluates filters, ordering, cursors and limits of in-memory queries
+ * with Firestore semantics:
+ * - documents missing a filtered or ordered field never match
+ * - range filters only match values of the same type
+ * - results are ordered by document ID after the explicit order-by fields
+ */
+
+import type { DocumentData, WhereFilterOp } from "firebase/firestore";
+import {
+  FieldPath,
+  compareValues,
+  getFieldValue,
+  isDocumentIdField,
+  isSameValueType,
+  valuesEqual,
+} from "./InMemoryValues";
+import { getParentPath } from "./InMemoryFirestore";
+
+export interface InMemoryFieldFilter {
+  type: "where";
+  field: string | FieldPath;
+  op: WhereFilterOp;
+  value: unknown;
+}
+
+export interface InMemoryCompositeFilter {
+  type: "and" | "or";
+  filters: InMemoryFilter[];
+}
+
+export type InMemoryFilter = InMemoryFieldFilter | InMemoryCompositeFilter;
+
+export interface InMemoryOrderBy {
+  field: string | FieldPath;
+  direction: "asc" | "desc";
+}
+
+export interface InMemoryCursor {
+  /**
+   * Cursor values, or a single document snapshot
+   */
+  values: unknown[];
+  inclusive: boolean;
+}
+
+export interface InMemoryQuerySpec {
+  collectionPath: string;
+  collectionGroup: boolean;
+  filters: InMemoryFilter[];
+  orderBy: InMemoryOrderBy[];
+  limit: number | null;
+  limitType: "first" | "last";
+  start: InMemoryCursor | null;
+  end: InMemoryCursor | null;
+}
+
+export interface InMemoryDocument {
+  path: string;
+  data: DocumentData;
+}
+
+/**
+ * Read field value of a document, document ID included
+ */
+function getDocumentField(doc: InMemoryDocument, field: string | FieldPath): unknown {
+  return isDocumentIdField(field) ? doc.path : getFieldValue(doc.data, field);
+}
+
+/**
+ * Normalize a documentId() comparison value to a document path
+ * Plain IDs are resolved against the parent collection of the compared document
+ */
+function toDocumentPath(value: unknown, doc: InMemoryDocument): unknown {
+  if (typeof value === "string") {
+    return value.includes("/") ? value : `${getParentPath(doc.path)}/${value}`;
+  }
+  if (value && typeof value === "object" && (value as { type?: unknown }).type === "document") {
+    return (value as { path: string }).path;
+  }
+  return value;
+}
+
+function matchesFieldFilter(doc: InMemoryDocument, filter: InMemoryFieldFilter): boolean {
+  const actual = getDocumentField(doc, filter.field);
+  if (actual === undefined) {
+    return false;
+  }
+
+  const isDocumentId = isDocumentIdField(filter.field);
+  const normalize = (value: unknown) => (isDocumentId ? toDocumentPath(value, doc) : value);
+  const expected = Array.isArray(filter.value) && filter.op !== "==" && filter.op !== "!="
+    ? filter.value.map(normalize)
+    : normalize(filter.value);
+
+  switch (filter.op) {
+    case "==":
+      return valuesEqual(actual, expected);
+    case "!=":
+      return !valuesEqual(actual, expected);
+    case "<":
+      return isSameValueType(actual, expected) && compareValues(actual, expected) < 0;
+    case "<=":
+      return isSameValueType(actual, expected) && compareValues(actual, expected) <= 0;
+    case ">":
+      return isSameValueType(actual, expected) && compareValues(actual, expected) > 0;
+    case ">=":
+      return isSameValueType(actual, expected) && compareValues(actual, expected) >= 0;
+    case "in":
+      return (expected as unknown[]).some((value) => valuesEqual(actual, value));
+    case "not-in":
+      return actual !== null && !(expected as unknown[]).some((value) => valuesEqual(actual, value));
+    case "array-contains":
+      return Array.isArray(actual) && actual.some((item) => valuesEqual(item, expected));
+    case "array-contains-any":
+      return (
+        Array.isArray(actual) &&
+        actual.some((item) => (expected as unknown[]).some((value) => valuesEqual(item, value)))
+      );
+    default:
+      return false;
+  }
+}
+
+function matchesFilter(doc: InMemoryDocument, filter: InMemoryFilter): boolean {
+  if (filter.type === "where") {
+    return matchesFieldFilter(doc, filter);
+  }
+  return filter.type === "and"
+    ? filter.filters.every((child) => matchesFilter(doc, child))
+    : filter.filters.some((child) => matchesFilter(doc, child));
+}
+
+/**
+ * Explicit order-by fields plus the implicit document ID tiebreaker
+ */
+function getEffectiveOrderBy(spec: InMemoryQuerySpec): InMemoryOrderBy[] {
+  const orderBy = [...spec.orderBy];
+  if (!orderBy.some((order) => isDocumentIdField(order.field))) {
+    const lastDirection = orderBy.length > 0 ? orderBy[orderBy.length - 1].direction : "asc";
+    orderBy.push({ field: FieldPath.documentId(), direction: lastDirection });
+  }
+  return orderBy;
+}
+
+/**
+ * Resolve cursor values; a document snapshot cursor uses its order-by values
+ */
+function resolveCursorValues(cursor: InMemoryCursor, orderBy: InMemoryOrderBy[]): unknown[] {
+  const [first] = cursor.values;
+  const isSnapshot =
+    cursor.values.length === 1 &&
+    first !== null &&
+    typeof first === "object" &&
+    typeof (first as { exists?: unknown }).exists === "function";
+  if (!isSnapshot) {
+    return cursor.values;
+  }
+
+  const snapshot = first as { ref: { path: string }; get(field: string | FieldPath): unknown };
+  return orderBy.map((order) =>
+    isDocumentIdField(order.field) ? snapshot.ref.path : snapshot.get(order.field),
+  );
+}
+
+/**
+ * Compare a document with cursor values along the order-by fields
+ */
+function compareWithCursor(
+  doc: InMemoryDocument,
+  values: unknown[],
+  orderBy: InMemoryOrderBy[],
+): number {
+  for (let i = 0; i < values.length && i < orderBy.length; i++) {
+    const { field, direction } = orderBy[i];
+    const cursorValue = isDocumentIdField(field) ? toDocumentPath(values[i], doc) : values[i];
+    const diff = compareValues(getDocumentField(doc, field), cursorValue);
+    if (diff !== 0) {
+      return direction === "desc" ? -diff : diff;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Run query spec against stored documents
+ *
+ * @param spec - Query spec
+ * @param documents - Candidate documents of the queried collection
+ * @returns Matching documents in query order
+ */
+export function runQuery(
+  spec: InMemoryQuerySpec,
+  documents: InMemoryDocument[],
+): InMemoryDocument[] {
+  const orderBy = getEffectiveOrderBy(spec);
+
+  let results = documents.filter(
+    (doc) =>
+      spec.filters.every((filter) => matchesFilter(doc, filter)) &&
+      orderBy.every((order) => getDocumentField(doc, order.field) !== undefined),
+  );
+
+  results.sort((a, b) => {
+    for (const { field, direction } of orderBy) {
+      const diff = compareValues(getDocumentField(a, field), getDocumentField(b, field));
+      if (diff !== 0) {
+        return direction === "desc" ? -diff : diff;
+      }
+    }
+    return 0;
+  });
+
+  if (spec.start) {
+    const values = resolveCursorValues(spec.start, orderBy);
+    const inclusive = spec.start.inclusive;
+    results = results.filter((doc) => {
+      const diff = compareWithCursor(doc, values, orderBy);
+      return inclusive ? diff >= 0 : diff > 0;
+    });
+  }
+  if (spec.end) {
+    const values = resolveCursorValues(spec.end, orderBy);
+    const inclusive = spec.end.inclusive;
+    results = results.filter((doc) => {
+      const diff = compareWithCursor(doc, values, orderBy);
+      return inclusive ? diff <= 0 : diff < 0;
+    });
+  }
+
+  if (spec.limit !== null) {
+    results =
+      spec.limitType === "last"
+        ? results.slice(Math.max(0, results.length - spec.limit))
+        : results.slice(0, spec.limit);
+  }
+  return results;
+}
@@ -0,0 +1,311 @@
+/**
+ * In-Memory Firestore - Value Types
+ *
+ * Timestamp, GeoPoint, FieldPath and FieldValue sentinels of the in-memory
+ * Firestore fake, plus Firestore's value ordering and equality.
+ *
+ * Must not import values from 'firebase/firestore': the fake replaces that module.
+ */
+
+import type { DocumentData } from "firebase/firestore";
+
+/**
+ * Error with a Firestore error code (e.g. 'not-found', 'invalid-argument')
+ */
+export class InMemoryFirestoreError extends Error {
+  readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = "FirebaseError";
+    this.code = code;
+    Object.setPrototypeOf(this, InMemoryFirestoreError.prototype);
+  }
+}
+
+export class Timestamp {
+  constructor(
+    readonly seconds: number,
+    readonly nanoseconds: number,
+  ) {}
+
+  static now(): Timestamp {
+    return Timestamp.fromMillis(Date.now());
+  }
+
+  static fromDate(date: Date): Timestamp {
+    return Timestamp.fromMillis(date.getTime());
+  }
+
+  static fromMillis(milliseconds: number): Timestamp {
+    const seconds = Math.floor(milliseconds / 1000);
+    return new Timestamp(seconds, Math.floor((milliseconds - seconds * 1000) * 1e6));
+  }
+
+  toDate(): Date {
+    return new Date(this.toMillis());
+  }
+
+  toMillis(): number {
+    return this.seconds * 1000 + this.nanoseconds / 1e6;
+  }
+
+  isEqual(other: Timestamp): boolean {
+    return (
+      other instanceof Timestamp &&
+      other.seconds === this.seconds &&
+      other.nanoseconds === this.nanoseconds
+    );
+  }
+
+  toJSON(): { seconds: number; nanoseconds: number } {
+    return { seconds: this.seconds, nanoseconds: this.nanoseconds };
+  }
+
+  toString(): string {
+    return `Timestamp(seconds=${this.seconds}, nanoseconds=${this.nanoseconds})`;
+  }
+}
+
+export class GeoPoint {
+  constructor(
+    readonly latitude: number,
+    readonly longitude: number,
+  ) {}
+
+  isEqual(other: GeoPoint): boolean {
+    return (
+      other instanceof GeoPoint &&
+      other.latitude === this.latitude &&
+      other.longitude === this.longitude
+    );
+  }
+
+  toJSON(): { latitude: number; longitude: number } {
+    return { latitude: this.latitude, longitude: this.longitude };
+  }
+}
+
+const DOCUMENT_ID_FIELD = "__name__";
+
+export class FieldPath {
+  readonly segments: string[];
+
+  constructor(...segments: string[]) {
+    this.segments = segments;
+  }
+
+  static documentId(): FieldPath {
+    return new FieldPath(DOCUMENT_ID_FIELD);
+  }
+
+  isEqual(other: FieldPath): boolean {
+    return other instanceof FieldPath && other.segments.join(".") === this.segments.join(".");
+  }
+}
+
+type FieldValueKind = "serverTimestamp" | "delete" | "increment" | "arrayUnion" | "arrayRemove";
+
+/**
+ * Sentinel resolved when a write is applied
+ */
+export class FieldValue {
+  constructor(
+    readonly kind: FieldValueKind,
+    readonly operand?: unknown,
+  ) {}
+
+  isEqual(other: FieldValue): boolean {
+    return this === other;
+  }
+}
+
+export function serverTimestamp(): FieldValue {
+  return new FieldValue("serverTimestamp");
+}
+
+export function deleteField(): FieldValue {
+  return new FieldValue("delete");
+}
+
+export function increment(n: number): FieldValue {
+  return new FieldValue("increment", n);
+}
+
+export function arrayUnion(...elements: unknown[]): FieldValue {
+  return new FieldValue("arrayUnion", elements);
+}
+
+export function arrayRemove(...elements: unknown[]): FieldValue {
+  return new FieldValue("arrayRemove", elements);
+}
+
+/**
+ * Referenced document path of a document reference value
+ */
+function getReferencePath(value: unknown): string | null {
+  if (value && typeof value === "object" && (value as { type?: unknown }).type === "document") {
+    return (value as { path: string }).path;
+  }
+  return null;
+}
+
+/**
+ * Check if value is a plain map (not a Firestore value type)
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== "object") {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Split field path into segments
+ */
+export function toFieldSegments(field: string | FieldPath): string[] {
+  return field instanceof FieldPath ? field.segments : field.split(".");
+}
+
+/**
+ * Check if field path is documentId()
+ */
+export function isDocumentIdField(field: string | FieldPath): boolean {
+  const segments = toFieldSegments(field);
+  return segments.length === 1 && segments[0] === DOCUMENT_ID_FIELD;
+}
+
+/**
+ * Read nested field value
+ *
+ * @returns Field value, or undefined if the field does not exist
+ */
+export function getFieldValue(data: DocumentData | undefined, field: string | FieldPath): unknown {
+  let current: unknown = data;
+  for (const segment of toFieldSegments(field)) {
+    if (!isPlainObject(current) || !(segment in current)) {
+      return undefined;
+    }
+    current = current[segment];
+  }
+  return current;
+}
+
+/**
+ * Rank of a value type in Firestore's cross-type ordering
+ */
+function getTypeRank(value: unknown): number {
+  if (value === null || value === undefined) return 0;
+  if (typeof value === "boolean") return 1;
+  if (typeof value === "number") return 2;
+  if (value instanceof Timestamp) return 3;
+  if (typeof value === "string") return 4;
+  if (getReferencePath(value) !== null) return 5;
+  if (value instanceof GeoPoint) return 6;
+  if (Array.isArray(value)) return 7;
+  return 8;
+}
+
+function compareNumbers(a: number, b: number): number {
+  // NaN sorts before all other numbers
+  if (Number.isNaN(a)) return Number.isNaN(b) ? 0 : -1;
+  if (Number.isNaN(b)) return 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Compare two values the way Firestore orders them
+ * (null < boolean < number < timestamp < string < reference < geopoint < array < map)
+ *
+ * @returns Negative, zero or positive number
+ */
+export function compareValues(a: unknown, b: unknown): number {
+  const rankDiff = getTypeRank(a) - getTypeRank(b);
+  if (rankDiff !== 0) {
+    return rankDiff;
+  }
+
+  if (typeof a === "boolean" || typeof a === "number") {
+    return compareNumbers(Number(a), Number(b));
+  }
+  if (a instanceof Timestamp && b instanceof Timestamp) {
+    return compareNumbers(a.seconds, b.seconds) || compareNumbers(a.nanoseconds, b.nanoseconds);
+  }
+  if (typeof a === "string") {
+    return compareStrings(a, b as string);
+  }
+  if (a instanceof GeoPoint && b instanceof GeoPoint) {
+    return compareNumbers(a.latitude, b.latitude) || compareNumbers(a.longitude, b.longitude);
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      const diff = compareValues(a[i], b[i]);
+      if (diff !== 0) return diff;
+    }
+    return compareNumbers(a.length, b.length);
+  }
+
+  const pathA = getReferencePath(a);
+  if (pathA !== null) {
+    return compareStrings(pathA, getReferencePath(b)!);
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keysA = Object.keys(a).sort();
+    const keysB = Object.keys(b).sort();
+    for (let i = 0; i < Math.min(keysA.length, keysB.length); i++) {
+      const diff = compareStrings(keysA[i], keysB[i]) || compareValues(a[keysA[i]], b[keysB[i]]);
+      if (diff !== 0) return diff;
+    }
+    return compareNumbers(keysA.length, keysB.length);
+  }
+  return 0;
+}
+
+/**
+ * Check if two values are equal in Firestore's sense
+ */
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  return getTypeRank(a) === getTypeRank(b) && compareValues(a, b) === 0;
+}
+
+/**
+ * Check if two values have the same type for range comparisons
+ */
+export function isSameValueType(a: unknown, b: unknown): boolean {
+  return getTypeRank(a) === getTypeRank(b);
+}
+
+/**
+ * Deep-copy a stored value
+ * Dates become Timestamps, like in the Firestore SDK
+ *
+ * @throws InMemoryFirestoreError for undefined values
+ */
+export function cloneValue(value: unknown): unknown {
+  if (value === undefined) {
+    throw new InMemoryFirestoreError(
+      "invalid-argument",
+      "Unsupported field value: undefined",
+    );
+  }
+  if (value instanceof Date) {
+    return Timestamp.fromDate(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(cloneValue);
+  }
+  if (isPlainObject(value)) {
+    const copy: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = cloneValue(item);
+    }
+    return copy;
+  }
+  return value;
+}
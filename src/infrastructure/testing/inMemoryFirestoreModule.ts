@@ -0,0 +1,832 @@
+/**
+ * In-Memory Firestore - Module Functions
+ *
+ * Implements the subset of the 'firebase/firestore' modular API used by
+ * repositories (references, queries, reads, aggregations, writes, batches,
+ * transactions and snapshot listeners) on top of InMemoryFirestore.
+ *
+ * @example
+ * ```typescript
+ * jest.mock('firebase/firestore', () =>
+ *   require('@umituz/react-native-firestore/lib/testing').inMemoryFirestoreModule,
+ * );
+ * ```
+ */
+
+import type { DocumentData, FirestoreDataConverter, WhereFilterOp } from "firebase/firestore";
+import { InMemoryFirestore, getParentPath } from "./InMemoryFirestore";
+import type { InMemoryListener, InMemoryWrite } from "./InMemoryFirestore";
+import { runQuery } from "./InMemoryQueryEngine";
+import type {
+  InMemoryCompositeFilter,
+  InMemoryFieldFilter,
+  InMemoryFilter,
+  InMemoryQuerySpec,
+} from "./InMemoryQueryEngine";
+import {
+  FieldPath,
+  FieldValue,
+  GeoPoint,
+  InMemoryFirestoreError,
+  Timestamp,
+  arrayRemove,
+  arrayUnion,
+  cloneValue,
+  compareValues,
+  deleteField,
+  getFieldValue,
+  increment,
+  serverTimestamp,
+  toFieldSegments,
+} from "./InMemoryValues";
+
+type Converter<T> = FirestoreDataConverter<T, DocumentData> | null;
+
+type ParentReference =
+  | InMemoryFirestore
+  | InMemoryCollectionReference<unknown>
+  | InMemoryDocumentReference<unknown>;
+
+/**
+ * Snapshot metadata: from cache while the network is disabled,
+ * pending writes until the server acknowledges them
+ */
+function createMetadata(fromCache: boolean, hasPendingWrites: boolean) {
+  return Object.freeze({
+    fromCache,
+    hasPendingWrites,
+    isEqual: (other: { fromCache: boolean; hasPendingWrites: boolean }) =>
+      other.fromCache === fromCache && other.hasPendingWrites === hasPendingWrites,
+  });
+}
+
+function splitPath(path: string, segments: string[]): string[] {
+  return [path, ...segments]
+    .join("/")
+    .split("/")
+    .filter((segment) => segment.length > 0);
+}
+
+function assertPath(segments: string[], kind: "collection" | "document"): string {
+  const isCollection = segments.length % 2 === 1;
+  if (segments.length === 0 || isCollection !== (kind === "collection")) {
+    throw new InMemoryFirestoreError(
+      "invalid-argument",
+      `Invalid ${kind} path: ${segments.join("/")}`,
+    );
+  }
+  return segments.join("/");
+}
+
+// =============================================================================
+// References and queries
+// =============================================================================
+
+export class InMemoryQuery<T = DocumentData> {
+  readonly type: "query" | "collection" = "query";
+
+  constructor(
+    readonly firestore: InMemoryFirestore,
+    readonly spec: InMemoryQuerySpec,
+    readonly converter: Converter<T> = null,
+  ) {}
+
+  withConverter<U>(converter: FirestoreDataConverter<U, DocumentData> | null): InMemoryQuery<U> {
+    return new InMemoryQuery<U>(this.firestore, this.spec, converter);
+  }
+}
+
+export class InMemoryCollectionReference<T = DocumentData> extends InMemoryQuery<T> {
+  override readonly type = "collection" as const;
+
+  constructor(firestore: InMemoryFirestore, readonly path: string, converter: Converter<T> = null) {
+    super(firestore, createSpec(path, false), converter);
+  }
+
+  get id(): string {
+    return this.path.split("/").pop()!;
+  }
+
+  get parent(): InMemoryDocumentReference | null {
+    const parentPath = getParentPath(this.path);
+    return parentPath ? new InMemoryDocumentReference(this.firestore, parentPath) : null;
+  }
+
+  override withConverter<U>(
+    converter: FirestoreDataConverter<U, DocumentData> | null,
+  ): InMemoryCollectionReference<U> {
+    return new InMemoryCollectionReference<U>(this.firestore, this.path, converter);
+  }
+}
+
+export class InMemoryDocumentReference<T = DocumentData> {
+  readonly type = "document";
+
+  constructor(
+    readonly firestore: InMemoryFirestore,
+    readonly path: string,
+    readonly converter: Converter<T> = null,
+  ) {}
+
+  get id(): string {
+    return this.path.split("/").pop()!;
+  }
+
+  get parent(): InMemoryCollectionReference<T> {
+    return new InMemoryCollectionReference<T>(this.firestore, getParentPath(this.path), this.converter);
+  }
+
+  withConverter<U>(
+    converter: FirestoreDataConverter<U, DocumentData> | null,
+  ): InMemoryDocumentReference<U> {
+    return new InMemoryDocumentReference<U>(this.firestore, this.path, converter);
+  }
+}
+
+function createSpec(collectionPath: string, collectionGroup: boolean): InMemoryQuerySpec {
+  return {
+    collectionPath,
+    collectionGroup,
+    filters: [],
+    orderBy: [],
+    limit: null,
+    limitType: "first",
+    start: null,
+    end: null,
+  };
+}
+
+function getFirestoreOf(
+  parent: ParentReference,
+): InMemoryFirestore {
+  return parent instanceof InMemoryFirestore ? parent : parent.firestore;
+}
+
+export function collection(
+  parent: ParentReference,
+  path: string,
+  ...pathSegments: string[]
+): InMemoryCollectionReference {
+  const base = parent instanceof InMemoryFirestore ? [] : [parent.path];
+  const fullPath = assertPath(splitPath(base.join("/"), [path, ...pathSegments]), "collection");
+  return new InMemoryCollectionReference(getFirestoreOf(parent), fullPath);
+}
+
+export function collectionGroup(
+  firestore: InMemoryFirestore,
+  collectionId: string,
+): InMemoryQuery {
+  return new InMemoryQuery(firestore, createSpec(collectionId, true));
+}
+
+export function doc<T = DocumentData>(
+  parent: ParentReference,
+  path?: string,
+  ...pathSegments: string[]
+): InMemoryDocumentReference<T> {
+  const firestore = getFirestoreOf(parent);
+  // Documents of a collection keep its converter, like doc(collectionRef) in the SDK
+  const converter =
+    parent instanceof InMemoryCollectionReference ? (parent.converter as Converter<T>) : null;
+  if (parent instanceof InMemoryCollectionReference && path === undefined) {
+    return new InMemoryDocumentReference<T>(
+      firestore,
+      `${parent.path}/${firestore.generateId()}`,
+      converter,
+    );
+  }
+  const base = parent instanceof InMemoryFirestore ? "" : parent.path;
+  const fullPath = assertPath(splitPath(base, [path ?? "", ...pathSegments]), "document");
+  return new InMemoryDocumentReference<T>(firestore, fullPath, converter);
+}
+
+export function documentId(): FieldPath {
+  return FieldPath.documentId();
+}
+
+// =============================================================================
+// Query constraints
+// =============================================================================
+
+export class InMemoryQueryConstraint {
+  constructor(
+    readonly type: string,
+    private readonly applyFn: (spec: InMemoryQuerySpec) => InMemoryQuerySpec,
+  ) {}
+
+  apply(spec: InMemoryQuerySpec): InMemoryQuerySpec {
+    return this.applyFn(spec);
+  }
+}
+
+export class InMemoryFilterConstraint extends InMemoryQueryConstraint {
+  constructor(readonly filter: InMemoryFilter) {
+    super(filter.type, (spec) => ({ ...spec, filters: [...spec.filters, filter] }));
+  }
+}
+
+export function where(
+  field: string | FieldPath,
+  op: WhereFilterOp,
+  value: unknown,
+): InMemoryFilterConstraint {
+  // Dates become Timestamps, like stored values
+  const filter: InMemoryFieldFilter = { type: "where", field, op, value: cloneValue(value) };
+  return new InMemoryFilterConstraint(filter);
+}
+
+function composite(
+  type: InMemoryCompositeFilter["type"],
+  constraints: InMemoryFilterConstraint[],
+): InMemoryFilterConstraint {
+  return new InMemoryFilterConstraint({
+    type,
+    filters: constraints.map((constraint) => constraint.filter),
+  });
+}
+
+export function and(...constraints: InMemoryFilterConstraint[]): InMemoryFilterConstraint {
+  return composite("and", constraints);
+}
+
+export function or(...constraints: InMemoryFilterConstraint[]): InMemoryFilterConstraint {
+  return composite("or", constraints);
+}
+
+export function orderBy(
+  field: string | FieldPath,
+  direction: "asc" | "desc" = "asc",
+): InMemoryQueryConstraint {
+  return new InMemoryQueryConstraint("orderBy", (spec) => ({
+    ...spec,
+    orderBy: [...spec.orderBy, { field, direction }],
+  }));
+}
+
+export function limit(count: number): InMemoryQueryConstraint {
+  return new InMemoryQueryConstraint("limit", (spec) => ({
+    ...spec,
+    limit: count,
+    limitType: "first",
+  }));
+}
+
+export function limitToLast(count: number): InMemoryQueryConstraint {
+  return new InMemoryQueryConstraint("limitToLast", (spec) => ({
+    ...spec,
+    limit: count,
+    limitType: "last",
+  }));
+}
+
+function cursorConstraint(
+  type: "startAt" | "startAfter" | "endAt" | "endBefore",
+  values: unknown[],
+): InMemoryQueryConstraint {
+  const inclusive = type === "startAt" || type === "endAt";
+  const cursor = { values: values.map(cloneValue), inclusive };
+  return new InMemoryQueryConstraint(type, (spec) =>
+    type.startsWith("start") ? { ...spec, start: cursor } : { ...spec, end: cursor },
+  );
+}
+
+export function startAt(...values: unknown[]): InMemoryQueryConstraint {
+  return cursorConstraint("startAt", values);
+}
+
+export function startAfter(...values: unknown[]): InMemoryQueryConstraint {
+  return cursorConstraint("startAfter", values);
+}
+
+export function endAt(...values: unknown[]): InMemoryQueryConstraint {
+  return cursorConstraint("endAt", values);
+}
+
+export function endBefore(...values: unknown[]): InMemoryQueryConstraint {
+  return cursorConstraint("endBefore", values);
+}
+
+export function query<T>(
+  base: InMemoryQuery<T>,
+  ...constraints: InMemoryQueryConstraint[]
+): InMemoryQuery<T> {
+  const spec = constraints.reduce((current, constraint) => constraint.apply(current), base.spec);
+  return new InMemoryQuery<T>(base.firestore, spec, base.converter);
+}
+
+// =============================================================================
+// Snapshots
+// =============================================================================
+
+export class InMemoryDocumentSnapshot<T = DocumentData> {
+  readonly metadata: ReturnType<typeof createMetadata>;
+
+  constructor(
+    readonly ref: InMemoryDocumentReference<T>,
+    /** Stored data without converter (internal) */
+    readonly rawData: DocumentData | undefined,
+  ) {
+    this.metadata = createMetadata(
+      !ref.firestore.isNetworkEnabled(),
+      ref.firestore.hasPendingWrites(ref.path),
+    );
+  }
+
+  get id(): string {
+    return this.ref.id;
+  }
+
+  exists(): boolean {
+    return this.rawData !== undefined;
+  }
+
+  data(): T | undefined {
+    if (this.rawData === undefined) {
+      return undefined;
+    }
+    if (this.ref.converter) {
+      const rawSnapshot = new InMemoryQueryDocumentSnapshot<DocumentData>(
+        this.ref.withConverter(null),
+        this.rawData,
+      );
+      return this.ref.converter.fromFirestore(rawSnapshot as never);
+    }
+    return this.rawData as T;
+  }
+
+  get(field: string | FieldPath): unknown {
+    return getFieldValue(this.rawData, field);
+  }
+}
+
+export class InMemoryQueryDocumentSnapshot<T = DocumentData> extends InMemoryDocumentSnapshot<T> {
+  override data(): T {
+    return super.data() as T;
+  }
+}
+
+export interface InMemoryDocumentChange<T = DocumentData> {
+  type: "added" | "modified" | "removed";
+  doc: InMemoryQueryDocumentSnapshot<T>;
+  oldIndex: number;
+  newIndex: number;
+}
+
+export class InMemoryQuerySnapshot<T = DocumentData> {
+  readonly metadata: ReturnType<typeof createMetadata>;
+
+  constructor(
+    readonly query: InMemoryQuery<T>,
+    readonly docs: InMemoryQueryDocumentSnapshot<T>[],
+    private readonly changes: InMemoryDocumentChange<T>[],
+  ) {
+    this.metadata = createMetadata(
+      !query.firestore.isNetworkEnabled(),
+      docs.some((docSnap) => docSnap.metadata.hasPendingWrites),
+    );
+  }
+
+  get size(): number {
+    return this.docs.length;
+  }
+
+  get empty(): boolean {
+    return this.docs.length === 0;
+  }
+
+  forEach(callback: (doc: InMemoryQueryDocumentSnapshot<T>) => void): void {
+    this.docs.forEach(callback);
+  }
+
+  docChanges(): InMemoryDocumentChange<T>[] {
+    return this.changes;
+  }
+}
+
+/**
+ * Snapshot of stored data; data is copied so callers cannot mutate the store
+ */
+function snapshotDocument<T>(ref: InMemoryDocumentReference<T>): InMemoryDocumentSnapshot<T> {
+  return new InMemoryDocumentSnapshot(ref, ref.firestore.getDocumentData(ref.path));
+}
+
+function executeQuery<T>(q: InMemoryQuery<T>): InMemoryQueryDocumentSnapshot<T>[] {
+  const documents = q.firestore
+    .listDocuments(q.spec.collectionPath, q.spec.collectionGroup)
+    .map(([path, data]) => ({ path, data }));
+  return runQuery(q.spec, documents).map(
+    (document) =>
+      new InMemoryQueryDocumentSnapshot<T>(
+        new InMemoryDocumentReference<T>(q.firestore, document.path, q.converter),
+        q.firestore.getDocumentData(document.path),
+      ),
+  );
+}
+
+/**
+ * Changes between two query results, like QuerySnapshot.docChanges()
+ */
+function diffDocuments<T>(
+  previous: InMemoryQueryDocumentSnapshot<T>[],
+  next: InMemoryQueryDocumentSnapshot<T>[],
+): InMemoryDocumentChange<T>[] {
+  const changes: InMemoryDocumentChange<T>[] = [];
+  const nextIndex = new Map(next.map((docSnap, index) => [docSnap.ref.path, index]));
+  const previousIndex = new Map(previous.map((docSnap, index) => [docSnap.ref.path, index]));
+
+  previous.forEach((docSnap, index) => {
+    if (!nextIndex.has(docSnap.ref.path)) {
+      changes.push({ type: "removed", doc: docSnap, oldIndex: index, newIndex: -1 });
+    }
+  });
+  next.forEach((docSnap, index) => {
+    const oldIndex = previousIndex.get(docSnap.ref.path);
+    if (oldIndex === undefined) {
+      changes.push({ type: "added", doc: docSnap, oldIndex: -1, newIndex: index });
+    } else if (!sameData(previous[oldIndex], docSnap)) {
+      changes.push({ type: "modified", doc: docSnap, oldIndex, newIndex: index });
+    }
+  });
+  return changes;
+}
+
+function sameData(a: InMemoryDocumentSnapshot<unknown>, b: InMemoryDocumentSnapshot<unknown>): boolean {
+  return a.exists() === b.exists() && compareValues(a.rawData ?? null, b.rawData ?? null) === 0;
+}
+
+// =============================================================================
+// Reads
+// =============================================================================
+
+export async function getDoc<T>(
+  ref: InMemoryDocumentReference<T>,
+): Promise<InMemoryDocumentSnapshot<T>> {
+  return snapshotDocument(ref);
+}
+
+export async function getDocs<T>(q: InMemoryQuery<T>): Promise<InMemoryQuerySnapshot<T>> {
+  const docs = executeQuery(q);
+  return new InMemoryQuerySnapshot(q, docs, diffDocuments([], docs));
+}
+
+// =============================================================================
+// Aggregations
+// =============================================================================
+
+type AggregateType = "count" | "sum" | "avg";
+
+/**
+ * Aggregation of a query; shaped like the SDK's AggregateField
+ */
+export class InMemoryAggregateField {
+  readonly type = "AggregateField";
+
+  constructor(
+    readonly aggregateType: AggregateType,
+    readonly _internalFieldPath?: { segments: string[]; offset: number; len: number },
+  ) {}
+}
+
+type InMemoryAggregateSpec = Record<string, InMemoryAggregateField>;
+
+export class InMemoryAggregateQuerySnapshot<S extends InMemoryAggregateSpec> {
+  constructor(
+    readonly query: InMemoryQuery<unknown>,
+    private readonly result: { [K in keyof S]: number | null },
+  ) {}
+
+  data(): { [K in keyof S]: number | null } {
+    return { ...this.result };
+  }
+}
+
+function toAggregateField(aggregateType: AggregateType, field: string | FieldPath) {
+  const segments = toFieldSegments(field);
+  return new InMemoryAggregateField(aggregateType, {
+    segments,
+    offset: 0,
+    len: segments.length,
+  });
+}
+
+export function count(): InMemoryAggregateField {
+  return new InMemoryAggregateField("count");
+}
+
+export function sum(field: string | FieldPath): InMemoryAggregateField {
+  return toAggregateField("sum", field);
+}
+
+export function average(field: string | FieldPath): InMemoryAggregateField {
+  return toAggregateField("avg", field);
+}
+
+/**
+ * Aggregate matching documents; sum and average skip non-numeric values,
+ * average is null without numeric values
+ */
+export async function getAggregateFromServer<S extends InMemoryAggregateSpec>(
+  q: InMemoryQuery<unknown>,
+  spec: S,
+): Promise<InMemoryAggregateQuerySnapshot<S>> {
+  const docs = executeQuery(q);
+  const result = {} as { [K in keyof S]: number | null };
+
+  for (const alias of Object.keys(spec) as (keyof S)[]) {
+    const field = spec[alias];
+    if (field.aggregateType === "count") {
+      result[alias] = docs.length;
+      continue;
+    }
+    const path = field._internalFieldPath!.segments.join(".");
+    const values = docs
+      .map((docSnap) => getFieldValue(docSnap.rawData ?? {}, path))
+      .filter((value): value is number => typeof value === "number");
+    const total = values.reduce((acc, value) => acc + value, 0);
+    result[alias] =
+      field.aggregateType === "sum" ? total : values.length > 0 ? total / values.length : null;
+  }
+  return new InMemoryAggregateQuerySnapshot(q, result);
+}
+
+export async function getCountFromServer(
+  q: InMemoryQuery<unknown>,
+): Promise<InMemoryAggregateQuerySnapshot<{ count: InMemoryAggregateField }>> {
+  return getAggregateFromServer(q, { count: count() });
+}
+
+// =============================================================================
+// Writes
+// =============================================================================
+
+interface SetOptions {
+  merge?: boolean;
+}
+
+function toSetWrite<T>(
+  ref: InMemoryDocumentReference<T>,
+  data: T,
+  options?: SetOptions,
+): InMemoryWrite {
+  const converted = ref.converter
+    ? options
+      ? ref.converter.toFirestore(data as never, options as never)
+      : ref.converter.toFirestore(data)
+    : (data as DocumentData);
+  return { type: "set", path: ref.path, data: converted, merge: options?.merge ?? false };
+}
+
+function toUpdateWrite(
+  ref: InMemoryDocumentReference<unknown>,
+  dataOrField: DocumentData | string | FieldPath,
+  moreFieldsAndValues: unknown[],
+): InMemoryWrite {
+  const fields: [string | FieldPath, unknown][] =
+    typeof dataOrField === "string" || dataOrField instanceof FieldPath
+      ? [[dataOrField, moreFieldsAndValues[0]]]
+      : Object.entries(dataOrField);
+  for (let i = 1; i < moreFieldsAndValues.length; i += 2) {
+    fields.push([moreFieldsAndValues[i] as string | FieldPath, moreFieldsAndValues[i + 1]]);
+  }
+  return { type: "update", path: ref.path, fields };
+}
+
+export async function setDoc<T>(
+  ref: InMemoryDocumentReference<T>,
+  data: T,
+  options?: SetOptions,
+): Promise<void> {
+  ref.firestore.commit([toSetWrite(ref, data, options)]);
+  await ref.firestore.acknowledge([ref.path]);
+}
+
+export async function addDoc<T>(
+  ref: InMemoryCollectionReference<T>,
+  data: T,
+): Promise<InMemoryDocumentReference<T>> {
+  const docRef = new InMemoryDocumentReference<T>(
+    ref.firestore,
+    `${ref.path}/${ref.firestore.generateId()}`,
+    ref.converter,
+  );
+  ref.firestore.commit([toSetWrite(docRef, data)]);
+  await ref.firestore.acknowledge([docRef.path]);
+  return docRef;
+}
+
+export async function updateDoc(
+  ref: InMemoryDocumentReference<unknown>,
+  dataOrField: DocumentData | string | FieldPath,
+  ...moreFieldsAndValues: unknown[]
+): Promise<void> {
+  ref.firestore.commit([toUpdateWrite(ref, dataOrField, moreFieldsAndValues)]);
+  await ref.firestore.acknowledge([ref.path]);
+}
+
+export async function deleteDoc(ref: InMemoryDocumentReference<unknown>): Promise<void> {
+  ref.firestore.commit([{ type: "delete", path: ref.path }]);
+  await ref.firestore.acknowledge([ref.path]);
+}
+
+export class InMemoryWriteBatch {
+  private writes: InMemoryWrite[] = [];
+  private committed = false;
+
+  constructor(private readonly firestore: InMemoryFirestore) {}
+
+  set<T>(ref: InMemoryDocumentReference<T>, data: T, options?: SetOptions): this {
+    this.writes.push(toSetWrite(ref, data, options));
+    return this;
+  }
+
+  update(
+    ref: InMemoryDocumentReference<unknown>,
+    dataOrField: DocumentData | string | FieldPath,
+    ...moreFieldsAndValues: unknown[]
+  ): this {
+    this.writes.push(toUpdateWrite(ref, dataOrField, moreFieldsAndValues));
+    return this;
+  }
+
+  delete(ref: InMemoryDocumentReference<unknown>): this {
+    this.writes.push({ type: "delete", path: ref.path });
+    return this;
+  }
+
+  async commit(): Promise<void> {
+    if (this.committed) {
+      throw new InMemoryFirestoreError(
+        "failed-precondition",
+        "A write batch can no longer be used after commit() has been called.",
+      );
+    }
+    this.committed = true;
+    this.firestore.commit(this.writes);
+    await this.firestore.acknowledge(this.writes.map((write) => write.path));
+  }
+}
+
+export function writeBatch(firestore: InMemoryFirestore): InMemoryWriteBatch {
+  return new InMemoryWriteBatch(firestore);
+}
+
+export class InMemoryTransaction extends InMemoryWriteBatch {
+  async get<T>(ref: InMemoryDocumentReference<T>): Promise<InMemoryDocumentSnapshot<T>> {
+    return snapshotDocument(ref);
+  }
+}
+
+/**
+ * Run transaction; writes are applied atomically after updateFunction resolves
+ * and discarded if it throws. Fails while the network is disabled, like Firestore.
+ */
+export async function runTransaction<T>(
+  firestore: InMemoryFirestore,
+  updateFunction: (transaction: InMemoryTransaction) => Promise<T>,
+): Promise<T> {
+  if (!firestore.isNetworkEnabled()) {
+    throw new InMemoryFirestoreError("unavailable", "Transactions require the network.");
+  }
+  const transaction = new InMemoryTransaction(firestore);
+  const result = await updateFunction(transaction);
+  await transaction.commit();
+  return result;
+}
+
+// =============================================================================
+// Listeners
+// =============================================================================
+
+type SnapshotObserver<S> = {
+  next?: (snapshot: S) => void;
+  error?: (error: Error) => void;
+};
+
+function toObserver<S>(args: unknown[]): SnapshotObserver<S> {
+  // Skip SnapshotListenOptions, e.g. { includeMetadataChanges: true }
+  const rest =
+    args[0] && typeof args[0] === "object" && !("next" in args[0]) && !("error" in args[0])
+      ? args.slice(1)
+      : args;
+  if (rest[0] && typeof rest[0] === "object") {
+    return rest[0] as SnapshotObserver<S>;
+  }
+  return {
+    next: rest[0] as SnapshotObserver<S>["next"],
+    error: rest[1] as SnapshotObserver<S>["error"],
+  };
+}
+
+/**
+ * Listen to a document or query
+ * The first snapshot is delivered asynchronously, later ones after each
+ * commit that changes the result
+ */
+export function onSnapshot(
+  target: InMemoryDocumentReference<unknown> | InMemoryQuery<unknown>,
+  ...args: unknown[]
+): () => void {
+  const observer = toObserver<unknown>(args);
+  const firestore = target.firestore;
+  let active = true;
+  let lastDocument: InMemoryDocumentSnapshot<unknown> | null = null;
+  let lastDocs: InMemoryQueryDocumentSnapshot<unknown>[] | null = null;
+
+  const listener: InMemoryListener = {
+    refresh: () => {
+      if (!active) return;
+      if (target instanceof InMemoryDocumentReference) {
+        const snapshot = snapshotDocument(target);
+        if (lastDocument && sameData(lastDocument, snapshot)) return;
+        lastDocument = snapshot;
+        observer.next?.(snapshot);
+        return;
+      }
+
+      let docs: InMemoryQueryDocumentSnapshot<unknown>[];
+      try {
+        docs = executeQuery(target);
+      } catch (error) {
+        active = false;
+        firestore.removeListener(listener);
+        observer.error?.(error as Error);
+        return;
+      }
+      const changes = diffDocuments(lastDocs ?? [], docs);
+      if (lastDocs && changes.length === 0) return;
+      lastDocs = docs;
+      observer.next?.(new InMemoryQuerySnapshot(target, docs, changes));
+    },
+  };
+
+  firestore.addListener(listener);
+  Promise.resolve().then(listener.refresh);
+
+  return () => {
+    active = false;
+    firestore.removeListener(listener);
+  };
+}
+
+// =============================================================================
+// Network
+// =============================================================================
+
+export async function enableNetwork(firestore: InMemoryFirestore): Promise<void> {
+  firestore.setNetworkEnabled(true);
+}
+
+export async function disableNetwork(firestore: InMemoryFirestore): Promise<void> {
+  firestore.setNetworkEnabled(false);
+}
+
+export function waitForPendingWrites(firestore: InMemoryFirestore): Promise<void> {
+  return firestore.waitForPendingWrites();
+}
+
+/**
+ * Drop-in replacement for the 'firebase/firestore' module
+ */
+export const inMemoryFirestoreModule = {
+  Timestamp,
+  GeoPoint,
+  FieldPath,
+  FieldValue,
+  serverTimestamp,
+  deleteField,
+  increment,
+  arrayUnion,
+  arrayRemove,
+  collection,
+  collectionGroup,
+  doc,
+  documentId,
+  query,
+  where,
+  and,
+  or,
+  orderBy,
+  limit,
+  limitToLast,
+  startAt,
+  startAfter,
+  endAt,
+  endBefore,
+  getDoc,
+  getDocs,
+  count,
+  sum,
+  average,
+  getCountFromServer,
+  getAggregateFromServer,
+  setDoc,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  writeBatch,
+  runTransaction,
+  onSnapshot,
+  enableNetwork,
+  disableNetwork,
+  waitForPendingWrites,
+};
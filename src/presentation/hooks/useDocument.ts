@@ -0,0 +1,34 @@
+/**
+ * useDocument Hook
+ *
+ * Load a single document from a FirestoreRepository.
+ *
+ * @example
+ * ```typescript
+ * const { data: post, isLoading, quotaError } = useDocument(postRepository, postId);
+ * ```
+ */
+
+import type { FirestoreRepository } from '../../infrastructure/repositories/FirestoreRepository';
+import type { FirestoreHookOptions, UseDocumentResult } from '../../types/hooks.types';
+import { useFirestoreFetch } from './useFirestoreFetch';
+
+/**
+ * @param repository - Repository to read from
+ * @param id - Document ID (fetching is skipped and data reset to null while null/undefined)
+ * @param options - Hook options
+ * @returns Document state
+ */
+export function useDocument<T>(
+  repository: FirestoreRepository<T>,
+  id: string | null | undefined,
+  options: FirestoreHookOptions = {},
+): UseDocumentResult<T> {
+  const enabled = options.enabled !== false && !!id;
+
+  return useFirestoreFetch<T | null>(
+    enabled ? () => repository.getById(id!) : null,
+    [repository, id, enabled],
+    null,
+  );
+}
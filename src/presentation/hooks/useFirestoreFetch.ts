@@ -0,0 +1,132 @@
+/**
+ * useFirestoreFetch Hook
+ *
+ * Internal building block for the data hooks.
+ * Runs a fetcher, tracks loading/refreshing/error state and ignores
+ * results that arrive after unmount or after a newer request started.
+ * Disabling the fetcher (null) resets data to initialData.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { DependencyList } from 'react';
+import { FirebaseFirestoreQuotaError } from '../../domain/errors/FirebaseFirestoreError';
+import type { FirestoreHookState } from '../../types/hooks.types';
+
+export interface FirestoreFetchState<T> extends FirestoreHookState {
+  data: T;
+}
+
+/**
+ * Normalize unknown thrown value to Error
+ */
+export function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Extract typed quota error
+ */
+export function toQuotaError(error: Error | null): FirebaseFirestoreQuotaError | null {
+  return error instanceof FirebaseFirestoreQuotaError ? error : null;
+}
+
+/**
+ * Track whether the component is still mounted
+ */
+export function useIsMounted(): () => boolean {
+  const mountedRef = useRef(false);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  return useCallback(() => mountedRef.current, []);
+}
+
+/**
+ * Run fetcher whenever deps change
+ *
+ * @param fetcher - Function returning data, or null to skip fetching and reset data
+ * @param deps - Dependencies that trigger a new fetch
+ * @param initialData - Data before the first successful fetch
+ */
+export function useFirestoreFetch<T>(
+  fetcher: (() => Promise<T>) | null,
+  deps: DependencyList,
+  initialData: T,
+): FirestoreFetchState<T> {
+  const [data, setData] = useState<T>(initialData);
+  const [isLoading, setIsLoading] = useState(fetcher !== null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const isMounted = useIsMounted();
+  const requestIdRef = useRef(0);
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+  const initialDataRef = useRef(initialData);
+  initialDataRef.current = initialData;
+
+  const run = useCallback(
+    async (refreshing: boolean): Promise<void> => {
+      const requestId = ++requestIdRef.current;
+      const currentFetcher = fetcherRef.current;
+
+      if (!currentFetcher) {
+        // Don't keep showing data of the previous fetcher
+        setData(initialDataRef.current);
+        setError(null);
+        setIsLoading(false);
+        setIsRefreshing(false);
+        return;
+      }
+
+      if (refreshing) {
+        setIsRefreshing(true);
+      } else {
+        setIsLoading(true);
+      }
+
+      const isCurrent = () => isMounted() && requestId === requestIdRef.current;
+
+      try {
+        const result = await currentFetcher();
+        if (!isCurrent()) return;
+        setData(result);
+        setError(null);
+      } catch (err) {
+        if (!isCurrent()) return;
+        setError(toError(err));
+      } finally {
+        if (isCurrent()) {
+          setIsLoading(false);
+          setIsRefreshing(false);
+        }
+      }
+    },
+    [isMounted],
+  );
+
+  useEffect(() => {
+    run(false);
+    return () => {
+      // Invalidate in-flight request when deps change or on unmount
+      requestIdRef.current++;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, deps);
+
+  const refresh = useCallback(() => run(true), [run]);
+
+  return {
+    data,
+    isLoading,
+    isRefreshing,
+    error,
+    quotaError: toQuotaError(error),
+    refresh,
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * useNetworkState Hook
+ *
+ * Subscribe to connectivity and sync state updates from NetworkStateService.
+ * Pass an instance key to follow another Firestore instance.
+ *
+ * @example
+ * ```typescript
+ * const network = useNetworkState();
+ * const label = network.synced ? 'Saved' : network.connectivity === 'offline' ? 'Saved offline' : 'Saving…';
+ * ```
+ */
+
+import { useEffect, useState } from 'react';
+import { networkStateService } from '../../infrastructure/services/NetworkStateService';
+import type { NetworkState } from '../../domain/entities/NetworkState';
+import { DEFAULT_FIRESTORE_INSTANCE } from '../../domain/constants/FirestoreInstanceDefaults';
+
+/**
+ * @param instance - Firestore instance key (default instance if omitted)
+ * @returns Current network state, updated on every change
+ */
+export function useNetworkState(instance: string = DEFAULT_FIRESTORE_INSTANCE): NetworkState {
+  const [state, setState] = useState<NetworkState>(() => networkStateService.getState(instance));
+
+  useEffect(() => {
+    // Catch up with changes between first render and subscription
+    setState(networkStateService.getState(instance));
+    return networkStateService.addListener(setState, instance);
+  }, [instance]);
+
+  return state;
+}
@@ -0,0 +1,142 @@
+/**
+ * usePaginatedQuery Hook
+ *
+ * Load cursor-based pages from a BasePaginatedRepository method
+ * and accumulate them into a single list.
+ *
+ * @example
+ * ```typescript
+ * const { items, hasMore, loadMore, refresh, isRefreshing } = usePaginatedQuery(
+ *   (params) => postRepository.getPosts(params),
+ *   [userId],
+ *   { limit: 20 },
+ * );
+ * ```
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { DependencyList } from 'react';
+import type { PaginatedResult, PaginationParams } from '../../types/pagination.types';
+import type {
+  UsePaginatedQueryOptions,
+  UsePaginatedQueryResult,
+} from '../../types/hooks.types';
+import { toError, toQuotaError, useIsMounted } from './useFirestoreFetch';
+
+type LoadMode = 'initial' | 'refresh' | 'more';
+
+/**
+ * @param fetchPage - Function returning one page for the given params
+ * @param deps - Dependencies that reset the list and reload the first page
+ * @param options - Hook options
+ * @returns Paginated list state
+ */
+export function usePaginatedQuery<T>(
+  fetchPage: (params: PaginationParams) => Promise<PaginatedResult<T>>,
+  deps: DependencyList,
+  options: UsePaginatedQueryOptions = {},
+): UsePaginatedQueryResult<T> {
+  const enabled = options.enabled !== false;
+  const pageLimit = options.limit;
+
+  const [items, setItems] = useState<T[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(enabled);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const isMounted = useIsMounted();
+  const requestIdRef = useRef(0);
+  const cursorRef = useRef<string | null>(null);
+  const loadingMoreRef = useRef(false);
+  const fetchPageRef = useRef(fetchPage);
+  fetchPageRef.current = fetchPage;
+
+  const load = useCallback(
+    async (mode: LoadMode): Promise<void> => {
+      const requestId = ++requestIdRef.current;
+      const isCurrent = () => isMounted() && requestId === requestIdRef.current;
+
+      if (mode === 'more') {
+        loadingMoreRef.current = true;
+        setIsLoadingMore(true);
+      } else if (mode === 'refresh') {
+        setIsRefreshing(true);
+      } else {
+        setIsLoading(true);
+      }
+
+      try {
+        const result = await fetchPageRef.current({
+          limit: pageLimit,
+          cursor: mode === 'more' ? cursorRef.current ?? undefined : undefined,
+        });
+        if (!isCurrent()) return;
+
+        cursorRef.current = result.nextCursor;
+        setItems((previous) =>
+          mode === 'more' ? [...previous, ...result.items] : result.items,
+        );
+        setHasMore(result.hasMore);
+        setError(null);
+      } catch (err) {
+        if (!isCurrent()) return;
+        setError(toError(err));
+      } finally {
+        if (requestId === requestIdRef.current) {
+          loadingMoreRef.current = false;
+        }
+        if (isCurrent()) {
+          setIsLoading(false);
+          setIsLoadingMore(false);
+          setIsRefreshing(false);
+        }
+      }
+    },
+    [isMounted, pageLimit],
+  );
+
+  useEffect(() => {
+    cursorRef.current = null;
+    setItems([]);
+    setHasMore(false);
+
+    if (enabled) {
+      load('initial');
+    } else {
+      setIsLoading(false);
+    }
+
+    return () => {
+      // Invalidate in-flight request when deps change or on unmount
+      requestIdRef.current++;
+      loadingMoreRef.current = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [...deps, enabled, load]);
+
+  const loadMore = useCallback(async (): Promise<void> => {
+    if (!enabled || !hasMore || loadingMoreRef.current || !cursorRef.current) {
+      return;
+    }
+    await load('more');
+  }, [enabled, hasMore, load]);
+
+  const refresh = useCallback(async (): Promise<void> => {
+    if (!enabled) return;
+    await load('refresh');
+  }, [enabled, load]);
+
+  return {
+    items,
+    hasMore,
+    isLoading,
+    isLoadingMore,
+    isRefreshing,
+    error,
+    quotaError: toQuotaError(error),
+    loadMore,
+    refresh,
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * useQuery Hook
+ *
+ * Run a list query and keep its result in state.
+ *
+ * @example
+ * ```typescript
+ * const { data: posts, isLoading, refresh } = useQuery(
+ *   () => postRepository.getMany({ baseFilters: [createEqualFilter('authorId', userId)] }),
+ *   [userId],
+ * );
+ * ```
+ */
+
+import type { DependencyList } from 'react';
+import type { FirestoreHookOptions, UseQueryResult } from '../../types/hooks.types';
+import { useFirestoreFetch } from './useFirestoreFetch';
+
+const EMPTY_ITEMS: never[] = [];
+
+/**
+ * @param queryFn - Function returning query results
+ * @param deps - Dependencies that trigger a new query
+ * @param options - Hook options
+ * @returns Query state
+ */
+export function useQuery<T>(
+  queryFn: () => Promise<T[]>,
+  deps: DependencyList,
+  options: FirestoreHookOptions = {},
+): UseQueryResult<T> {
+  const enabled = options.enabled !== false;
+
+  return useFirestoreFetch<T[]>(
+    enabled ? queryFn : null,
+    [...deps, enabled],
+    EMPTY_ITEMS,
+  );
+}
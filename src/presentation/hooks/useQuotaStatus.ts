@@ -0,0 +1,37 @@
+/**
+ * useQuotaStatus Hook
+ *
+ * Subscribe to quota usage updates from QuotaMonitorService.
+ * Pass an instance key to follow another Firestore instance.
+ *
+ * @example
+ * ```typescript
+ * const status = useQuotaStatus();
+ * if (status.isNearLimit) showQuotaWarning(status.readPercentage);
+ *
+ * const analyticsStatus = useQuotaStatus('[DEFAULT]/analytics');
+ * ```
+ */
+
+import { useEffect, useState } from 'react';
+import { getQuotaMonitor } from '../../infrastructure/services/QuotaMonitorService';
+import type { QuotaStatus } from '../../domain/entities/QuotaMetrics';
+
+/**
+ * @param instance - Firestore instance key (default instance if omitted)
+ * @returns Current quota status, updated on every tracked operation
+ */
+export function useQuotaStatus(instance?: string): QuotaStatus {
+  const [status, setStatus] = useState<QuotaStatus>(() =>
+    getQuotaMonitor(instance).getStatus(),
+  );
+
+  useEffect(() => {
+    const monitor = getQuotaMonitor(instance);
+    // Catch up with changes between first render and subscription
+    setStatus(monitor.getStatus());
+    return monitor.addListener(setStatus);
+  }, [instance]);
+
+  return status;
+}
@@ -0,0 +1,46 @@
+/**
+ * @umituz/react-native-firestore/lib/testing
+ *
+ * In-memory Firestore for unit-testing repositories without network or emulator.
+ * Kept out of the main entry: it replaces 'firebase/firestore' and must not
+ * load modules that import it.
+ *
+ * Usage:
+ * ```typescript
+ * jest.mock('firebase/firestore', () =>
+ *   require('@umituz/react-native-firestore/lib/testing').inMemoryFirestoreModule,
+ * );
+ *
+ * import { createInMemoryFirestore } from '@umituz/react-native-firestore/lib/testing';
+ * import { setFirestoreInstance } from '@umituz/react-native-firestore';
+ *
+ * const db = createInMemoryFirestore();
+ * setFirestoreInstance(db.asFirestore());
+ * ```
+ */
+
+export {
+  InMemoryFirestore,
+  createInMemoryFirestore,
+} from './infrastructure/testing/InMemoryFirestore';
+
+export type { InMemoryWrite } from './infrastructure/testing/InMemoryFirestore';
+
+export {
+  inMemoryFirestoreModule,
+  InMemoryCollectionReference,
+  InMemoryDocumentReference,
+  InMemoryQuery,
+  InMemoryDocumentSnapshot,
+  InMemoryQueryDocumentSnapshot,
+  InMemoryQuerySnapshot,
+  InMemoryWriteBatch,
+  InMemoryTransaction,
+} from './infrastructure/testing/inMemoryFirestoreModule';
+
+export {
+  InMemoryFirestoreError,
+  Timestamp,
+  GeoPoint,
+  FieldPath,
+} from './infrastructure/testing/InMemoryValues';
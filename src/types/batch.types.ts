@@ -0,0 +1,117 @@
+/**
+ * Batch Write Types
+ *
+ * Types for writing large numbers of documents with automatic chunking.
+ *
+ * @example
+ * ```typescript
+ * const result = await this.executeBatchWrite(
+ *   ids.map((id) => ({ type: 'delete', collection: 'notifications', id })),
+ *   { concurrency: 3, onProgress: (p) => console.log(p.committedOperations) },
+ * );
+ * ```
+ */
+
+import type { DocumentData, UpdateData } from 'firebase/firestore';
+import type { RepositoryOperationOptions } from './operation.types';
+
+/**
+ * Single operation in a batch write
+ */
+export type BatchOperation =
+  | {
+      type: 'set';
+      collection: string;
+      id: string;
+      data: DocumentData;
+      merge?: boolean;
+    }
+  | {
+      type: 'update';
+      collection: string;
+      id: string;
+      data: UpdateData<DocumentData>;
+    }
+  | {
+      type: 'delete';
+      collection: string;
+      id: string;
+    };
+
+/**
+ * Progress reported after each chunk finishes
+ */
+export interface BatchProgress {
+  completedChunks: number;
+  totalChunks: number;
+  committedOperations: number;
+  totalOperations: number;
+  failedChunks: number;
+}
+
+/**
+ * Options for batch writes
+ */
+export interface BatchWriteOptions extends RepositoryOperationOptions {
+  /**
+   * Operations per batch (capped at Firestore's 500 limit)
+   * @default 500
+   */
+  chunkSize?: number;
+
+  /**
+   * Number of batches committed in parallel
+   * @default 1
+   */
+  concurrency?: number;
+
+  /**
+   * Stop scheduling new chunks after the first failure
+   * Quota errors always stop remaining chunks
+   * @default false
+   */
+  stopOnError?: boolean;
+
+  /**
+   * Called after each chunk is committed or failed
+   */
+  onProgress?: (progress: BatchProgress) => void;
+}
+
+/**
+ * Outcome of a single chunk
+ */
+export interface BatchChunkResult {
+  /**
+   * Chunk index (0-based, in operation order)
+   */
+  index: number;
+
+  /**
+   * Index of the first operation of this chunk in the input list
+   */
+  startIndex: number;
+
+  operationCount: number;
+
+  /**
+   * committed: written to Firestore
+   * failed: commit rejected
+   * skipped: not attempted because a previous chunk failed
+   */
+  status: 'committed' | 'failed' | 'skipped';
+
+  error?: Error;
+}
+
+/**
+ * Result of a batch write
+ */
+export interface BatchWriteResult {
+  totalOperations: number;
+  committedOperations: number;
+  chunks: BatchChunkResult[];
+  committedChunks: number[];
+  failedChunks: number[];
+  skippedChunks: number[];
+}
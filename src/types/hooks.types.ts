@@ -0,0 +1,106 @@
+/**
+ * Hook Types
+ *
+ * State shapes returned by the Firestore React hooks.
+ * Every hook exposes loading, refreshing and error state in the same way,
+ * so screens can render loading indicators and quota banners consistently.
+ *
+ * @example
+ * ```typescript
+ * const { data, isLoading, quotaError } = useDocument(postRepository, postId);
+ * if (quotaError) return <QuotaBanner message={quotaError.message} />;
+ * ```
+ */
+
+import type { FirebaseFirestoreQuotaError } from '../domain/errors/FirebaseFirestoreError';
+
+/**
+ * Common async state shared by all hooks
+ */
+export interface FirestoreHookState {
+  /**
+   * True while the initial load is in progress
+   */
+  isLoading: boolean;
+
+  /**
+   * True while a manual refresh is in progress
+   */
+  isRefreshing: boolean;
+
+  /**
+   * Last error (null if last request succeeded)
+   */
+  error: Error | null;
+
+  /**
+   * Typed quota error (null if last error was not a quota error)
+   */
+  quotaError: FirebaseFirestoreQuotaError | null;
+
+  /**
+   * Re-run the request
+   */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Options shared by all data hooks
+ */
+export interface FirestoreHookOptions {
+  /**
+   * Set to false to skip fetching (e.g. while an ID is not known yet)
+   * @default true
+   */
+  enabled?: boolean;
+}
+
+/**
+ * Result of useDocument
+ */
+export interface UseDocumentResult<T> extends FirestoreHookState {
+  data: T | null;
+}
+
+/**
+ * Result of useQuery
+ */
+export interface UseQueryResult<T> extends FirestoreHookState {
+  data: T[];
+}
+
+/**
+ * Options for usePaginatedQuery
+ */
+export interface UsePaginatedQueryOptions extends FirestoreHookOptions {
+  /**
+   * Page size passed to the fetcher
+   * @default 10
+   */
+  limit?: number;
+}
+
+/**
+ * Result of usePaginatedQuery
+ */
+export interface UsePaginatedQueryResult<T> extends FirestoreHookState {
+  /**
+   * All items loaded so far
+   */
+  items: T[];
+
+  /**
+   * Whether more pages can be loaded
+   */
+  hasMore: boolean;
+
+  /**
+   * True while the next page is loading
+   */
+  isLoadingMore: boolean;
+
+  /**
+   * Load the next page (no-op if nothing left or already loading)
+   */
+  loadMore: () => Promise<void>;
+}
@@ -0,0 +1,44 @@
+/**
+ * Operation Types
+ *
+ * Per-call options for repository operations.
+ *
+ * @example
+ * ```typescript
+ * await analyticsRepository.create(event, { priority: 'background' });
+ * await purchaseRepository.set(id, receipt, { priority: 'essential', retry: true });
+ * ```
+ */
+
+import type { OperationPriority } from '../domain/entities/QuotaPolicy';
+import type { RetryPolicy } from '../domain/entities/RetryPolicy';
+
+/**
+ * Options accepted by repository operations
+ */
+export interface RepositoryOperationOptions {
+  /**
+   * Operation priority used by the quota circuit breaker
+   * Defaults to the repository's default priority ('normal')
+   */
+  priority?: OperationPriority;
+
+  /**
+   * Retry transient errors with exponential backoff
+   * true uses the default policy, false disables retries.
+   * Defaults to the repository's retry policy (no retries)
+   */
+  retry?: boolean | Partial<RetryPolicy>;
+
+  /**
+   * Use the query result cache when it is enabled (default: true)
+   * false always queries Firestore and does not cache the result
+   */
+  cache?: boolean;
+
+  /**
+   * Include soft-deleted documents in reads (default: false)
+   * Only applies to repositories in soft-delete mode
+   */
+  includeDeleted?: boolean;
+}
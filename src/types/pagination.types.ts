@@ -10,9 +10,25 @@
  * console.log(result.items); // Post[]
  * console.log(result.hasMore); // boolean
  * console.log(result.nextCursor); // string | null
+ *
+ * // Load the page before the current one
+ * const previous = await repository.getPosts({ cursor: result.prevCursor!, direction: 'backward' });
  * ```
  */
 
+/**
+ * Collection a paginated query reads: a collection path
+ * (e.g. 'users/abc/posts') or a collection group
+ */
+export type PaginationSource = string | { collectionGroup: string };
+
+/**
+ * Paging direction relative to the cursor
+ * - forward: items after the cursor (next page)
+ * - backward: items before the cursor (previous page)
+ */
+export type PaginationDirection = 'forward' | 'backward';
+
 /**
  * Pagination parameters for queries
  */
@@ -24,10 +40,19 @@ export interface PaginationParams {
   limit?: number;
 
   /**
-   * Cursor for pagination (document ID)
-   * Use this to fetch next page
+   * Cursor for pagination
+   * Pass nextCursor of the previous page to fetch the next page.
+   * Either an opaque cursor token or a document ID (legacy)
    */
   cursor?: string;
+
+  /**
+   * Direction to page from the cursor
+   * Use 'backward' with prevCursor to load the previous page.
+   * Items are always returned in display (query) order
+   * @default 'forward'
+   */
+  direction?: PaginationDirection;
 }
 
 /**
@@ -41,6 +66,8 @@ export interface PaginatedResult<T> {
 
   /**
    * Cursor for next page (null if no more items)
+   * Opaque token storing the order-by values and document ID of the last item,
+   * or the value returned by a custom getCursor
    */
   nextCursor: string | null;
 
@@ -48,6 +75,19 @@ export interface PaginatedResult<T> {
    * Whether there are more items to fetch
    */
   hasMore: boolean;
+
+  /**
+   * Cursor for previous page (null if current page is the first)
+   * Use with direction 'backward'
+   * Always set by buildPaginatedResult; optional for results built by hand
+   */
+  prevCursor?: string | null;
+
+  /**
+   * Whether there are items before the current page
+   * Always set by buildPaginatedResult; optional for results built by hand
+   */
+  hasPrevious?: boolean;
 }
 
 /**
@@ -57,4 +97,6 @@ export const EMPTY_PAGINATED_RESULT: PaginatedResult<never> = {
   items: [],
   nextCursor: null,
   hasMore: false,
+  prevCursor: null,
+  hasPrevious: false,
 };
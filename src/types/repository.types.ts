@@ -0,0 +1,79 @@
+/**
+ * Repository Types
+ *
+ * Options for creating a FirestoreRepository.
+ *
+ * @example
+ * ```typescript
+ * const posts = new FirestoreRepository<Post>('posts', postConverter, {
+ *   validation: { validator: createSchemaValidator(PostSchema), onInvalidRead: 'report' },
+ *   timestamps: { updatedAt: 'modifiedAt' },
+ *   softDelete: true,
+ * });
+ * ```
+ */
+
+import type { ValidationOptions } from '../domain/entities/DocumentValidator';
+import type { FirestoreInstanceOptions } from '../utils/firestore-instance.util';
+
+/**
+ * Names of the fields stamped with server timestamps (false to skip a field)
+ */
+export interface TimestampFields {
+  createdAt: string | false;
+  updatedAt: string | false;
+}
+
+export interface TimestampOptions extends Partial<TimestampFields> {
+  /**
+   * How server timestamps of pending writes read back (default: 'estimate')
+   * - estimate: local clock estimate until the server value arrives
+   * - previous: the previous value, if any
+   * - none: null
+   */
+  serverTimestamps?: 'estimate' | 'previous' | 'none';
+}
+
+export interface SoftDeleteOptions {
+  /**
+   * Tombstone field set to serverTimestamp() on delete, null otherwise
+   */
+  field: string;
+}
+
+/**
+ * Options accepted by the FirestoreRepository constructor
+ */
+export interface FirestoreRepositoryOptions<T> {
+  /**
+   * Values of the collection path template parameters,
+   * e.g. { uid } for 'users/{uid}/posts'
+   */
+  pathParams?: Record<string, string>;
+
+  /**
+   * Firestore instance to use, e.g. { databaseId: 'analytics' } or
+   * { appName: 'reporting' } for a second project
+   * Defaults to the default app and database
+   */
+  instance?: FirestoreInstanceOptions;
+
+  /**
+   * Validate documents on read and before write
+   * Documents are not validated if omitted
+   */
+  validation?: ValidationOptions<T>;
+
+  /**
+   * Stamp createdAt and updatedAt with serverTimestamp() on writes
+   * true uses the default field names
+   */
+  timestamps?: boolean | TimestampOptions;
+
+  /**
+   * Soft-delete documents: delete sets a tombstone field instead of
+   * deleting, queries of the repository exclude tombstoned documents
+   * true uses the default field (deletedAt)
+   */
+  softDelete?: boolean | Partial<SoftDeleteOptions>;
+}
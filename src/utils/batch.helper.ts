@@ -0,0 +1,50 @@
+/**
+ * Batch Helper
+ * Single Responsibility: Chunking and bounded-concurrency execution
+ *
+ * App-agnostic helpers used by batch writes.
+ */
+
+/**
+ * Split items into chunks of a given size
+ *
+ * @param items - Items to split
+ * @param size - Maximum chunk size
+ * @returns Chunks in original order
+ */
+export function chunkArray<T>(items: readonly T[], size: number): T[][] {
+  const chunkSize = Math.max(1, Math.floor(size));
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += chunkSize) {
+    chunks.push(items.slice(i, i + chunkSize));
+  }
+  return chunks;
+}
+
+/**
+ * Run tasks with at most `concurrency` tasks in flight
+ * Tasks are started in order; a task returning false stops scheduling new tasks
+ *
+ * @param tasks - Tasks to run
+ * @param concurrency - Maximum parallel tasks
+ */
+export async function runWithConcurrency(
+  tasks: (() => Promise<boolean | void>)[],
+  concurrency: number,
+): Promise<void> {
+  let nextIndex = 0;
+  let stopped = false;
+
+  const worker = async (): Promise<void> => {
+    while (!stopped && nextIndex < tasks.length) {
+      const task = tasks[nextIndex++];
+      const shouldContinue = await task();
+      if (shouldContinue === false) {
+        stopped = true;
+      }
+    }
+  };
+
+  const workerCount = Math.min(Math.max(1, Math.floor(concurrency)), tasks.length);
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+}
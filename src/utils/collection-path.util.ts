@@ -0,0 +1,184 @@
+/**
+ * Collection Path Utility
+ * Single Responsibility: Resolve and validate collection path templates
+ *
+ * Templates name nested collections with {param} placeholders, e.g.
+ * 'users/{uid}/posts'. Parameters are typed from the template and checked
+ * at runtime; resolved paths are validated (collections have an odd number
+ * of segments, documents an even number).
+ *
+ * Registered templates let request logs and quota tracking record
+ * 'users/{uid}/posts' instead of every resolved 'users/abc/posts'.
+ *
+ * @example
+ * ```typescript
+ * const userPosts = createCollectionPath('users/{uid}/posts');
+ * userPosts.resolve({ uid: 'abc' }); // 'users/abc/posts'
+ * userPosts.resolve({}); // type error, FirebaseFirestorePathError at runtime
+ * ```
+ */
+
+import { FirebaseFirestorePathError } from "../domain/errors/FirebaseFirestoreError";
+
+type PathParamNames<T extends string> = T extends `${string}{${infer Name}}${infer Rest}`
+  ? Name | PathParamNames<Rest>
+  : never;
+
+/**
+ * Parameters of a path template, e.g. { uid: string } for 'users/{uid}/posts'
+ */
+export type PathParams<T extends string> = string extends T
+  ? Record<string, string>
+  : { [K in PathParamNames<T>]: string };
+
+export interface CollectionPath<T extends string = string> {
+  readonly template: T;
+  /**
+   * Collection ID (last segment), used for collection group queries
+   */
+  readonly collectionId: string;
+  /**
+   * Resolve collection path
+   */
+  resolve(params: PathParams<T>): string;
+  /**
+   * Resolve path of a document in the collection
+   */
+  doc(params: PathParams<T>, documentId: string): string;
+}
+
+const PARAM_PATTERN = /\{([^{}]+)\}/g;
+
+// Registered templates, matched against resolved paths in logs
+const registeredTemplates = new Map<string, RegExp>();
+
+/**
+ * Create typed collection path template
+ * The template is registered for request logs and quota tracking.
+ *
+ * @param template - Template, e.g. 'users/{uid}/posts'
+ * @returns Collection path
+ * @throws FirebaseFirestorePathError if the template is not a collection path
+ */
+export function createCollectionPath<T extends string>(template: T): CollectionPath<T> {
+  validateCollectionPath(template);
+  registerCollectionTemplate(template);
+  const segments = splitPath(template);
+
+  return {
+    template,
+    collectionId: segments[segments.length - 1],
+    resolve: (params) => resolvePath(template, params),
+    doc: (params, documentId) =>
+      validateDocumentPath(`${resolvePath(template, params)}/${documentId}`),
+  };
+}
+
+/**
+ * Substitute template parameters
+ *
+ * @param template - Template, e.g. 'users/{uid}/posts'
+ * @param params - Parameter values (must be non-empty and contain no '/')
+ * @returns Resolved path
+ * @throws FirebaseFirestorePathError if a parameter is missing or invalid
+ */
+export function resolvePath<T extends string>(template: T, params: PathParams<T>): string {
+  const values = params as Record<string, string | undefined>;
+  return template.replace(PARAM_PATTERN, (_, name: string) => {
+    const value = values[name];
+    if (typeof value !== "string" || value === "" || value.includes("/")) {
+      throw new FirebaseFirestorePathError(
+        `Invalid value for path parameter {${name}} of ${template}: ${JSON.stringify(value)}`,
+      );
+    }
+    return value;
+  });
+}
+
+/**
+ * Check that path (or template) points to a collection
+ *
+ * @param path - Path, e.g. 'users/abc/posts'
+ * @returns The path
+ * @throws FirebaseFirestorePathError if it has an empty or an even number of segments
+ */
+export function validateCollectionPath(path: string): string {
+  const segments = splitPath(path);
+  if (segments.length % 2 !== 1) {
+    throw new FirebaseFirestorePathError(
+      `Invalid collection path ${path}: expected an odd number of segments, got ${segments.length}`,
+    );
+  }
+  return path;
+}
+
+/**
+ * Check that path points to a document
+ *
+ * @param path - Path, e.g. 'users/abc/posts/p1'
+ * @returns The path
+ * @throws FirebaseFirestorePathError if it has an empty or an odd number of segments
+ */
+export function validateDocumentPath(path: string): string {
+  const segments = splitPath(path);
+  if (segments.length % 2 !== 0) {
+    throw new FirebaseFirestorePathError(
+      `Invalid document path ${path}: expected an even number of segments, got ${segments.length}`,
+    );
+  }
+  return path;
+}
+
+/**
+ * Check if path contains {param} placeholders
+ */
+export function isPathTemplate(path: string): boolean {
+  return /\{[^{}]+\}/.test(path);
+}
+
+/**
+ * Register template for request logs and quota tracking
+ *
+ * @param template - Template, e.g. 'users/{uid}/posts'
+ */
+export function registerCollectionTemplate(template: string): void {
+  if (isPathTemplate(template)) {
+    const pattern = splitPath(template)
+      .map((segment) =>
+        segment
+          .split(PARAM_PATTERN)
+          // split keeps parameter names at odd indexes
+          .map((part, index) => (index % 2 === 1 ? "[^/]+" : escapeRegExp(part)))
+          .join(""),
+      )
+      .join("/");
+    registeredTemplates.set(template, new RegExp(`^${pattern}$`));
+  }
+}
+
+/**
+ * Get registered template matching a resolved collection path
+ *
+ * @param path - Resolved path, e.g. 'users/abc/posts'
+ * @returns Matching template, or the path itself
+ */
+export function getCollectionTemplate(path: string): string {
+  for (const [template, pattern] of registeredTemplates) {
+    if (pattern.test(path)) {
+      return template;
+    }
+  }
+  return path;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function splitPath(path: string): string[] {
+  const segments = path.split("/");
+  if (segments.some((segment) => segment === "")) {
+    throw new FirebaseFirestorePathError(`Invalid path ${JSON.stringify(path)}: empty segment`);
+  }
+  return segments;
+}
@@ -0,0 +1,196 @@
+/**
+ * Cursor Utility
+ * Single Responsibility: Encode and decode opaque pagination cursors
+ *
+ * A cursor token stores the order-by field values of the last document
+ * plus its document ID as a tiebreaker (and its full path, which collection
+ * group queries order by). Queries can continue with
+ * startAfter(...values, id) without reading the cursor document again,
+ * and paging keeps working if that document gets deleted.
+ *
+ * Token format: "c1." + base64url(JSON)
+ */
+
+import { Timestamp } from "firebase/firestore";
+import type { DocumentSnapshot } from "firebase/firestore";
+
+const CURSOR_PREFIX = "c1.";
+const BASE64_CHARS =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+
+export type CursorValue = string | number | boolean | null | Timestamp;
+
+export interface DecodedCursor {
+  /**
+   * Order-by field values of the last document (in order-by order)
+   */
+  values: CursorValue[];
+
+  /**
+   * Document ID of the last document
+   */
+  documentId: string;
+
+  /**
+   * Full path of the last document (tokens created from snapshots)
+   */
+  documentPath?: string;
+}
+
+type EncodedValue = string | number | boolean | null | { ts: [number, number] };
+
+interface CursorPayload {
+  v: EncodedValue[];
+  id: string;
+  p?: string;
+}
+
+/**
+ * Encode UTF-8 string to base64url (no padding)
+ * Implemented without btoa so it works on every JS engine
+ */
+function toBase64Url(input: string): string {
+  const utf8 = encodeURIComponent(input).replace(/%([0-9A-F]{2})/g, (_, hex: string) =>
+    String.fromCharCode(parseInt(hex, 16)),
+  );
+  const bytes = Array.from(utf8, (char) => char.charCodeAt(0));
+  let output = "";
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    const charCount = Math.min(4, Math.ceil(((bytes.length - i) * 8) / 6));
+    for (let j = 0; j < charCount; j++) {
+      output += BASE64_CHARS[(chunk >> (18 - j * 6)) & 63];
+    }
+  }
+  return output;
+}
+
+/**
+ * Decode base64url (no padding) to UTF-8 string
+ */
+function fromBase64Url(input: string): string {
+  let binary = "";
+  for (let i = 0; i < input.length; i += 4) {
+    const group = input.slice(i, i + 4);
+    let chunk = 0;
+    for (let j = 0; j < 4; j++) {
+      const index = j < group.length ? BASE64_CHARS.indexOf(group[j]) : 0;
+      if (index < 0) {
+        throw new Error("Invalid cursor encoding");
+      }
+      chunk = (chunk << 6) | index;
+    }
+    const byteCount = Math.floor((group.length * 6) / 8);
+    for (let j = 0; j < byteCount; j++) {
+      binary += String.fromCharCode((chunk >> (16 - j * 8)) & 255);
+    }
+  }
+  return decodeURIComponent(
+    Array.from(binary, (char) => `%${char.charCodeAt(0).toString(16).padStart(2, "0")}`).join(""),
+  );
+}
+
+function encodeValue(value: unknown): EncodedValue | undefined {
+  if (value === null || typeof value === "string" || typeof value === "boolean") {
+    return value;
+  }
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (value instanceof Timestamp) {
+    return { ts: [value.seconds, value.nanoseconds] };
+  }
+  if (value instanceof Date) {
+    const timestamp = Timestamp.fromDate(value);
+    return { ts: [timestamp.seconds, timestamp.nanoseconds] };
+  }
+  return undefined;
+}
+
+function decodeValue(value: EncodedValue): CursorValue {
+  if (value !== null && typeof value === "object") {
+    return new Timestamp(value.ts[0], value.ts[1]);
+  }
+  return value;
+}
+
+/**
+ * Check if cursor string is an encoded cursor token
+ *
+ * @param cursor - Cursor string
+ * @returns true if cursor is a token (false for plain document IDs)
+ */
+export function isCursorToken(cursor: string | null | undefined): boolean {
+  return !!cursor && cursor.startsWith(CURSOR_PREFIX);
+}
+
+/**
+ * Encode cursor token
+ *
+ * @param values - Order-by field values
+ * @param documentId - Document ID tiebreaker
+ * @param documentPath - Full document path (needed to continue collection group queries)
+ * @returns Cursor token, or null if a value cannot be encoded
+ */
+export function encodeCursor(
+  values: unknown[],
+  documentId: string,
+  documentPath?: string,
+): string | null {
+  const encoded: EncodedValue[] = [];
+  for (const value of values) {
+    const encodedValue = encodeValue(value);
+    if (encodedValue === undefined) {
+      return null;
+    }
+    encoded.push(encodedValue);
+  }
+  const payload: CursorPayload = { v: encoded, id: documentId };
+  if (documentPath) {
+    payload.p = documentPath;
+  }
+  return CURSOR_PREFIX + toBase64Url(JSON.stringify(payload));
+}
+
+/**
+ * Decode cursor token
+ *
+ * @param cursor - Cursor token
+ * @returns Decoded cursor, or null if cursor is not a valid token
+ */
+export function decodeCursor(cursor: string | null | undefined): DecodedCursor | null {
+  if (!cursor || !isCursorToken(cursor)) {
+    return null;
+  }
+  try {
+    const payload = JSON.parse(
+      fromBase64Url(cursor.slice(CURSOR_PREFIX.length)),
+    ) as CursorPayload;
+    if (!Array.isArray(payload.v) || typeof payload.id !== "string") {
+      return null;
+    }
+    return {
+      values: payload.v.map(decodeValue),
+      documentId: payload.id,
+      documentPath: typeof payload.p === "string" ? payload.p : undefined,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create cursor token from document snapshot
+ * Falls back to the document ID if an order-by value cannot be encoded
+ *
+ * @param snapshot - Last document of the page
+ * @param orderByFields - Fields the query is ordered by
+ * @returns Cursor token or document ID
+ */
+export function createCursorFromSnapshot(
+  snapshot: DocumentSnapshot,
+  orderByFields: string[],
+): string {
+  const values = orderByFields.map((field) => snapshot.get(field));
+  return encodeCursor(values, snapshot.id, snapshot.ref?.path) ?? snapshot.id;
+}
@@ -3,9 +3,25 @@
  *
  * Provides utilities for converting between ISO strings and Firestore Timestamps.
  * These utilities are app-agnostic and can be used across hundreds of apps.
+ *
+ * Besides Timestamps, Dates and ISO strings they accept epoch milliseconds
+ * and plain { seconds, nanoseconds } objects (e.g. Timestamps that went
+ * through JSON). Pending server timestamps (null or the serverTimestamp()
+ * sentinel) and other falsy values, including 0, convert to null.
  */
 
 import type { Timestamp } from "firebase/firestore";
+import { DEFAULT_TIMESTAMP_FIELDS } from "../domain/constants/TimestampDefaults";
+import type { TimestampFields } from "../types/repository.types";
+
+export type TimestampInput =
+  | Timestamp
+  | Date
+  | string
+  | number
+  | { seconds: number; nanoseconds: number }
+  | null
+  | undefined;
 
 /**
  * Convert ISO string to Firestore Timestamp
@@ -41,7 +57,7 @@ export function isoToTimestamp(isoString: string | null | undefined): Timestamp
 /**
  * Convert Firestore Timestamp to ISO string
  *
- * @param timestamp - Firestore Timestamp, Date, or ISO string
+ * @param timestamp - Firestore Timestamp, Date, ISO string, epoch milliseconds or { seconds, nanoseconds }
  * @returns ISO date string or null if invalid
  *
  * @example
@@ -49,43 +65,18 @@ export function isoToTimestamp(isoString: string | null | undefined): Timestamp
  * const isoString = timestampToISO(timestamp);
  * ```
  */
-export function timestampToISO(
-  timestamp: Timestamp | Date | string | null | undefined,
-): string | null {
-  if (!timestamp) {
-    return null;
-  }
-
-  try {
-    if (timestamp instanceof Date) {
-      return timestamp.toISOString();
-    }
-
-    if (typeof timestamp === "string") {
-      // Already an ISO string, validate it
-      const date = new Date(timestamp);
-      if (isNaN(date.getTime())) {
-        return null;
-      }
-      return timestamp;
-    }
-
-    // Firestore Timestamp
-    if (timestamp && typeof timestamp === "object" && "toDate" in timestamp) {
-      const date = (timestamp as Timestamp).toDate();
-      return date.toISOString();
-    }
-
-    return null;
-  } catch {
-    return null;
+export function timestampToISO(timestamp: TimestampInput): string | null {
+  if (typeof timestamp === "string") {
+    // Already an ISO string, validate it
+    return timestampToDate(timestamp) ? timestamp : null;
   }
+  return timestampToDate(timestamp)?.toISOString() ?? null;
 }
 
 /**
  * Convert Firestore Timestamp to Date
  *
- * @param timestamp - Firestore Timestamp, Date, or ISO string
+ * @param timestamp - Firestore Timestamp, Date, ISO string, epoch milliseconds or { seconds, nanoseconds }
  * @returns Date object or null if invalid
  *
  * @example
@@ -93,19 +84,18 @@ export function timestampToISO(
  * const date = timestampToDate(timestamp);
  * ```
  */
-export function timestampToDate(
-  timestamp: Timestamp | Date | string | null | undefined,
-): Date | null {
+export function timestampToDate(timestamp: TimestampInput): Date | null {
+  // Falsy values, including 0 and "", are missing
   if (!timestamp) {
     return null;
   }
 
   try {
     if (timestamp instanceof Date) {
-      return timestamp;
+      return isNaN(timestamp.getTime()) ? null : timestamp;
     }
 
-    if (typeof timestamp === "string") {
+    if (typeof timestamp === "string" || typeof timestamp === "number") {
       const date = new Date(timestamp);
       if (isNaN(date.getTime())) {
         return null;
@@ -114,10 +104,19 @@ export function timestampToDate(
     }
 
     // Firestore Timestamp
-    if (timestamp && typeof timestamp === "object" && "toDate" in timestamp) {
+    if (typeof timestamp === "object" && "toDate" in timestamp) {
       return (timestamp as Timestamp).toDate();
     }
 
+    // Plain { seconds, nanoseconds }
+    if (
+      typeof timestamp === "object" &&
+      typeof timestamp.seconds === "number" &&
+      typeof timestamp.nanoseconds === "number"
+    ) {
+      return new Date(timestamp.seconds * 1000 + Math.floor(timestamp.nanoseconds / 1e6));
+    }
+
     return null;
   } catch {
     return null;
@@ -138,3 +137,27 @@ export function getCurrentISOString(): string {
   return new Date().toISOString();
 }
 
+/**
+ * Get createdAt and updatedAt of a document as Dates
+ * Fields of pending writes are null unless read with an estimate
+ *
+ * @param data - Document data
+ * @param fields - Timestamp field names (default: createdAt, updatedAt)
+ * @returns Dates, null if a field is missing, pending or disabled
+ *
+ * @example
+ * ```typescript
+ * const { createdAt, updatedAt } = getDocumentDates(post);
+ * ```
+ */
+export function getDocumentDates(
+  data: Record<string, unknown> | null | undefined,
+  fields: Partial<TimestampFields> = DEFAULT_TIMESTAMP_FIELDS,
+): { createdAt: Date | null; updatedAt: Date | null } {
+  const read = (field: string | false | undefined) =>
+    data && field ? timestampToDate(data[field] as TimestampInput) : null;
+  return {
+    createdAt: read(fields.createdAt ?? DEFAULT_TIMESTAMP_FIELDS.createdAt),
+    updatedAt: read(fields.updatedAt ?? DEFAULT_TIMESTAMP_FIELDS.updatedAt),
+  };
+}
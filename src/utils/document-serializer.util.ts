@@ -0,0 +1,234 @@
+/**
+ * Document Serializer Utility
+ * Single Responsibility: Convert whole documents to and from JSON-safe values
+ *
+ * Walks nested maps and arrays. Firestore types are written as tagged
+ * objects and rebuilt on deserialize:
+ * - Timestamp (and Date): { __type: 'timestamp', seconds, nanoseconds }
+ * - GeoPoint: { __type: 'geopoint', latitude, longitude }
+ * - DocumentReference: { __type: 'reference', path }
+ * - Bytes: { __type: 'bytes', base64 }
+ *
+ * Serialized documents can be stored in Redux or AsyncStorage or sent
+ * over the network. Field value sentinels (serverTimestamp(), ...) are not
+ * serializable and are left unchanged.
+ *
+ * @example
+ * ```typescript
+ * const json = serializeDocument(post);
+ * await AsyncStorage.setItem(key, JSON.stringify(json));
+ *
+ * const restored = deserializeDocument(JSON.parse(stored), { firestore: db });
+ * ```
+ */
+
+import { Bytes, DocumentReference, GeoPoint, Timestamp, doc } from "firebase/firestore";
+import type { DocumentData, Firestore } from "firebase/firestore";
+import { FirebaseFirestoreError } from "../domain/errors/FirebaseFirestoreError";
+
+export type SerializedValue =
+  | string
+  | number
+  | boolean
+  | null
+  | SerializedValue[]
+  | { [key: string]: SerializedValue };
+
+export type SerializedDocument = { [key: string]: SerializedValue };
+
+export interface SerializationTags {
+  timestamp: string;
+  geoPoint: string;
+  reference: string;
+  bytes: string;
+}
+
+export interface SerializationOptions {
+  /**
+   * Key holding the type tag (default: '__type')
+   * Change it if documents contain maps with a field of that name
+   */
+  typeKey?: string;
+
+  /**
+   * Tag written for each type
+   */
+  tags?: Partial<SerializationTags>;
+
+  /**
+   * How Timestamps and Dates are written (default: 'tagged')
+   * - 'tagged': tagged seconds and nanoseconds (lossless)
+   * - 'iso': ISO string, rebuilt from strings in ISO format on deserialize
+   * - 'millis': epoch milliseconds, left as numbers on deserialize
+   */
+  timestampFormat?: "tagged" | "iso" | "millis";
+}
+
+export interface DeserializationOptions extends SerializationOptions {
+  /**
+   * Firestore instance for rebuilt document references
+   * Required if the document contains references
+   */
+  firestore?: Firestore | null;
+}
+
+export const DEFAULT_SERIALIZATION_OPTIONS: Required<SerializationOptions> & {
+  tags: SerializationTags;
+} = {
+  typeKey: "__type",
+  tags: {
+    timestamp: "timestamp",
+    geoPoint: "geopoint",
+    reference: "reference",
+    bytes: "bytes",
+  },
+  timestampFormat: "tagged",
+};
+
+type ResolvedOptions = typeof DEFAULT_SERIALIZATION_OPTIONS & { firestore?: Firestore | null };
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Convert document to a JSON-safe plain object
+ *
+ * @param data - Document data
+ * @param options - Serialization options
+ * @returns Serialized document
+ */
+export function serializeDocument(
+  data: DocumentData,
+  options: SerializationOptions = {},
+): SerializedDocument {
+  return serializeValue(data, options) as SerializedDocument;
+}
+
+/**
+ * Rebuild Firestore types in a serialized document
+ *
+ * @param data - Serialized document
+ * @param options - Serialization options used to serialize it, plus the Firestore instance
+ * @returns Document data
+ * @throws FirebaseFirestoreError if a reference is found and no Firestore instance is given
+ */
+export function deserializeDocument(
+  data: SerializedDocument,
+  options: DeserializationOptions = {},
+): DocumentData {
+  return deserializeValue(data, options) as DocumentData;
+}
+
+/**
+ * Convert any Firestore value to a JSON-safe value
+ *
+ * @param value - Firestore value
+ * @param options - Serialization options
+ * @returns Serialized value
+ */
+export function serializeValue(value: unknown, options: SerializationOptions = {}): SerializedValue {
+  return serialize(value, resolveOptions(options));
+}
+
+/**
+ * Rebuild Firestore types in a serialized value
+ *
+ * @param value - Serialized value
+ * @param options - Serialization options used to serialize it, plus the Firestore instance
+ * @returns Firestore value
+ */
+export function deserializeValue(value: unknown, options: DeserializationOptions = {}): unknown {
+  return deserialize(value, resolveOptions(options));
+}
+
+function resolveOptions(options: DeserializationOptions): ResolvedOptions {
+  return {
+    ...DEFAULT_SERIALIZATION_OPTIONS,
+    ...options,
+    tags: { ...DEFAULT_SERIALIZATION_OPTIONS.tags, ...options.tags },
+  };
+}
+
+function serialize(value: unknown, options: ResolvedOptions): SerializedValue {
+  const { typeKey, tags } = options;
+
+  if (value instanceof Date) {
+    return serialize(Timestamp.fromDate(value), options);
+  }
+  if (value instanceof Timestamp) {
+    switch (options.timestampFormat) {
+      case "iso":
+        return value.toDate().toISOString();
+      case "millis":
+        return value.toMillis();
+      default:
+        return { [typeKey]: tags.timestamp, seconds: value.seconds, nanoseconds: value.nanoseconds };
+    }
+  }
+  if (value instanceof GeoPoint) {
+    return { [typeKey]: tags.geoPoint, latitude: value.latitude, longitude: value.longitude };
+  }
+  if (value instanceof DocumentReference) {
+    return { [typeKey]: tags.reference, path: value.path };
+  }
+  if (value instanceof Bytes) {
+    return { [typeKey]: tags.bytes, base64: value.toBase64() };
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => serialize(item, options));
+  }
+  if (isPlainObject(value)) {
+    const result: SerializedDocument = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (item !== undefined) {
+        result[key] = serialize(item, options);
+      }
+    }
+    return result;
+  }
+  return value as SerializedValue;
+}
+
+function deserialize(value: unknown, options: ResolvedOptions): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => deserialize(item, options));
+  }
+  if (typeof value === "string") {
+    return options.timestampFormat === "iso" && ISO_DATE_PATTERN.test(value)
+      ? Timestamp.fromDate(new Date(value))
+      : value;
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  const { typeKey, tags } = options;
+  switch (value[typeKey]) {
+    case tags.timestamp:
+      return new Timestamp(value.seconds as number, value.nanoseconds as number);
+    case tags.geoPoint:
+      return new GeoPoint(value.latitude as number, value.longitude as number);
+    case tags.bytes:
+      return Bytes.fromBase64String(value.base64 as string);
+    case tags.reference:
+      if (!options.firestore) {
+        throw new FirebaseFirestoreError(
+          `Firestore instance required to deserialize reference ${String(value.path)}`,
+        );
+      }
+      return doc(options.firestore, value.path as string);
+  }
+
+  const result: DocumentData = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = deserialize(item, options);
+  }
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== "object") {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
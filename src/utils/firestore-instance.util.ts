@@ -0,0 +1,51 @@
+/**
+ * Firestore Instance Utility
+ * Single Responsibility: Identify Firestore instances by app name and database ID
+ *
+ * Every Firestore instance is keyed as '<app name>/<database ID>', e.g.
+ * '[DEFAULT]/(default)' for the default app and database, or
+ * 'reporting/(default)' and '[DEFAULT]/analytics' for a second project
+ * and a named database. The client, quota metrics, request logs and
+ * query keys share this key.
+ */
+
+import {
+  DEFAULT_APP_NAME,
+  DEFAULT_DATABASE_ID,
+  DEFAULT_FIRESTORE_INSTANCE,
+} from "../domain/constants/FirestoreInstanceDefaults";
+
+/**
+ * Firestore instance to use
+ */
+export interface FirestoreInstanceOptions {
+  /**
+   * Name of the Firebase app (default: the default app)
+   */
+  appName?: string;
+  /**
+   * ID of a named database (default: '(default)')
+   */
+  databaseId?: string;
+}
+
+/**
+ * Get key of a Firestore instance
+ *
+ * @param options - Instance options, or an instance key (returned as is)
+ * @returns Instance key, e.g. '[DEFAULT]/analytics'
+ */
+export function getFirestoreInstanceKey(options: FirestoreInstanceOptions | string = {}): string {
+  if (typeof options === "string") {
+    return options;
+  }
+  return `${options.appName ?? DEFAULT_APP_NAME}/${options.databaseId ?? DEFAULT_DATABASE_ID}`;
+}
+
+/**
+ * Check if an instance key refers to the default app and database
+ * A missing key refers to the default instance
+ */
+export function isDefaultFirestoreInstance(instance?: string): boolean {
+  return instance === undefined || instance === DEFAULT_FIRESTORE_INSTANCE;
+}
@@ -21,26 +21,54 @@ export class PaginationHelper<T> {
   /**
    * Build paginated result from items
    *
-   * @param items - All items fetched (should be limit + 1)
+   * Forward pages have the extra item at the end, backward pages
+   * (fetched with limitToLast) have it at the start. Items are returned
+   * in display order either way.
+   *
+   * @param items - All items fetched in display order (should be limit + 1)
    * @param pageLimit - Requested page size
    * @param getCursor - Function to extract cursor from item
-   * @returns Paginated result with hasMore and nextCursor
+   * @param params - Pagination params used for the query
+   * @returns Paginated result with hasMore/hasPrevious and cursors
    */
   buildResult(
     items: T[],
     pageLimit: number,
     getCursor: (item: T) => string,
+    params?: PaginationParams,
   ): PaginatedResult<T> {
-    const hasMore = items.length > pageLimit;
-    const resultItems = hasMore ? items.slice(0, pageLimit) : items;
+    const hasExtra = items.length > pageLimit;
+    const backward = this.isBackward(params);
+    const hasCursor = this.hasCursor(params);
+
+    let resultItems: T[];
+    let hasMore: boolean;
+    let hasPrevious: boolean;
+
+    if (backward) {
+      resultItems = hasExtra ? items.slice(items.length - pageLimit) : items;
+      hasPrevious = hasExtra;
+      // The cursor item itself comes after this page
+      hasMore = hasCursor;
+    } else {
+      resultItems = hasExtra ? items.slice(0, pageLimit) : items;
+      hasMore = hasExtra;
+      hasPrevious = hasCursor;
+    }
+
     const nextCursor = hasMore && resultItems.length > 0
       ? getCursor(resultItems[resultItems.length - 1])
       : null;
+    const prevCursor = hasPrevious && resultItems.length > 0
+      ? getCursor(resultItems[0])
+      : null;
 
     return {
       items: resultItems,
       nextCursor,
       hasMore,
+      prevCursor,
+      hasPrevious,
     };
   }
 
@@ -74,6 +102,16 @@ export class PaginationHelper<T> {
   hasCursor(params?: PaginationParams): boolean {
     return !!params?.cursor;
   }
+
+  /**
+   * Check if params request the previous page
+   *
+   * @param params - Pagination params
+   * @returns true if direction is backward
+   */
+  isBackward(params?: PaginationParams): boolean {
+    return params?.direction === 'backward';
+  }
 }
 
 /**
@@ -4,41 +4,108 @@
  *
  * App-agnostic utility for building Firestore queries.
  * Supports:
- * - Firestore 'in' operator (up to 10 values)
- * - Firestore 'or' operator (for >10 values via chunking)
+ * - Firestore 'in' operator (up to 30 values, more via planFanOutQueries)
+ * - 'not-in', 'array-contains-any' and '!=' operators
+ * - Nested AND/OR filter groups (validated against Firestore limits)
+ * - null, Timestamp and Date filter values
  * - Single value filtering
  * - Multiple field filtering
  * - Date range filtering
+ * - Excluding soft-deleted documents
+ * - Nested collection paths and collection group queries
  * - Sorting
  * - Limiting
  *
  * This utility is designed to be used across hundreds of apps.
  * It provides a consistent interface for Firestore query building.
+ *
+ * @example
+ * ```typescript
+ * // status == 'active' AND (tag in ['a', 'b'] OR pinned == true)
+ * const q = buildQuery(db, {
+ *   collectionName: 'posts',
+ *   baseFilters: [
+ *     createEqualFilter('status', 'active'),
+ *     createOrFilter(createInFilter('tag', ['a', 'b']), createEqualFilter('pinned', true)),
+ *   ],
+ * });
+ * ```
  */
 
 import {
   collection,
+  collectionGroup,
   query,
   where,
   orderBy,
   limit as limitQuery,
   startAfter,
   or,
+  and,
   type Firestore,
   type Query,
+  type QueryFilterConstraint,
+  type QueryFieldFilterConstraint,
   Timestamp,
   type WhereFilterOp,
 } from "firebase/firestore";
+import { FIRESTORE_LIMITS } from "../domain/constants/FirestoreLimits";
+import { FirebaseFirestoreQueryError } from "../domain/errors/FirebaseFirestoreError";
+
+/**
+ * Single value a field can be compared with
+ * Date values are converted to Timestamp
+ */
+export type FilterValue = string | number | boolean | null | Timestamp | Date;
 
-export interface FieldFilter {
-  field: string;
-  operator: WhereFilterOp;
-  value: string | number | boolean | string[] | number[];
+/**
+ * Operators that compare a field with a list of values
+ */
+export type ArrayFilterOperator = "in" | "not-in" | "array-contains-any";
+
+/**
+ * Operators that compare a field with a single value
+ */
+export type ValueFilterOperator = Exclude<WhereFilterOp, ArrayFilterOperator>;
+
+export type FieldFilter =
+  | {
+      field: string;
+      operator: ValueFilterOperator;
+      value: FilterValue;
+    }
+  | {
+      field: string;
+      operator: ArrayFilterOperator;
+      value: FilterValue[];
+    };
+
+/**
+ * Group of filters combined with AND or OR
+ * Groups can be nested, e.g. or(and(a, b), c)
+ */
+export interface CompositeFilter {
+  type: "and" | "or";
+  filters: QueryFilter[];
 }
 
+export type QueryFilter = FieldFilter | CompositeFilter;
+
 export interface QueryBuilderOptions {
+  /**
+   * Collection path (e.g. 'posts' or 'users/abc/posts'),
+   * or the collection ID of a collection group query
+   */
   collectionName: string;
-  baseFilters?: FieldFilter[];
+  /**
+   * Query every collection with collectionName as ID (collection group query)
+   */
+  collectionGroup?: boolean;
+  /**
+   * Filters combined with AND
+   * Use createAndFilter/createOrFilter for nested groups
+   */
+  baseFilters?: QueryFilter[];
   dateRange?: {
     field: string;
     startDate?: number;
@@ -54,9 +121,16 @@ export interface QueryBuilderOptions {
    * Used with startAfter for cursor-based pagination
    */
   cursorValue?: number;
+  /**
+   * Soft-delete tombstone field (e.g. 'deletedAt')
+   * Documents where it is set are excluded (adds `field == null`)
+   */
+  tombstoneField?: string;
 }
 
-const MAX_IN_OPERATOR_VALUES = 10;
+const ARRAY_OPERATORS: readonly WhereFilterOp[] = ["in", "not-in", "array-contains-any"];
+
+type ArrayFieldFilter = Extract<FieldFilter, { operator: ArrayFilterOperator }>;
 
 /**
  * Build Firestore query with advanced filtering support
@@ -64,6 +138,8 @@ const MAX_IN_OPERATOR_VALUES = 10;
  * @param db - Firestore database instance
  * @param options - Query builder options
  * @returns Firestore Query object
+ * @throws FirebaseFirestoreQueryError if filters exceed Firestore limits
+ * (use planFanOutQueries to split oversized 'in' filters)
  */
 export function buildQuery(
   db: Firestore,
@@ -71,19 +147,26 @@ export function buildQuery(
 ): Query {
   const {
     collectionName,
-    baseFilters = [],
     dateRange,
     sort,
     limitValue,
     cursorValue,
   } = options;
+  const baseFilters = getQueryFilters(options);
+
+  validateQueryFilters(baseFilters);
 
-  const collectionRef = collection(db, collectionName);
-  let q: Query = collectionRef;
+  let q: Query = options.collectionGroup
+    ? collectionGroup(db, collectionName)
+    : collection(db, collectionName);
 
   // Apply base filters
-  for (const filter of baseFilters) {
-    q = applyFieldFilter(q, filter);
+  if (baseFilters.some(isCompositeFilter)) {
+    q = query(q, and(...baseFilters.map(toFilterConstraint)));
+  } else {
+    for (const filter of baseFilters as FieldFilter[]) {
+      q = query(q, toFieldConstraint(filter));
+    }
   }
 
   // Apply date range filters
@@ -130,41 +213,194 @@ export function buildQuery(
 }
 
 /**
- * Apply field filter with support for 'in' operator and chunking
- * Handles arrays by using 'in' operator (up to 10 values)
- * For arrays >10 values, splits into chunks and uses 'or' operator
+ * Get filters combined with AND, including the tombstone filter
+ *
+ * @param options - Query builder options
+ * @returns Base filters plus `tombstoneField == null` if set
  */
-function applyFieldFilter(q: Query, filter: FieldFilter): Query {
-  const { field, operator, value } = filter;
+export function getQueryFilters(options: QueryBuilderOptions): QueryFilter[] {
+  const { baseFilters = [], tombstoneField } = options;
+  return tombstoneField ? [...baseFilters, createEqualFilter(tombstoneField, null)] : baseFilters;
+}
 
-  // Handle 'in' operator with array values
-  if (operator === "in" && Array.isArray(value)) {
-    // Firestore 'in' operator supports up to 10 values
-    if (value.length <= MAX_IN_OPERATOR_VALUES) {
-      return query(q, where(field, "in", value));
+/**
+ * Check if filter is an AND/OR group
+ *
+ * @param filter - Query filter
+ * @returns true if filter is a composite filter
+ */
+export function isCompositeFilter(filter: QueryFilter): filter is CompositeFilter {
+  return "filters" in filter && Array.isArray(filter.filters);
+}
+
+/**
+ * Count disjunctions of filters in disjunctive normal form
+ * Filters are combined with AND, like baseFilters
+ *
+ * @param filters - Query filters
+ * @returns Number of disjunctions Firestore will evaluate
+ */
+export function getDisjunctionCount(filters: QueryFilter[]): number {
+  return filters.reduce((count, filter) => count * countDisjunctions(filter), 1);
+}
+
+/**
+ * Validate filters against Firestore query limits
+ * Filters are combined with AND, like baseFilters
+ *
+ * Checks:
+ * - At most 30 disjunctions in disjunctive normal form
+ * - 'in', 'not-in' and 'array-contains-any' have a non-empty value list
+ * - 'not-in' has at most 10 values
+ * - At most one 'not-in' or '!=' filter per query
+ * - 'not-in' is not combined with 'in', 'array-contains-any' or OR groups
+ * - At most one 'array-contains' or 'array-contains-any' per disjunction
+ * - AND/OR groups are not empty
+ *
+ * @param filters - Query filters
+ * @throws FirebaseFirestoreQueryError if a limit is exceeded
+ */
+export function validateQueryFilters(filters: QueryFilter[]): void {
+  const fieldFilters: FieldFilter[] = [];
+  let hasOrGroup = false;
+
+  const visit = (filter: QueryFilter): void => {
+    if (isCompositeFilter(filter)) {
+      if (filter.filters.length === 0) {
+        throw new FirebaseFirestoreQueryError(
+          `Empty '${filter.type}' filter group`,
+        );
+      }
+      if (filter.type === "or") {
+        hasOrGroup = true;
+      }
+      filter.filters.forEach(visit);
+      return;
     }
+    if (ARRAY_OPERATORS.includes(filter.operator)) {
+      if (!Array.isArray(filter.value) || filter.value.length === 0) {
+        throw new FirebaseFirestoreQueryError(
+          `'${filter.operator}' filter on '${filter.field}' requires a non-empty array`,
+        );
+      }
+    }
+    fieldFilters.push(filter);
+  };
+  filters.forEach(visit);
+
+  const notEqualFilters = fieldFilters.filter(
+    (filter) => filter.operator === "not-in" || filter.operator === "!=",
+  );
+  if (notEqualFilters.length > 1) {
+    throw new FirebaseFirestoreQueryError(
+      "Only one 'not-in' or '!=' filter is allowed per query",
+    );
+  }
 
-    // Split into chunks of 10 and use 'or' operator
-    const chunks: (string[] | number[])[] = [];
-    for (let i = 0; i < value.length; i += MAX_IN_OPERATOR_VALUES) {
-      chunks.push(value.slice(i, i + MAX_IN_OPERATOR_VALUES));
+  const notInFilter = fieldFilters.find(
+    (filter): filter is ArrayFieldFilter => filter.operator === "not-in",
+  );
+  if (notInFilter) {
+    if (notInFilter.value.length > FIRESTORE_LIMITS.MAX_NOT_IN_VALUES) {
+      throw new FirebaseFirestoreQueryError(
+        `'not-in' filter on '${notInFilter.field}' supports up to ${FIRESTORE_LIMITS.MAX_NOT_IN_VALUES} values`,
+      );
+    }
+    const hasDisjunction =
+      hasOrGroup ||
+      fieldFilters.some(
+        (filter) => filter.operator === "in" || filter.operator === "array-contains-any",
+      );
+    if (hasDisjunction) {
+      throw new FirebaseFirestoreQueryError(
+        "'not-in' cannot be combined with 'in', 'array-contains-any' or OR filters",
+      );
     }
+  }
 
-    const orConditions = chunks.map((chunk) => where(field, "in", chunk));
-    return query(q, or(...orConditions));
+  if (filters.reduce((count, filter) => count + countArrayMembership(filter), 0) > 1) {
+    throw new FirebaseFirestoreQueryError(
+      "Only one 'array-contains' or 'array-contains-any' filter is allowed per disjunction",
+    );
   }
 
-  // Standard filter
-  return query(q, where(field, operator, value));
+  const disjunctions = getDisjunctionCount(filters);
+  if (disjunctions > FIRESTORE_LIMITS.MAX_DISJUNCTIONS) {
+    throw new FirebaseFirestoreQueryError(
+      `Query has ${disjunctions} disjunctions, Firestore allows up to ${FIRESTORE_LIMITS.MAX_DISJUNCTIONS}`,
+    );
+  }
+}
+
+/**
+ * Count disjunctions of a single filter in disjunctive normal form
+ * AND multiplies, OR adds, list operators count one per value
+ */
+function countDisjunctions(filter: QueryFilter): number {
+  if (isCompositeFilter(filter)) {
+    return filter.type === "and"
+      ? getDisjunctionCount(filter.filters)
+      : filter.filters.reduce((count, child) => count + countDisjunctions(child), 0);
+  }
+  if (filter.operator === "in" || filter.operator === "array-contains-any") {
+    return filter.value.length;
+  }
+  return 1;
+}
+
+/**
+ * Maximum number of array membership filters in one conjunction
+ * AND adds, OR takes the largest branch
+ */
+function countArrayMembership(filter: QueryFilter): number {
+  if (isCompositeFilter(filter)) {
+    const counts = filter.filters.map(countArrayMembership);
+    return filter.type === "and"
+      ? counts.reduce((sum, count) => sum + count, 0)
+      : Math.max(0, ...counts);
+  }
+  return filter.operator === "array-contains" || filter.operator === "array-contains-any"
+    ? 1
+    : 0;
+}
+
+/**
+ * Convert filter value to a value Firestore accepts
+ * Dates become Timestamps, so equality matches stored Timestamp fields
+ */
+function toFirestoreValue(value: FilterValue): Exclude<FilterValue, Date> {
+  return value instanceof Date ? Timestamp.fromDate(value) : value;
+}
+
+/**
+ * Convert query filter (field filter or group) to a filter constraint
+ */
+function toFilterConstraint(filter: QueryFilter): QueryFilterConstraint {
+  if (isCompositeFilter(filter)) {
+    const constraints = filter.filters.map(toFilterConstraint);
+    return filter.type === "and" ? and(...constraints) : or(...constraints);
+  }
+
+  return toFieldConstraint(filter);
+}
+
+/**
+ * Convert field filter to a where constraint
+ */
+function toFieldConstraint(filter: FieldFilter): QueryFieldFilterConstraint {
+  const { field, operator, value } = filter;
+  return Array.isArray(value)
+    ? where(field, operator, value.map(toFirestoreValue))
+    : where(field, operator, toFirestoreValue(value));
 }
 
 /**
  * Helper: Create a field filter for 'in' operator
- * Automatically handles chunking if array >10 values
+ * Firestore supports up to 30 values; use the fan-out executor for more
  */
 export function createInFilter(
   field: string,
-  values: string[] | number[],
+  values: FilterValue[],
 ): FieldFilter {
   return {
     field,
@@ -173,12 +409,41 @@ export function createInFilter(
   };
 }
 
+/**
+ * Helper: Create a field filter for 'not-in' operator
+ * Firestore supports up to 10 values
+ */
+export function createNotInFilter(
+  field: string,
+  values: FilterValue[],
+): FieldFilter {
+  return {
+    field,
+    operator: "not-in",
+    value: values,
+  };
+}
+
+/**
+ * Helper: Create a field filter for 'array-contains-any' operator
+ */
+export function createArrayContainsAnyFilter(
+  field: string,
+  values: FilterValue[],
+): FieldFilter {
+  return {
+    field,
+    operator: "array-contains-any",
+    value: values,
+  };
+}
+
 /**
  * Helper: Create a field filter for equality
  */
 export function createEqualFilter(
   field: string,
-  value: string | number | boolean,
+  value: FilterValue,
 ): FieldFilter {
   return {
     field,
@@ -186,3 +451,32 @@ export function createEqualFilter(
     value,
   };
 }
+
+/**
+ * Helper: Create a field filter for inequality
+ * Documents without the field are not matched
+ */
+export function createNotEqualFilter(
+  field: string,
+  value: FilterValue,
+): FieldFilter {
+  return {
+    field,
+    operator: "!=",
+    value,
+  };
+}
+
+/**
+ * Helper: Combine filters with AND
+ */
+export function createAndFilter(...filters: QueryFilter[]): CompositeFilter {
+  return { type: "and", filters };
+}
+
+/**
+ * Helper: Combine filters with OR
+ */
+export function createOrFilter(...filters: QueryFilter[]): CompositeFilter {
+  return { type: "or", filters };
+}
@@ -0,0 +1,178 @@
+/**
+ * Query Fan-Out Utility
+ * Single Responsibility: Split oversized queries and merge their results
+ *
+ * Firestore rejects queries with more than 30 disjunctions in disjunctive
+ * normal form (every 'in' / 'array-contains-any' value counts as one).
+ * Such queries are split into several valid queries that run in parallel;
+ * their results are merged, de-duplicated by document path, sorted and
+ * limited on the client like the original query would have been.
+ *
+ * @example
+ * ```typescript
+ * const plans = planFanOutQueries({
+ *   collectionName: 'users',
+ *   baseFilters: [createInFilter('id', userIds)], // 75 values
+ * });
+ * // plans.length === 3
+ * ```
+ */
+
+import type { QueryDocumentSnapshot } from "firebase/firestore";
+import { FIRESTORE_LIMITS } from "../domain/constants/FirestoreLimits";
+import { chunkArray } from "./batch.helper";
+import {
+  getDisjunctionCount,
+  isCompositeFilter,
+  type FieldFilter,
+  type QueryBuilderOptions,
+  type QueryFilter,
+} from "./query-builder";
+
+/**
+ * Check if query options need more than one Firestore query
+ *
+ * @param options - Query builder options
+ * @returns true if filters exceed the disjunction limit
+ */
+export function requiresFanOut(options: QueryBuilderOptions): boolean {
+  return getDisjunctionCount(options.baseFilters ?? []) > FIRESTORE_LIMITS.MAX_DISJUNCTIONS;
+}
+
+/**
+ * Split query options into queries within the disjunction limit
+ *
+ * Top-level OR groups are split into one query per branch, large 'in' /
+ * 'array-contains-any' filters into value chunks. Options within the
+ * limit are returned unchanged.
+ *
+ * @param options - Query builder options
+ * @returns Query options whose results together match the original query
+ */
+export function planFanOutQueries(options: QueryBuilderOptions): QueryBuilderOptions[] {
+  if (!requiresFanOut(options)) {
+    return [options];
+  }
+
+  const filters = flattenAndFilters(options.baseFilters ?? []);
+  const disjunctions = getDisjunctionCount(filters);
+
+  // Split the filter contributing the most disjunctions
+  let splitIndex = -1;
+  let splitSize = 1;
+  filters.forEach((filter, index) => {
+    const size = getDisjunctionCount([filter]);
+    if (size > splitSize) {
+      splitIndex = index;
+      splitSize = size;
+    }
+  });
+
+  const target = filters[splitIndex];
+  let variants: QueryFilter[];
+  if (isCompositeFilter(target)) {
+    // AND groups are flattened above, so this is an OR group
+    variants = target.filters;
+  } else {
+    const listFilter = target as Extract<FieldFilter, { value: unknown[] }>;
+    // Largest chunk that keeps the remaining filters within the limit
+    const otherDisjunctions = disjunctions / splitSize;
+    const chunkSize = Math.floor(FIRESTORE_LIMITS.MAX_DISJUNCTIONS / otherDisjunctions);
+    variants = chunkArray(listFilter.value, chunkSize).map((chunk) => ({
+      ...listFilter,
+      value: chunk,
+    }));
+  }
+
+  return variants.flatMap((variant) =>
+    planFanOutQueries({
+      ...options,
+      baseFilters: filters.map((filter, index) => (index === splitIndex ? variant : filter)),
+    }),
+  );
+}
+
+/**
+ * Merge results of fanned-out queries
+ * De-duplicates by document path and re-applies sort and limit
+ *
+ * @param results - Documents of each query
+ * @param options - Original query builder options
+ * @returns Merged documents
+ */
+export function mergeFanOutResults<T>(
+  results: QueryDocumentSnapshot<T>[][],
+  options: QueryBuilderOptions,
+): QueryDocumentSnapshot<T>[] {
+  const byPath = new Map<string, QueryDocumentSnapshot<T>>();
+  for (const docs of results) {
+    for (const doc of docs) {
+      if (!byPath.has(doc.ref.path)) {
+        byPath.set(doc.ref.path, doc);
+      }
+    }
+  }
+
+  const { sort, limitValue } = options;
+  // Same defaults as buildQuery; Firestore breaks ties by document path
+  const direction = sort && (sort.order || "desc") === "desc" ? -1 : 1;
+  const merged = Array.from(byPath.values()).sort((a, b) => {
+    const byField = sort ? compareFieldValues(a.get(sort.field), b.get(sort.field)) : 0;
+    return direction * (byField || compareFieldValues(a.ref.path, b.ref.path));
+  });
+
+  return limitValue !== undefined ? merged.slice(0, limitValue) : merged;
+}
+
+/**
+ * Inline top-level AND groups into the filter list
+ */
+function flattenAndFilters(filters: QueryFilter[]): QueryFilter[] {
+  return filters.flatMap((filter) =>
+    isCompositeFilter(filter) && filter.type === "and"
+      ? flattenAndFilters(filter.filters)
+      : [filter],
+  );
+}
+
+/**
+ * Rank of a value type in Firestore's cross-type ordering
+ */
+function getTypeRank(value: unknown): number {
+  if (value === null || value === undefined) return 0;
+  if (typeof value === "boolean") return 1;
+  if (typeof value === "number") return 2;
+  if (isTimestampLike(value)) return 3;
+  if (typeof value === "string") return 4;
+  return 5;
+}
+
+function isTimestampLike(value: unknown): value is { seconds: number; nanoseconds: number } {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { seconds?: unknown }).seconds === "number" &&
+    typeof (value as { nanoseconds?: unknown }).nanoseconds === "number"
+  );
+}
+
+/**
+ * Compare two field values the way Firestore orders them
+ * (null < boolean < number < timestamp < string < other)
+ */
+function compareFieldValues(a: unknown, b: unknown): number {
+  const rankDiff = getTypeRank(a) - getTypeRank(b);
+  if (rankDiff !== 0) {
+    return rankDiff;
+  }
+  if (isTimestampLike(a) && isTimestampLike(b)) {
+    return a.seconds - b.seconds || a.nanoseconds - b.nanoseconds;
+  }
+  if (typeof a === "number" && typeof b === "number") {
+    return a - b;
+  }
+  if (typeof a === "string" || typeof a === "boolean") {
+    return a < (b as typeof a) ? -1 : a > (b as typeof a) ? 1 : 0;
+  }
+  return 0;
+}
@@ -0,0 +1,510 @@
+/**
+ * Query Fingerprint Utility
+ * Single Responsibility: Derive canonical keys for Firestore queries
+ *
+ * Equivalent queries get the same fingerprint, different queries never do.
+ * Deduplication, the query result cache and request logs share it.
+ * Repositories add how the result was produced (result kind and converter),
+ * so results of the same query are only shared between callers that shape them alike.
+ *
+ * Normalization:
+ * - AND/OR groups are flattened, de-duplicated and sorted; single-filter groups are unwrapped
+ * - 'in' / 'not-in' / 'array-contains-any' value lists are de-duplicated and sorted
+ * - Single-value 'in' / 'array-contains-any' become '==' / 'array-contains'
+ * - Values are encoded with their type (string "1" and number 1 differ,
+ *   Date and Timestamp of the same instant are equal)
+ * - Date ranges and cursor values become filters and cursors like buildQuery applies them
+ *
+ * @example
+ * ```typescript
+ * const key = getQueryKey({
+ *   collectionName: 'posts',
+ *   baseFilters: [createInFilter('tag', ['b', 'a'])],
+ *   sort: { field: 'createdAt' },
+ *   limitValue: 10,
+ * });
+ * getQueryFingerprint(key);
+ * // 'posts where tag in [s:"a", s:"b"] orderBy createdAt desc limit 10'
+ * ```
+ */
+
+import type { AggregateSpec, Query } from "firebase/firestore";
+import {
+  getQueryFilters,
+  isCompositeFilter,
+  type FieldFilter,
+  type FilterValue,
+  type QueryBuilderOptions,
+  type QueryFilter,
+} from "./query-builder";
+
+/**
+ * How a query result was produced
+ * - fan-out: QuerySnapshot array of executeFanOutQuery
+ * - page: single raw QuerySnapshot (paginated and maintenance queries)
+ * - custom: whatever the function passed to executeQuery returns
+ */
+export type QueryResultKind = "fan-out" | "page" | "custom";
+
+/**
+ * Canonical description of a query
+ */
+export interface QueryKey {
+  /**
+   * Collection the query is tracked under (cache TTL and invalidation)
+   */
+  collection: string;
+  /**
+   * Canonical filters
+   */
+  filters: string;
+  limit?: number;
+  limitToLast?: boolean;
+  orderBy?: string;
+  /**
+   * Canonical start/end cursors
+   */
+  cursors?: string;
+  /**
+   * Collection path or collection group read, if it differs from collection
+   */
+  source?: string;
+  /**
+   * Collection ID of a collection group query
+   */
+  collectionGroup?: string;
+  /**
+   * Canonical aggregations (aggregation queries only)
+   */
+  aggregation?: string;
+  /**
+   * Firestore instance key, if not the default instance
+   */
+  instance?: string;
+  /**
+   * How the result was produced (result keys only)
+   */
+  result?: QueryResultKind;
+  /**
+   * Identity of the data converter applied to the result (result keys only)
+   */
+  converter?: string;
+}
+
+interface CanonicalGroup {
+  type: "and" | "or";
+  children: CanonicalNode[];
+}
+
+type CanonicalNode = string | CanonicalGroup;
+
+/**
+ * Internal query shape of the Firebase JS SDK (Query._query)
+ */
+interface SdkPath {
+  segments: string[];
+  offset: number;
+  len: number;
+}
+
+interface SdkFieldFilter {
+  field: SdkPath;
+  op: string;
+  /**
+   * Protobuf value, e.g. { stringValue: "a" }
+   */
+  value: unknown;
+}
+
+interface SdkCompositeFilter {
+  filters: (SdkFieldFilter | SdkCompositeFilter)[];
+  op: "and" | "or";
+}
+
+interface SdkBound {
+  position: unknown[];
+  inclusive: boolean;
+}
+
+interface SdkQuery {
+  path: SdkPath;
+  collectionGroup: string | null;
+  explicitOrderBy: { field: SdkPath; dir: string }[];
+  filters: (SdkFieldFilter | SdkCompositeFilter)[];
+  limit: number | null;
+  limitType: "F" | "L";
+  startAt: SdkBound | null;
+  endAt: SdkBound | null;
+}
+
+const LIST_OPERATORS = ["in", "not-in", "array-contains-any"];
+
+// Field path of documentId() in order-by clauses
+const DOCUMENT_ID_FIELD = "__name__";
+
+// Identities of query objects without SDK internals and of converters
+const objectIds = new WeakMap<object, number>();
+let nextObjectId = 1;
+
+/**
+ * Get canonical query key from query builder options
+ *
+ * @param options - Query builder options
+ * @returns Query key
+ */
+export function getQueryKey(options: QueryBuilderOptions): QueryKey {
+  const { collectionName, dateRange, sort, limitValue, cursorValue } = options;
+
+  const clauses: CanonicalNode[] = getQueryFilters(options).map(toCanonicalFilter);
+  if (dateRange?.startDate) {
+    clauses.push(`${dateRange.field} >= ${encodeMillis(dateRange.startDate)}`);
+  }
+  if (dateRange?.endDate) {
+    clauses.push(`${dateRange.field} <= ${encodeMillis(dateRange.endDate)}`);
+  }
+
+  return {
+    collection: collectionName,
+    source: options.collectionGroup ? `collectionGroup(${collectionName})` : undefined,
+    collectionGroup: options.collectionGroup ? collectionName : undefined,
+    filters: toFiltersString(clauses),
+    limit: limitValue,
+    orderBy: sort ? `${sort.field} ${sort.order || "desc"}` : undefined,
+    cursors: cursorValue !== undefined ? `startAfter(${encodeMillis(cursorValue)})` : undefined,
+  };
+}
+
+/**
+ * Options of a paginated query (see BasePaginatedRepository.executePaginatedQuery)
+ */
+export interface PageQueryKeyOptions {
+  /**
+   * Collection path, or the collection ID of a collection group query
+   */
+  collection: string;
+  collectionGroup?: boolean;
+  /**
+   * Tombstone field the query requires to be null (soft-delete mode)
+   */
+  tombstoneField?: string | null;
+  /**
+   * Order-by fields; document ID is appended as a tiebreaker
+   */
+  orderBy: string[];
+  direction: "asc" | "desc";
+  /**
+   * Order-by values and path of the cursor document
+   */
+  cursor?: { values: FilterValue[]; documentPath: string };
+  /**
+   * Page before the cursor (endBefore + limitToLast)
+   */
+  backward?: boolean;
+  limit: number;
+}
+
+/**
+ * Get canonical query key of a paginated query from its options
+ * Matches getQueryKeyFromQuery for the query built from the same options
+ *
+ * @param options - Paginated query options
+ * @returns Query key
+ */
+export function getPageQueryKey(options: PageQueryKeyOptions): QueryKey {
+  const { collection, collectionGroup, tombstoneField, cursor, backward } = options;
+  const bound = cursor
+    ? [...cursor.values.map(encodeValue), `r:${cursor.documentPath}`].join(", ")
+    : null;
+
+  return {
+    collection,
+    filters: tombstoneField ? toFieldClause(tombstoneField, "==", "null") : "",
+    limit: options.limit,
+    limitToLast: backward ? true : undefined,
+    orderBy: [...options.orderBy, DOCUMENT_ID_FIELD]
+      .map((field) => `${field} ${options.direction}`)
+      .join(", "),
+    cursors: bound !== null ? `${backward ? "endBefore" : "startAfter"}(${bound})` : undefined,
+    source: collectionGroup ? `collectionGroup(${collection})` : undefined,
+    collectionGroup: collectionGroup ? collection : undefined,
+  };
+}
+
+/**
+ * Get canonical query key from a Firestore query
+ * Reads the query's constraints; query objects without them
+ * (e.g. test doubles) get a key unique to the object.
+ * Prefer getQueryKey or getPageQueryKey where the query options are known.
+ *
+ * @param query - Firestore query
+ * @param collection - Collection the query is tracked under
+ * @returns Query key
+ */
+export function getQueryKeyFromQuery(query: Query, collection: string): QueryKey {
+  const internal = (query as unknown as { _query?: SdkQuery })._query;
+  if (!internal || !internal.path || !Array.isArray(internal.filters)) {
+    return { collection, filters: `query#${getObjectId(query)}` };
+  }
+
+  const path = joinPath(internal.path, "/");
+  const source = internal.collectionGroup !== null
+    ? `collectionGroup(${internal.collectionGroup})`
+    : path;
+  const orderBy = internal.explicitOrderBy
+    .map((order) => `${joinPath(order.field, ".")} ${order.dir}`)
+    .join(", ");
+  const cursors = [
+    internal.startAt ? encodeBound(internal.startAt, "startAt", "startAfter") : "",
+    internal.endAt ? encodeBound(internal.endAt, "endAt", "endBefore") : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  return {
+    collection,
+    filters: toFiltersString(internal.filters.map(toCanonicalSdkFilter)),
+    limit: internal.limit ?? undefined,
+    limitToLast: internal.limit !== null && internal.limitType === "L" ? true : undefined,
+    orderBy: orderBy || undefined,
+    cursors: cursors || undefined,
+    source: source !== collection ? source : undefined,
+    collectionGroup: internal.collectionGroup ?? undefined,
+  };
+}
+
+/**
+ * Get key of a query result: the query key plus how the result is produced
+ * Caching and deduplication share results only between equal result keys,
+ * so the same query read with another converter or result kind is run separately.
+ *
+ * @param key - Query key
+ * @param result - How the result is produced
+ * @param converter - Data converter applied to the result (optional)
+ * @returns Result key
+ */
+export function getResultKey(
+  key: QueryKey,
+  result: QueryResultKind,
+  converter?: object | null,
+): QueryKey {
+  return converter
+    ? { ...key, result, converter: `converter#${getObjectId(converter)}` }
+    : { ...key, result };
+}
+
+/**
+ * Serialize query key to its fingerprint
+ * Used as deduplication and cache key and recorded in request logs
+ *
+ * @param key - Query key
+ * @returns Fingerprint, e.g. 'posts where status == s:"active" orderBy createdAt desc limit 10'
+ */
+export function getQueryFingerprint(key: QueryKey): string {
+  const parts = [key.source ?? key.collection];
+  if (key.instance !== undefined) parts.unshift(`[${key.instance}]`);
+  if (key.filters) parts.push(`where ${key.filters}`);
+  if (key.orderBy) parts.push(`orderBy ${key.orderBy}`);
+  if (key.cursors) parts.push(key.cursors);
+  if (key.limit !== undefined) {
+    parts.push(`${key.limitToLast ? "limitToLast" : "limit"} ${key.limit}`);
+  }
+  if (key.aggregation !== undefined) parts.push(`aggregate ${key.aggregation}`);
+  if (key.result !== undefined) parts.push(`as ${key.result}`);
+  if (key.converter !== undefined) parts.push(`with ${key.converter}`);
+  return parts.join(" ");
+}
+
+/**
+ * Get canonical description of aggregations, sorted by alias
+ *
+ * @param spec - Aggregate spec, e.g. { total: sum('amount') }
+ * @returns Aggregations, e.g. 'total: sum(amount)'
+ */
+export function getAggregationKey(spec: AggregateSpec): string {
+  return Object.keys(spec)
+    .sort()
+    .map((alias) => {
+      const field = spec[alias] as unknown as { aggregateType: string; _internalFieldPath?: SdkPath };
+      const path = field._internalFieldPath ? joinPath(field._internalFieldPath, ".") : "";
+      return `${alias}: ${field.aggregateType}(${path})`;
+    })
+    .join(", ");
+}
+
+function getObjectId(object: object): number {
+  let id = objectIds.get(object);
+  if (id === undefined) {
+    id = nextObjectId++;
+    objectIds.set(object, id);
+  }
+  return id;
+}
+
+/**
+ * Filters are combined with AND at the top level
+ */
+function toFiltersString(clauses: CanonicalNode[]): string {
+  if (clauses.length === 0) {
+    return "";
+  }
+  const root = combine("and", clauses);
+  return typeof root !== "string" && root.type === "and"
+    ? root.children.map(nodeToString).join(" && ")
+    : nodeToString(root);
+}
+
+/**
+ * Combine nodes into a flattened, de-duplicated and sorted group
+ * A group with a single node is unwrapped
+ */
+function combine(type: "and" | "or", nodes: CanonicalNode[]): CanonicalNode {
+  const unique = new Map<string, CanonicalNode>();
+  for (const node of nodes) {
+    const children = typeof node !== "string" && node.type === type ? node.children : [node];
+    children.forEach((child) => unique.set(nodeToString(child), child));
+  }
+
+  const keys = Array.from(unique.keys()).sort();
+  if (keys.length === 1) {
+    return unique.get(keys[0])!;
+  }
+  return { type, children: keys.map((key) => unique.get(key)!) };
+}
+
+function nodeToString(node: CanonicalNode): string {
+  return typeof node === "string"
+    ? node
+    : `${node.type}(${node.children.map(nodeToString).join(", ")})`;
+}
+
+function toCanonicalFilter(filter: QueryFilter): CanonicalNode {
+  if (isCompositeFilter(filter)) {
+    return combine(filter.type, filter.filters.map(toCanonicalFilter));
+  }
+  const { field, operator, value } = filter as FieldFilter;
+  return Array.isArray(value)
+    ? toFieldClause(field, operator, value.map(encodeValue))
+    : toFieldClause(field, operator, encodeValue(value));
+}
+
+function toCanonicalSdkFilter(filter: SdkFieldFilter | SdkCompositeFilter): CanonicalNode {
+  if ("filters" in filter) {
+    return combine(filter.op, filter.filters.map(toCanonicalSdkFilter));
+  }
+  const field = joinPath(filter.field, ".");
+  return LIST_OPERATORS.includes(filter.op)
+    ? toFieldClause(field, filter.op, getSdkArrayValues(filter.value).map(encodeSdkValue))
+    : toFieldClause(field, filter.op, encodeSdkValue(filter.value));
+}
+
+/**
+ * Canonical field clause, value lists are sorted and de-duplicated
+ */
+function toFieldClause(field: string, operator: string, value: string | string[]): string {
+  if (!Array.isArray(value)) {
+    return `${field} ${operator} ${value}`;
+  }
+  const values = Array.from(new Set(value)).sort();
+  if (values.length === 1 && operator === "in") {
+    return `${field} == ${values[0]}`;
+  }
+  if (values.length === 1 && operator === "array-contains-any") {
+    return `${field} array-contains ${values[0]}`;
+  }
+  return `${field} ${operator} [${values.join(", ")}]`;
+}
+
+function joinPath(path: SdkPath, separator: string): string {
+  return path.segments.slice(path.offset, path.offset + path.len).join(separator);
+}
+
+function encodeBound(bound: SdkBound, inclusiveName: string, exclusiveName: string): string {
+  const values = bound.position.map(encodeSdkValue).join(", ");
+  return `${bound.inclusive ? inclusiveName : exclusiveName}(${values})`;
+}
+
+function encodeTimestamp(seconds: number, nanoseconds: number): string {
+  return `t:${seconds}.${String(nanoseconds).padStart(9, "0")}`;
+}
+
+function encodeMillis(millis: number): string {
+  const seconds = Math.floor(millis / 1000);
+  return encodeTimestamp(seconds, Math.round((millis - seconds * 1000) * 1e6));
+}
+
+/**
+ * Encode filter value with its type
+ */
+function encodeValue(value: FilterValue): string {
+  if (value === null) return "null";
+  if (typeof value === "boolean") return `b:${value}`;
+  if (typeof value === "number") return `n:${value}`;
+  if (typeof value === "string") return `s:${JSON.stringify(value)}`;
+  if (value instanceof Date) return encodeMillis(value.getTime());
+
+  const object = value as unknown as Record<string, unknown>;
+  if (typeof object.seconds === "number" && typeof object.nanoseconds === "number") {
+    return encodeTimestamp(object.seconds, object.nanoseconds);
+  }
+  if (typeof object.latitude === "number" && typeof object.longitude === "number") {
+    return `g:${object.latitude},${object.longitude}`;
+  }
+  if (typeof object.path === "string") {
+    return `r:${object.path}`;
+  }
+  return `o:${JSON.stringify(value)}`;
+}
+
+/**
+ * Encode SDK (protobuf) value with its type, matching encodeValue
+ */
+function encodeSdkValue(value: unknown): string {
+  if (!isRecord(value)) return `o:${JSON.stringify(value)}`;
+  if ("nullValue" in value) return "null";
+  if ("booleanValue" in value) return `b:${String(value.booleanValue)}`;
+  if ("integerValue" in value) return `n:${Number(value.integerValue)}`;
+  if ("doubleValue" in value) return `n:${Number(value.doubleValue)}`;
+  if ("stringValue" in value) return `s:${JSON.stringify(value.stringValue)}`;
+  if ("timestampValue" in value) {
+    const timestamp = value.timestampValue;
+    if (typeof timestamp === "string") {
+      return encodeMillis(Date.parse(timestamp));
+    }
+    const { seconds, nanos } = isRecord(timestamp) ? timestamp : {};
+    return encodeTimestamp(Number(seconds ?? 0), Number(nanos ?? 0));
+  }
+  if ("geoPointValue" in value) {
+    const { latitude, longitude } = isRecord(value.geoPointValue) ? value.geoPointValue : {};
+    return `g:${Number(latitude ?? 0)},${Number(longitude ?? 0)}`;
+  }
+  if ("referenceValue" in value) {
+    const reference = String(value.referenceValue);
+    const index = reference.indexOf("/documents/");
+    return `r:${index >= 0 ? reference.slice(index + "/documents/".length) : reference}`;
+  }
+  if ("bytesValue" in value) return `y:${String(value.bytesValue)}`;
+  if ("arrayValue" in value) {
+    return `[${getSdkArrayValues(value).map(encodeSdkValue).join(", ")}]`;
+  }
+  if ("mapValue" in value) {
+    const mapValue = value.mapValue;
+    const fields = isRecord(mapValue) && isRecord(mapValue.fields) ? mapValue.fields : {};
+    const entries = Object.keys(fields)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}: ${encodeSdkValue(fields[key])}`);
+    return `{${entries.join(", ")}}`;
+  }
+  return `o:${JSON.stringify(value)}`;
+}
+
+/**
+ * Values of an SDK array value ({ arrayValue: { values } })
+ */
+function getSdkArrayValues(value: unknown): unknown[] {
+  const arrayValue = isRecord(value) ? value.arrayValue : undefined;
+  return isRecord(arrayValue) && Array.isArray(arrayValue.values) ? arrayValue.values : [];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
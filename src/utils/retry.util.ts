@@ -0,0 +1,87 @@
+/**
+ * Retry Utility
+ * Single Responsibility: Backoff and policy resolution for retries
+ *
+ * Quota errors are never retried - quota won't increase by retrying
+ */
+
+import type { RetryPolicy } from "../domain/entities/RetryPolicy";
+import { DEFAULT_RETRY_POLICY } from "../domain/constants/RetryDefaults";
+import { isQuotaError, isRetryableError } from "./quota-error-detector.util";
+
+/**
+ * Get error code from unknown error
+ *
+ * @param error - Error object
+ * @returns Error code or undefined
+ */
+export function getErrorCode(error: unknown): string | undefined {
+  if (!error || typeof error !== "object") {
+    return undefined;
+  }
+  const code = (error as { code?: unknown }).code;
+  return typeof code === "string" ? code : undefined;
+}
+
+/**
+ * Resolve effective retry policy for an error
+ * Merges defaults, the given policy and the override for the error code
+ *
+ * @param error - Error of the failed attempt
+ * @param policy - Partial retry policy
+ * @returns Effective policy, or null if the error must not be retried
+ */
+export function resolveRetryPolicy(
+  error: unknown,
+  policy: Partial<RetryPolicy> = {},
+): RetryPolicy | null {
+  if (isQuotaError(error)) {
+    return null;
+  }
+
+  const { codeOverrides, ...basePolicy } = { ...DEFAULT_RETRY_POLICY, ...policy };
+  const code = getErrorCode(error);
+  const override = code && codeOverrides ? codeOverrides[code] : undefined;
+
+  if (override === false) {
+    return null;
+  }
+
+  // An explicit override opts the code in even if it is not retryable by default
+  if (!override && !isRetryableError(error)) {
+    return null;
+  }
+
+  return { ...basePolicy, ...override };
+}
+
+/**
+ * Calculate delay before a retry using exponential backoff with jitter
+ *
+ * @param retryNumber - Retry number (1 for the first retry)
+ * @param policy - Retry policy
+ * @param random - Random source (0-1), injectable for tests
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(
+  retryNumber: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random,
+): number {
+  const exponential =
+    policy.initialDelayMs * Math.pow(policy.backoffMultiplier, retryNumber - 1);
+  const capped = Math.min(exponential, policy.maxDelayMs);
+  const jitter = Math.min(Math.max(policy.jitter, 0), 1);
+  // Spread delay randomly within ±jitter of the capped value
+  const offset = capped * jitter * (random() * 2 - 1);
+  return Math.max(0, Math.round(capped + offset));
+}
+
+/**
+ * Wait for the given time
+ *
+ * @param ms - Milliseconds to wait
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
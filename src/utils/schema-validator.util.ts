@@ -0,0 +1,81 @@
+/**
+ * Schema Validator Utility
+ * Single Responsibility: Adapt schema libraries to DocumentValidator
+ *
+ * Any schema with a zod-style safeParse (zod, or adapters of other
+ * libraries) can validate repository documents.
+ *
+ * @example
+ * ```typescript
+ * const PostSchema = z.object({ title: z.string(), score: z.number() });
+ *
+ * const posts = new FirestoreRepository<Post>('posts', postConverter, {
+ *   validation: { validator: createSchemaValidator(PostSchema), onInvalidRead: 'skip' },
+ * });
+ * ```
+ */
+
+import type {
+  DocumentValidator,
+  ValidationIssue,
+  ValidationResult,
+} from "../domain/entities/DocumentValidator";
+
+/**
+ * Schema with a zod-style safeParse
+ */
+export interface SafeParseSchema<T> {
+  safeParse(data: unknown):
+    | { success: true; data: T }
+    | {
+        success: false;
+        error: {
+          issues: { path: PropertyKey[]; message: string; code?: string }[];
+        };
+      };
+  /**
+   * Schema accepting any subset of fields (used for partial updates)
+   */
+  partial?(): SafeParseSchema<Partial<T>>;
+}
+
+/**
+ * Create document validator from a schema with safeParse
+ *
+ * @param schema - Schema, e.g. a zod object schema
+ * @returns Document validator
+ */
+export function createSchemaValidator<T>(schema: SafeParseSchema<T>): DocumentValidator<T> {
+  const partialSchema = schema.partial?.();
+  return {
+    validate: (data) => fromSafeParse(schema, data),
+    validatePartial: partialSchema ? (data) => fromSafeParse(partialSchema, data) : undefined,
+  };
+}
+
+/**
+ * Format issues as a single line, e.g. 'title: Required; score: Expected number'
+ *
+ * @param issues - Validation issues
+ * @returns Formatted issues
+ */
+export function formatValidationIssues(issues: ValidationIssue[]): string {
+  return issues
+    .map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message))
+    .join("; ");
+}
+
+function fromSafeParse<T>(schema: SafeParseSchema<T>, data: unknown): ValidationResult<T> {
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    issues: result.error.issues.map((issue) => ({
+      path: issue.path.map(String).join("."),
+      message: issue.message,
+      code: issue.code,
+    })),
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * Soft Delete Utility
+ * Single Responsibility: Tombstone fields of soft-deleted documents
+ *
+ * A soft-deleted document keeps its data and gets its tombstone field
+ * (default 'deletedAt') set to a server timestamp. Live documents store null
+ * in the field, so queries can exclude deleted ones with `field == null`:
+ * documents written without the field (e.g. by other clients or before soft
+ * delete was enabled) do not match such queries until the field is backfilled
+ * (FirestoreRepository.backfillTombstones).
+ */
+
+import type {
+  DocumentData,
+  DocumentSnapshot,
+  FirestoreDataConverter,
+  SetOptions,
+} from "firebase/firestore";
+import { DEFAULT_SOFT_DELETE_OPTIONS } from "../domain/constants/TimestampDefaults";
+import type { SoftDeleteOptions } from "../types/repository.types";
+
+/**
+ * Resolve repository soft-delete options
+ *
+ * @param options - true for the default field, or the tombstone field
+ * @returns Resolved options, or null if soft delete is disabled
+ */
+export function resolveSoftDeleteOptions(
+  options: boolean | Partial<SoftDeleteOptions> | undefined,
+): SoftDeleteOptions | null {
+  if (!options) {
+    return null;
+  }
+  return { ...DEFAULT_SOFT_DELETE_OPTIONS, ...(options === true ? {} : options) };
+}
+
+/**
+ * Wrap data converter to write a null tombstone field on full sets
+ * Merges leave the field unchanged (they must not restore deleted documents);
+ * FirestoreRepository.upsert adds it to existing documents that lack it
+ *
+ * @param converter - Data converter
+ * @param field - Tombstone field
+ * @returns Wrapped converter
+ */
+export function withTombstoneField<T>(
+  converter: FirestoreDataConverter<T, DocumentData>,
+  field: string,
+): FirestoreDataConverter<T, DocumentData> {
+  return {
+    toFirestore: ((data: T, setOptions?: SetOptions) =>
+      setOptions
+        ? converter.toFirestore(data as never, setOptions)
+        : { ...converter.toFirestore(data as never), [field]: null }
+    ) as FirestoreDataConverter<T, DocumentData>["toFirestore"],
+    fromFirestore: (snapshot, snapshotOptions) =>
+      converter.fromFirestore(snapshot, snapshotOptions),
+  };
+}
+
+/**
+ * Check if document is soft-deleted
+ * Pending tombstones count as deleted
+ *
+ * @param snapshot - Document snapshot
+ * @param field - Tombstone field
+ * @returns true if the tombstone field is set
+ */
+export function isSoftDeleted(snapshot: DocumentSnapshot<unknown, DocumentData>, field: string): boolean {
+  if (!snapshot.exists()) {
+    return false;
+  }
+  const tombstone = snapshot.get(field, { serverTimestamps: "estimate" });
+  return tombstone !== null && tombstone !== undefined;
+}
@@ -0,0 +1,120 @@
+/**
+ * Timestamp Fields Utility
+ * Single Responsibility: Stamp createdAt/updatedAt with server timestamps
+ *
+ * Server timestamps avoid ordering bugs caused by client clocks.
+ * Until a write reaches the server, its snapshots hold no server value;
+ * reads then fall back to the configured behavior (a local estimate by default).
+ *
+ * @example
+ * ```typescript
+ * const options = resolveTimestampOptions(true)!;
+ * const ref = doc(db, 'posts', id).withConverter(withTimestampFields(postConverter, options));
+ * await setDoc(ref, post); // createdAt and updatedAt set by the server
+ * ```
+ */
+
+import { serverTimestamp } from "firebase/firestore";
+import type {
+  DocumentData,
+  DocumentSnapshot,
+  FirestoreDataConverter,
+  QueryDocumentSnapshot,
+  SetOptions,
+  SnapshotOptions,
+} from "firebase/firestore";
+import { DEFAULT_TIMESTAMP_FIELDS } from "../domain/constants/TimestampDefaults";
+import type { TimestampFields, TimestampOptions } from "../types/repository.types";
+
+export type ResolvedTimestampOptions = TimestampFields & Required<Pick<TimestampOptions, "serverTimestamps">>;
+
+/**
+ * Resolve repository timestamp options
+ *
+ * @param options - true for default field names, or field names and read behavior
+ * @returns Resolved options, or null if timestamps are disabled
+ */
+export function resolveTimestampOptions(
+  options: boolean | TimestampOptions | undefined,
+): ResolvedTimestampOptions | null {
+  if (!options) {
+    return null;
+  }
+  return {
+    ...DEFAULT_TIMESTAMP_FIELDS,
+    serverTimestamps: "estimate",
+    ...(options === true ? {} : options),
+  };
+}
+
+/**
+ * Get serverTimestamp() values for a write
+ * Creates stamp createdAt and updatedAt, updates only updatedAt
+ *
+ * @param fields - Timestamp field names
+ * @param operation - Kind of write
+ * @returns Fields to write
+ */
+export function getTimestampFieldValues(
+  fields: TimestampFields,
+  operation: "create" | "update",
+): DocumentData {
+  const values: DocumentData = {};
+  if (operation === "create" && fields.createdAt) {
+    values[fields.createdAt] = serverTimestamp();
+  }
+  if (fields.updatedAt) {
+    values[fields.updatedAt] = serverTimestamp();
+  }
+  return values;
+}
+
+/**
+ * Wrap data converter to stamp timestamp fields on write
+ * and read pending server timestamps with the configured behavior
+ *
+ * Full sets (create, set) stamp both fields, merges (upsert) only updatedAt.
+ * updateDoc does not run converters: add getTimestampFieldValues(fields, 'update').
+ *
+ * @param converter - Data converter
+ * @param options - Resolved timestamp options
+ * @returns Wrapped converter
+ */
+export function withTimestampFields<T>(
+  converter: FirestoreDataConverter<T, DocumentData>,
+  options: ResolvedTimestampOptions,
+): FirestoreDataConverter<T, DocumentData> {
+  return {
+    toFirestore: ((data: T, setOptions?: SetOptions) => ({
+      ...(setOptions
+        ? converter.toFirestore(data as never, setOptions)
+        : converter.toFirestore(data as never)),
+      ...getTimestampFieldValues(options, setOptions ? "update" : "create"),
+    })) as FirestoreDataConverter<T, DocumentData>["toFirestore"],
+    fromFirestore: (snapshot: QueryDocumentSnapshot<DocumentData>, snapshotOptions?: SnapshotOptions) =>
+      converter.fromFirestore(
+        options.serverTimestamps === "none"
+          ? snapshot
+          : withServerTimestampBehavior(snapshot, options.serverTimestamps),
+        snapshotOptions,
+      ),
+  };
+}
+
+/**
+ * Make a snapshot read pending server timestamps with the given behavior
+ * unless the caller asks for another one
+ */
+function withServerTimestampBehavior<S extends DocumentSnapshot<DocumentData>>(
+  snapshot: S,
+  serverTimestamps: "estimate" | "previous",
+): S {
+  const withBehavior = (options?: SnapshotOptions): SnapshotOptions => ({
+    ...options,
+    serverTimestamps: options?.serverTimestamps ?? serverTimestamps,
+  });
+  const wrapped = Object.create(snapshot) as S;
+  wrapped.data = (options?: SnapshotOptions) => snapshot.data(withBehavior(options));
+  wrapped.get = (field, options?: SnapshotOptions) => snapshot.get(field, withBehavior(options));
+  return wrapped;
+}